@@ -15,6 +15,8 @@ import {
   ChevronRight,
   CheckCircle2,
   AlertCircle,
+  ClipboardCheck,
+  History,
   User
 } from 'lucide-react';
 
@@ -25,9 +27,26 @@ import ListeningLab from './components/ListeningLab';
 import AccentTrainer from './components/AccentTrainer';
 import ConversationSim from './components/ConversationSim';
 import VideoPractice from './components/VideoPractice';
+import CoachReview from './components/CoachReview';
+import SessionHistory from './components/SessionHistory';
 import { UserProfile } from './types';
 import { UserContext } from './UserContext';
-import { loginUser, registerUser, getAccessToken, setAuthTokens } from './services/api';
+import {
+  loginUser,
+  registerUser,
+  loginWithGoogle,
+  completeTwoFactorLogin,
+  isTwoFactorChallenge,
+  logoutUser,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  acceptInvitation,
+  verifyToken,
+  getAccessToken,
+  setAuthTokens,
+} from './services/api';
 
 // Google OAuth Client ID (set VITE_GOOGLE_CLIENT_ID in .env file)
 const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || '';
@@ -60,166 +79,409 @@ const ToastContainer = ({ toasts }: { toasts: Toast[] }) => (
   </div>
 );
 
-                {/* Social Login Section */}
-                <div className="mb-6 flex flex-col gap-3">
-                  {GOOGLE_CLIENT_ID ? (
-                    <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
-                      <GoogleLogin
-                        onSuccess={credentialResponse => {
-                          // TODO: Send credentialResponse.credential to backend for verification and login
-                          // onComplete(user) after backend verification
-                          console.log('Google login success:', credentialResponse);
-                          setError('Google OAuth integration required on backend');
-                        }}
-                        onError={() => {
-                          setError('Google login failed');
-                        }}
-                        width="100%"
-                        useOneTap
-                      />
-                    </GoogleOAuthProvider>
-                  ) : (
-                    <button className="w-full py-3 rounded-md border border-stone-200 bg-white text-stone-500 font-sans font-medium text-xs flex items-center justify-center gap-2 opacity-50 cursor-not-allowed" disabled>
-                      Google Login (requires VITE_GOOGLE_CLIENT_ID env var)
-                    </button>
-                  )}
-                  {/* Placeholder for other providers */}
-                  <button className="w-full py-3 rounded-md border border-stone-200 bg-white text-stone-700 font-sans font-medium text-sm flex items-center justify-center gap-2 opacity-60 cursor-not-allowed" disabled>
-                    <svg width="20" height="20" fill="currentColor" className="inline-block"><rect width="20" height="20" rx="3" fill="#333"/></svg>
-                    GitHub Login (coming soon)
-                  </button>
-                </div>
-
-                <div className="space-y-4 mb-6">
-                  <input
-                    type="email"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    placeholder="Email"
-                    className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-                  />
-                  {!isLogin && (
-                    <>
-                      <input
-                        type="text"
-                        value={name}
-                        onChange={(e) => setName(e.target.value)}
-                        placeholder="Full Name"
-                        className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-                      />
-                      <input
-                        type="text"
-                        value={role}
-                        onChange={(e) => setRole(e.target.value)}
-                        placeholder="Professional Role"
-                        className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-                      />
-                    </>
-                  )}
-                  <input
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Password (min 8 characters)"
-                    className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-                  />
-                </div>
-
-                {error && (
-                  <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-md text-rose-600 text-sm">
-                    {error}
-                  </div>
-                )}
+const Background = () => (
+  <div className="fixed inset-0 -z-10 pointer-events-none">
+    <div className="absolute inset-0 bg-grain opacity-20" />
+  </div>
+);
 
-                <button
-                  onClick={handleSubmit}
-                  disabled={!canSubmit || loading}
-                  className="w-full bg-stone-900 text-stone-50 py-3 font-sans font-medium text-sm tracking-widest uppercase hover:bg-stone-800 disabled:opacity-50 transition-colors rounded-md"
-                >
-                  {loading ? 'Loading...' : isLogin ? 'Sign In' : 'Create Account'}
-                </button>
-
-                <div className="flex justify-between items-center mt-6">
-                  <button
-                    className="text-teal-700 hover:underline text-xs font-sans"
-                    onClick={() => setIsLogin(!isLogin)}
-                  >
-                    {isLogin ? "Don't have an account? Register" : 'Already have an account? Sign In'}
-                  </button>
-                </div>
-                {/*
-                  Wallet/MetaMask/Xverse errors are caused by browser extensions and cannot be fixed in app code.
-                  Advise users to disable these extensions if not needed.
-                */}
-              </motion.div>
-            </div>
-          );
-          <p className="text-stone-500 font-sans text-sm leading-relaxed">
-            {isLogin
-              ? 'Sign in to your professional coaching account'
-              : 'Create your account to start improving your communication'}
-          </p>
+const SidebarItem = ({ to, icon: Icon, label, active }: { to: string; icon: React.ElementType; label: string; active: boolean }) => (
+  <Link
+    to={to}
+    className={`flex items-center justify-between px-8 py-3 text-sm transition-colors group ${
+      active ? 'text-stone-900 font-bold bg-stone-100 border-r-2 border-stone-900' : 'text-stone-500 hover:text-stone-900 hover:bg-stone-50'
+    }`}
+  >
+    <span className="flex items-center gap-4">
+      <Icon size={18} strokeWidth={active ? 2 : 1.5} />
+      {label}
+    </span>
+    {active && <ChevronRight size={14} />}
+  </Link>
+);
+
+// --- Auth Modal ---
+type AuthView = 'auth' | 'forgot' | 'reset' | 'verify' | '2fa';
+
+// Read a one-time token from an emailed link and strip it from the address bar
+const takeUrlToken = (param: string): string | null => {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get(param);
+  if (token) {
+    params.delete(param);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }
+  return token;
+};
+
+const AuthCard = ({ children }: { children: React.ReactNode }) => (
+  <div className="fixed inset-0 z-[100] flex items-center justify-center bg-stone-100 p-4">
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-md w-full bg-white border border-stone-200 rounded-md shadow-xl p-8"
+    >
+      {children}
+    </motion.div>
+  </div>
+);
+
+const AuthModal = ({ onComplete }: { onComplete: (user: any) => void }) => {
+  const [resetToken] = useState(() => takeUrlToken('resetToken'));
+  const [view, setView] = useState<AuthView>(resetToken ? 'reset' : 'auth');
+  const [pendingUser, setPendingUser] = useState<any>(null);
+  const [notice, setNotice] = useState('');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLogin, setIsLogin] = useState(true);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const canSubmit = email.length > 0 && password.length >= 8 && (isLogin || (name.length > 0 && role.length > 0));
+
+  // Send 2FA accounts to the code step, everyone else straight in
+  const handleSignInResult = (result: any) => {
+    if (isTwoFactorChallenge(result)) {
+      setChallengeToken(result.challengeToken);
+      setTwoFactorCode('');
+      setView('2fa');
+    } else {
+      onComplete(result);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      if (isLogin) {
+        handleSignInResult(await loginUser(email, password));
+      } else {
+        // Hold new accounts on the "verify your email" step before onboarding
+        setPendingUser(await registerUser(email, name, role, password));
+        setView('verify');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Authentication failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showView = (next: AuthView) => {
+    setError('');
+    setNotice('');
+    setView(next);
+  };
+
+  const handleForgotPassword = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const data = await requestPasswordReset(email);
+      setNotice(data.message);
+    } catch (err: any) {
+      setError(err.message || 'Could not send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const data = await resetPassword(resetToken || '', password);
+      setPassword('');
+      setIsLogin(true);
+      setView('auth');
+      setNotice(data.message);
+    } catch (err: any) {
+      setError(err.message || 'Password reset failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTwoFactor = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const factor = useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode };
+      onComplete(await completeTwoFactorLogin(challengeToken, factor));
+    } catch (err: any) {
+      setError(err.message || 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setError('');
+    try {
+      const data = await resendVerificationEmail();
+      setNotice(data.message);
+    } catch (err: any) {
+      setError(err.message || 'Could not resend verification email');
+    }
+  };
+
+  const handleGoogleCredential = async (credential?: string) => {
+    if (!credential) {
+      setError('Google login failed');
+      return;
+    }
+    setError('');
+    setLoading(true);
+    try {
+      handleSignInResult(await loginWithGoogle(credential));
+    } catch (err: any) {
+      setError(err.message || 'Google login failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const messages = (
+    <>
+      {error && (
+        <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-md text-rose-600 text-sm">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-teal-50 border border-teal-200 rounded-md text-teal-800 text-sm">
+          {notice}
         </div>
+      )}
+    </>
+  );
 
-        <div className="space-y-4 mb-6">
+  if (view === 'verify') {
+    return (
+      <AuthCard>
+        <h1 className="text-5xl font-serif font-bold text-stone-900 mb-3">Verify your email</h1>
+        <p className="text-stone-500 font-sans text-sm leading-relaxed mb-6">
+          We sent a confirmation link to <span className="font-bold text-stone-900">{pendingUser?.email}</span>.
+          You can keep practicing while you wait.
+        </p>
+        {messages}
+        <button
+          onClick={() => onComplete(pendingUser)}
+          className="w-full bg-stone-900 text-stone-50 py-3 font-sans font-medium text-sm tracking-widest uppercase hover:bg-stone-800 transition-colors rounded-md"
+        >
+          Continue
+        </button>
+        <div className="mt-6">
+          <button className="text-teal-700 hover:underline text-xs font-sans" onClick={handleResendVerification}>
+            Didn't get it? Resend email
+          </button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (view === '2fa') {
+    return (
+      <AuthCard>
+        <h1 className="text-5xl font-serif font-bold text-stone-900 mb-3">Two-step sign in</h1>
+        <p className="text-stone-500 font-sans text-sm leading-relaxed mb-6">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when enabling two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+        <div className="mb-6">
           <input
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            placeholder="Email"
-            className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            value={twoFactorCode}
+            onChange={(e) => setTwoFactorCode(e.target.value)}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700 tracking-widest"
+            autoFocus
           />
-          {!isLogin && (
-            <>
-              <input
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="Full Name"
-                className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-              />
-              <input
-                type="text"
-                value={role}
-                onChange={(e) => setRole(e.target.value)}
-                placeholder="Professional Role"
-                className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-              />
-            </>
+        </div>
+        {messages}
+        <button
+          onClick={handleTwoFactor}
+          disabled={!twoFactorCode || loading}
+          className="w-full bg-stone-900 text-stone-50 py-3 font-sans font-medium text-sm tracking-widest uppercase hover:bg-stone-800 disabled:opacity-50 transition-colors rounded-md"
+        >
+          {loading ? 'Loading...' : 'Verify'}
+        </button>
+        <div className="flex justify-between items-center mt-6">
+          <button
+            className="text-teal-700 hover:underline text-xs font-sans"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setTwoFactorCode('');
+            }}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+          <button className="text-stone-500 hover:text-stone-900 text-xs font-sans transition-colors" onClick={() => showView('auth')}>
+            Back to Sign In
+          </button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (view === 'forgot' || view === 'reset') {
+    const isReset = view === 'reset';
+    return (
+      <AuthCard>
+        <h1 className="text-5xl font-serif font-bold text-stone-900 mb-3">{isReset ? 'New password' : 'Forgot password?'}</h1>
+        <p className="text-stone-500 font-sans text-sm leading-relaxed mb-6">
+          {isReset
+            ? 'Choose a new password. You will be signed out of every device.'
+            : "Enter your account email and we'll send you a reset link."}
+        </p>
+        <div className="mb-6">
+          {isReset ? (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="New password (min 8 characters)"
+              className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+            />
+          ) : (
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+            />
           )}
-          <input
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="Password (min 8 characters)"
-            className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
-          />
         </div>
-
-        {error && (
-          <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-md text-rose-600 text-sm">
-            {error}
-          </div>
-        )}
-
+        {messages}
         <button
-          onClick={handleSubmit}
-          disabled={!canSubmit || loading}
+          onClick={isReset ? handleResetPassword : handleForgotPassword}
+          disabled={(isReset ? password.length < 8 : !email) || loading}
           className="w-full bg-stone-900 text-stone-50 py-3 font-sans font-medium text-sm tracking-widest uppercase hover:bg-stone-800 disabled:opacity-50 transition-colors rounded-md"
         >
-          {loading ? 'Loading...' : isLogin ? 'Sign In' : 'Create Account'}
+          {loading ? 'Loading...' : isReset ? 'Update Password' : 'Send Reset Link'}
         </button>
+        <div className="mt-6">
+          <button className="text-teal-700 hover:underline text-xs font-sans" onClick={() => showView('auth')}>
+            Back to Sign In
+          </button>
+        </div>
+      </AuthCard>
+    );
+  }
 
-        <div className="mt-4 text-center">
+  return (
+    <AuthCard>
+      <div className="mb-8">
+        <h1 className="text-5xl font-serif font-bold text-stone-900 mb-3">Cara.</h1>
+        <p className="text-stone-500 font-sans text-sm leading-relaxed">
+          {isLogin
+            ? 'Sign in to your professional coaching account'
+            : 'Create your account to start improving your communication'}
+        </p>
+      </div>
+
+      {/* Social Login Section */}
+      <div className="mb-6 flex flex-col gap-3">
+        {GOOGLE_CLIENT_ID ? (
+          <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
+            <GoogleLogin
+              onSuccess={credentialResponse => handleGoogleCredential(credentialResponse.credential)}
+              onError={() => {
+                setError('Google login failed');
+              }}
+              width="100%"
+              useOneTap
+            />
+          </GoogleOAuthProvider>
+        ) : (
+          <button className="w-full py-3 rounded-md border border-stone-200 bg-white text-stone-500 font-sans font-medium text-xs flex items-center justify-center gap-2 opacity-50 cursor-not-allowed" disabled>
+            Google Login (requires VITE_GOOGLE_CLIENT_ID env var)
+          </button>
+        )}
+        {/* Placeholder for other providers */}
+        <button className="w-full py-3 rounded-md border border-stone-200 bg-white text-stone-700 font-sans font-medium text-sm flex items-center justify-center gap-2 opacity-60 cursor-not-allowed" disabled>
+          <svg width="20" height="20" fill="currentColor" className="inline-block"><rect width="20" height="20" rx="3" fill="#333"/></svg>
+          GitHub Login (coming soon)
+        </button>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+        />
+        {!isLogin && (
+          <>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Full Name"
+              className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+            />
+            <input
+              type="text"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              placeholder="Professional Role"
+              className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+            />
+          </>
+        )}
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (min 8 characters)"
+          className="w-full px-4 py-3 border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-700"
+        />
+      </div>
+
+      {messages}
+
+      <button
+        onClick={handleSubmit}
+        disabled={!canSubmit || loading}
+        className="w-full bg-stone-900 text-stone-50 py-3 font-sans font-medium text-sm tracking-widest uppercase hover:bg-stone-800 disabled:opacity-50 transition-colors rounded-md"
+      >
+        {loading ? 'Loading...' : isLogin ? 'Sign In' : 'Create Account'}
+      </button>
+
+      <div className="flex justify-between items-center mt-6">
+        <button
+          className="text-teal-700 hover:underline text-xs font-sans"
+          onClick={() => setIsLogin(!isLogin)}
+        >
+          {isLogin ? "Don't have an account? Register" : 'Already have an account? Sign In'}
+        </button>
+        {isLogin && (
           <button
-            onClick={() => setIsLogin(!isLogin)}
-            className="text-stone-500 text-sm hover:text-stone-900 transition-colors"
+            className="text-stone-500 hover:text-stone-900 text-xs font-sans transition-colors"
+            onClick={() => showView('forgot')}
           >
-            {isLogin ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+            Forgot password?
           </button>
-        </div>
-      </motion.div>
-    </div>
+        )}
+      </div>
+      {/*
+        Wallet/MetaMask/Xverse errors are caused by browser extensions and cannot be fixed in app code.
+        Advise users to disable these extensions if not needed.
+      */}
+    </AuthCard>
   );
 };
 
@@ -352,6 +614,8 @@ const AnimatedRoutes = () => {
         <Route path="/accent" element={<PageTransition><AccentTrainer /></PageTransition>} />
         <Route path="/conversation" element={<PageTransition><ConversationSim /></PageTransition>} />
         <Route path="/video" element={<PageTransition><VideoPractice /></PageTransition>} />
+        <Route path="/review" element={<PageTransition><CoachReview /></PageTransition>} />
+        <Route path="/history" element={<PageTransition><SessionHistory /></PageTransition>} />
       </Routes>
     </AnimatePresence>
   );
@@ -361,6 +625,13 @@ const Layout = ({ children, onLogout }: { children: React.ReactNode; onLogout?:
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { user } = useContext(UserContext);
+  const [isCoach, setIsCoach] = useState(false);
+
+  useEffect(() => {
+    verifyToken()
+      .then(({ user }) => setIsCoach(user.permissionRole === 'coach' || user.permissionRole === 'admin'))
+      .catch(() => setIsCoach(false));
+  }, []);
 
   const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Overview' },
@@ -370,6 +641,8 @@ const Layout = ({ children, onLogout }: { children: React.ReactNode; onLogout?:
     { path: '/video', icon: Video, label: 'Video Analysis' },
     { path: '/jobs', icon: Briefcase, label: 'Opportunities' },
     { path: '/listening', icon: Headphones, label: 'Listening Lab' },
+    { path: '/history', icon: History, label: 'History' },
+    ...(isCoach ? [{ path: '/review', icon: ClipboardCheck, label: 'Coach Review' }] : []),
   ];
 
   return (
@@ -478,13 +751,43 @@ const App = () => {
     setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 4000);
   };
 
+  // Confirm the address when the app is opened from a verification email
+  useEffect(() => {
+    const token = takeUrlToken('verifyToken');
+    if (!token) return;
+
+    verifyEmail(token)
+      .then(() => showToast('Email verified', 'success'))
+      .catch((err) => showToast(err.message || 'Email verification failed', 'error'));
+  }, []);
+
+  // Hold on to an invitation link until the user has signed in, then join the organization
+  useEffect(() => {
+    const token = takeUrlToken('invite');
+    if (token) sessionStorage.setItem('cara_invite', token);
+  }, []);
+
+  useEffect(() => {
+    const token = sessionStorage.getItem('cara_invite');
+    if (!isAuthenticated || !token) return;
+
+    sessionStorage.removeItem('cara_invite');
+    acceptInvitation(token)
+      .then((result) => showToast(`You joined ${result.organization.name}`, 'success'))
+      .catch((err) => showToast(err.message || 'Could not accept invitation', 'error'));
+  }, [isAuthenticated]);
+
   const handleAuthComplete = (user: any) => {
     setIsAuthenticated(true);
     showToast(`Welcome back, ${user.name}!`, 'success');
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('cara_auth_token');
+  const handleLogout = async () => {
+    try {
+      await logoutUser();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
     setIsAuthenticated(false);
     showToast('Logged out successfully', 'info');
   };
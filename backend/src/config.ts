@@ -3,14 +3,18 @@
  * Ensures all required environment variables are set and validates their values
  */
 
+import { resolveLlmProviderName } from './services/llm';
+
 export interface AppConfig {
   env: string;
   port: number;
   databaseUrl: string;
   jwtSecret: string;
   jwtRefreshSecret: string;
+  llmProvider: string;
   geminiApiKey: string;
   frontendUrl: string;
+  googleClientId: string;
   sentryDsn: string;
   nodeEnv: 'development' | 'staging' | 'production';
 }
@@ -19,11 +23,13 @@ export interface AppConfig {
  * Validate that all required environment variables are set
  */
 export const validateEnvironment = (): AppConfig => {
+  const llmProvider = resolveLlmProviderName();
   const requiredVars = [
     'DATABASE_URL',
     'JWT_SECRET',
     'JWT_REFRESH_SECRET',
-    'GEMINI_API_KEY',
+    // Only the real provider needs an API key; the mock runs offline
+    ...(llmProvider === 'gemini' ? ['GEMINI_API_KEY'] : []),
   ];
 
   const missing = requiredVars.filter(v => !process.env[v]);
@@ -63,8 +69,10 @@ export const validateEnvironment = (): AppConfig => {
     databaseUrl: process.env.DATABASE_URL!,
     jwtSecret: process.env.JWT_SECRET!,
     jwtRefreshSecret: process.env.JWT_REFRESH_SECRET!,
-    geminiApiKey: process.env.GEMINI_API_KEY!,
+    llmProvider,
+    geminiApiKey: process.env.GEMINI_API_KEY || '',
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+    googleClientId: process.env.GOOGLE_CLIENT_ID || '',
     sentryDsn: process.env.SENTRY_DSN || '',
     nodeEnv,
   };
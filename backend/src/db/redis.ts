@@ -0,0 +1,38 @@
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null | undefined;
+
+/**
+ * Shared Redis connection, or null when REDIS_URL is unset. Connects on first
+ * use, after dotenv has loaded. Commands fail immediately while disconnected
+ * instead of queueing, so callers can fall back to in-process state.
+ */
+export const getRedis = (): RedisClient | null => {
+  if (client !== undefined) return client;
+
+  if (!process.env.REDIS_URL) {
+    client = null;
+    return client;
+  }
+
+  client = createClient({ url: process.env.REDIS_URL, disableOfflineQueue: true });
+
+  // Reconnect attempts fail every few hundred ms during an outage; log only the first
+  let connected = true;
+  client.on('error', error => {
+    if (connected) console.error('Redis error:', error.message);
+    connected = false;
+  });
+  client.on('ready', () => {
+    if (!connected) console.log('Redis connection restored');
+    connected = true;
+  });
+  client.connect().catch(error => console.error('Failed to connect to Redis:', error.message));
+  return client;
+};
+
+export const disconnectRedis = async (): Promise<void> => {
+  if (client?.isOpen) await client.quit();
+};
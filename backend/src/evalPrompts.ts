@@ -0,0 +1,85 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+
+import { createGeminiProvider, createMockProvider, loadMockRules, LlmProvider } from './services/llm';
+import {
+  EVAL_SUITES,
+  parseEvalDataset,
+  runEvaluation,
+  findRegressions,
+  formatComparisonReport,
+} from './services/promptEval';
+
+/**
+ * Compare two versions of a prompt on a golden dataset:
+ *
+ *   npm run eval:prompts -- fixtures/eval/ats_analysis.json [--baseline 1] [--candidate 2]
+ *     [--provider mock|gemini] [--fixtures fixtures/llm-mock.json] [--out eval-reports]
+ *
+ * The candidate defaults to the newest version and the baseline to the one
+ * before it. Writes a Markdown report and the raw runs as JSON, and exits
+ * with 1 when a case that was valid in the baseline fails in the candidate.
+ */
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run eval:prompts -- <dataset.json> [--baseline N] [--candidate N] [--provider mock|gemini] [--fixtures path] [--out dir]';
+
+const createProvider = (name: string, fixtures: string): LlmProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider(loadMockRules(fixtures));
+    case 'gemini':
+      return createGeminiProvider();
+    default:
+      throw new Error(`Unknown provider: ${name}`);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      baseline: { type: 'string' },
+      candidate: { type: 'string' },
+      provider: { type: 'string', default: 'mock' },
+      fixtures: { type: 'string', default: process.env.LLM_MOCK_FIXTURES || 'fixtures/llm-mock.json' },
+      out: { type: 'string', default: 'eval-reports' },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const dataset = parseEvalDataset(readFileSync(positionals[0], 'utf8'));
+  const { template } = EVAL_SUITES[dataset.suite];
+  const candidate = values.candidate ? Number(values.candidate) : template.versions.length;
+  const baseline = values.baseline ? Number(values.baseline) : Math.max(1, candidate - 1);
+  const provider = createProvider(values.provider!, values.fixtures!);
+
+  console.log(`Evaluating ${template.id} v${baseline} and v${candidate} on ${dataset.cases.length} cases with ${provider.name}`);
+  const baselineRun = await runEvaluation(dataset, baseline, provider);
+  const candidateRun = await runEvaluation(dataset, candidate, provider);
+
+  const name = `${dataset.suite}-v${baseline}-vs-v${candidate}`;
+  mkdirSync(values.out!, { recursive: true });
+  const report = formatComparisonReport(baselineRun, candidateRun);
+  writeFileSync(path.join(values.out!, `${name}.md`), report);
+  writeFileSync(path.join(values.out!, `${name}.json`), JSON.stringify({ baseline: baselineRun, candidate: candidateRun }, null, 2));
+
+  console.log(report);
+  console.log(`Report written to ${path.join(values.out!, `${name}.md`)}`);
+
+  return findRegressions(baselineRun, candidateRun).length > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Prompt evaluation failed:', error.message);
+    process.exit(2);
+  });
@@ -0,0 +1,51 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+
+import { API_ROUTERS } from './routes';
+import { buildOpenApiDocument, formatClientTypes } from './services/openapi';
+
+/**
+ * Generate the frontend's request types from the OpenAPI document:
+ *
+ *   npm run generate:api-types [-- --out ../services/api.generated.ts] [--check]
+ *
+ * With --check nothing is written; exits with 1 when the file is out of date
+ * with the route schemas, so a schema change can't ship without the client.
+ */
+
+const main = (): number => {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: '../services/api.generated.ts' },
+      check: { type: 'boolean', default: false },
+    },
+  });
+
+  const generated = formatClientTypes(buildOpenApiDocument(API_ROUTERS));
+
+  if (values.check) {
+    let current = '';
+    try {
+      current = readFileSync(values.out!, 'utf8');
+    } catch {
+      // Missing counts as out of date
+    }
+    if (current !== generated) {
+      console.error(`${values.out} is out of date, run npm run generate:api-types`);
+      return 1;
+    }
+    console.log(`${values.out} is up to date`);
+    return 0;
+  }
+
+  writeFileSync(values.out!, generated);
+  console.log(`API types written to ${values.out}`);
+  return 0;
+};
+
+try {
+  process.exit(main());
+} catch (error: any) {
+  console.error('API type generation failed:', error.message);
+  process.exit(2);
+}
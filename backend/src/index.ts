@@ -10,11 +10,15 @@ import dotenv from 'dotenv';
 import { getConfig, validateEnvironment } from './config';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
-import authRoutes from './routes/auth';
-import geminiRoutes from './routes/gemini';
-import sessionsRoutes from './routes/sessions';
-import analyticsRoutes from './routes/analytics';
+import { API_ROUTERS } from './routes';
+import docsRoutes from './routes/docs';
+import { attachLiveRelay, LIVE_PATH } from './services/liveRelay';
+import { purgeScheduledDeletions } from './services/account';
+import { abandonStaleSessions } from './services/sessions';
+import { ensureDefaultPlans } from './services/plans';
+import { getCircuitStatus } from './services/llmResilience';
 import { rateLimiter, apiLimiter } from './middleware/rateLimiter';
+import { getRedis, disconnectRedis } from './db/redis';
 
 // Load environment variables
 dotenv.config();
@@ -42,6 +46,10 @@ const logger = pino(pino.transport({
 
 // Log startup
 logger.info(`🚀 Starting Cara backend in ${config.nodeEnv} environment`);
+logger.info(`🤖 LLM provider: ${config.llmProvider}`);
+logger.info(getRedis()
+  ? '🧮 Rate limits and quota counters: Redis'
+  : '🧮 Rate limits and quota counters: in-process (set REDIS_URL to share them across instances)');
 
 // Security middleware
 app.use(Sentry.Handlers.requestHandler());
@@ -69,8 +77,8 @@ const corsOrigin = config.nodeEnv === 'development'
 app.use(cors({
   origin: corsOrigin,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control'],
 }));
 
 // Cookie and parsing middleware
@@ -86,19 +94,25 @@ app.use(rateLimiter);
 
 // Health check with dependency verification
 app.get('/health', (req, res) => {
+  // An open LLM circuit degrades the AI features but not the rest of the API
+  const circuit = getCircuitStatus();
   res.json({ 
-    status: 'ok', 
+    status: circuit.state === 'closed' ? 'ok' : 'degraded', 
     timestamp: new Date().toISOString(),
     environment: config.nodeEnv,
     version: '1.0.0',
+    llm: { provider: config.llmProvider, circuit },
   });
 });
 
 // Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/gemini', apiLimiter, geminiRoutes); // Stricter limit for API calls
-app.use('/api/sessions', sessionsRoutes);
-app.use('/api/analytics', analyticsRoutes);
+app.use('/api/gemini', apiLimiter); // Stricter limit for API calls
+for (const { path, router } of API_ROUTERS) {
+  app.use(path, router);
+}
+
+// API docs and the OpenAPI document
+app.use('/api/docs', docsRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -117,11 +131,49 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   logger.info(`🔒 Database: Connected`);
 });
 
+// Realtime voice calls are relayed over WebSocket on the same port
+attachLiveRelay(server);
+logger.info(`🎙️  Live relay listening on ${LIVE_PATH}`);
+
+// Make sure the free, pro and enterprise plans exist before quotas are checked
+ensureDefaultPlans().catch(error => {
+  logger.error({ err: error }, 'Failed to create default plans');
+});
+
+// Purge accounts whose deletion grace period has ended
+const ACCOUNT_PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const accountPurgeTimer = setInterval(async () => {
+  try {
+    const purged = await purgeScheduledDeletions();
+    if (purged > 0) {
+      logger.info(`🗑️  Purged ${purged} account(s) past their deletion grace period`);
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Account purge failed');
+  }
+}, ACCOUNT_PURGE_INTERVAL_MS);
+accountPurgeTimer.unref();
+
+// Abandon practice sessions whose client stopped sending heartbeats
+const STALE_SESSION_CHECK_INTERVAL_MS = 5 * 60 * 1000; // every 5 minutes
+const staleSessionTimer = setInterval(async () => {
+  try {
+    const abandoned = await abandonStaleSessions();
+    if (abandoned > 0) {
+      logger.info(`⏹️  Abandoned ${abandoned} stale session(s)`);
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Stale session check failed');
+  }
+}, STALE_SESSION_CHECK_INTERVAL_MS);
+staleSessionTimer.unref();
+
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
   server.close(async () => {
     logger.info('Server closed');
+    await disconnectRedis();
     process.exit(0);
   });
 });
@@ -130,6 +182,7 @@ process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully...');
   server.close(async () => {
     logger.info('Server closed');
+    await disconnectRedis();
     process.exit(0);
   });
 });
@@ -1,14 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../services/auth';
+import { verifyToken, PermissionRole } from '../services/auth';
+import { prisma } from '../db';
 
 export interface AuthRequest extends Request {
-  user?: { id: string; email: string };
+  user?: { id: string; email: string; permissionRole: PermissionRole };
 }
 
 /**
  * Middleware to verify JWT token and attach user to request
+ * The user is re-loaded from the database so deleted accounts are rejected
  */
-export const verifyAuthToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const verifyAuthToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
     const token = authHeader?.split(' ')[1];
@@ -22,7 +24,25 @@ export const verifyAuthToken = (req: AuthRequest, res: Response, next: NextFunct
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
 
-    req.user = payload;
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, email: true, permissionRole: true, disabledAt: true },
+    });
+
+    if (!user) {
+      return res.status(401).json({ error: 'User no longer exists' });
+    }
+
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    // Role comes from the database so a demotion takes effect immediately
+    req.user = {
+      id: user.id,
+      email: user.email,
+      permissionRole: user.permissionRole as PermissionRole,
+    };
     next();
   } catch (error) {
     res.status(401).json({ error: 'Authentication failed' });
@@ -38,3 +58,21 @@ export const requireAuth = (req: AuthRequest, res: Response, next: NextFunction)
   }
   next();
 };
+
+/**
+ * Middleware to restrict a route to the given permission roles.
+ * Must run after verifyAuthToken.
+ */
+export const requireRole = (...roles: PermissionRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!roles.includes(req.user.permissionRole)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    next();
+  };
+};
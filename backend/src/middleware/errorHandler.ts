@@ -3,6 +3,8 @@ import * as Sentry from '@sentry/node';
 
 export interface AppError extends Error {
   statusCode?: number;
+  code?: string; // Stable identifier for clients, defaults to the error class name
+  retryAfterSeconds?: number; // Sent as Retry-After
   isOperational?: boolean;
 }
 
@@ -13,18 +15,23 @@ export const errorHandler = (
   next: NextFunction
 ) => {
   const statusCode = err.statusCode || 500;
-  const isOperational = err.isOperational !== false;
+  // Errors we didn't raise on purpose carry no status, and their messages may leak internals
+  const isOperational = err.statusCode !== undefined && err.isOperational !== false;
 
   // Log error
   if (statusCode >= 500) {
     Sentry.captureException(err);
   }
 
+  if (err.retryAfterSeconds) {
+    res.set('Retry-After', String(err.retryAfterSeconds));
+  }
+
   // Send response
   res.status(statusCode).json({
     error: {
       message: isOperational ? err.message : 'Internal server error',
-      code: err.constructor.name,
+      code: err.code || err.constructor.name,
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
     },
   });
@@ -1,6 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
-import { prisma } from '../db';
+import rateLimit, { MemoryStore, Options, Store, ClientRateLimitInfo } from 'express-rate-limit';
+import { getRedis } from '../db/redis';
+import { PermissionRole } from '../services/auth';
+import { getQuotaStatus, findExceededLimit, getRemainingTokens, QuotaMetric } from '../services/plans';
+
+/**
+ * Rate limit counters shared by every API instance through Redis. Uses an
+ * in-memory store when REDIS_URL is unset or Redis is unreachable.
+ */
+class RedisStore implements Store {
+  localKeys = false;
+  private windowMs = 60 * 1000;
+  private memory = new MemoryStore();
+
+  constructor(public prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+    this.memory.init(options);
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const redis = getRedis();
+    if (redis?.isReady) {
+      try {
+        // The window starts with the first hit, so only set the expiry once
+        const [totalHits, , ttl] = await redis.multi()
+          .incr(this.prefix + key)
+          .pExpire(this.prefix + key, this.windowMs, 'NX')
+          .pTTL(this.prefix + key)
+          .exec() as [number, boolean, number];
+        return { totalHits, resetTime: new Date(Date.now() + Math.max(ttl, 0)) };
+      } catch (error) {
+        console.warn('Redis rate limit store unavailable, counting in memory:', (error as Error).message);
+      }
+    }
+    return this.memory.increment(key);
+  }
+
+  async decrement(key: string): Promise<void> {
+    const redis = getRedis();
+    try {
+      if (redis?.isReady) await redis.decr(this.prefix + key);
+    } catch {
+      // The hit expires with its window anyway
+    }
+    await this.memory.decrement(key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    const redis = getRedis();
+    try {
+      if (redis?.isReady) await redis.del(this.prefix + key);
+    } catch {
+      // The hit expires with its window anyway
+    }
+    await this.memory.resetKey(key);
+  }
+}
 
 // Global rate limiter: 100 requests per 15 minutes per IP
 export const rateLimiter = rateLimit({
@@ -10,6 +67,7 @@ export const rateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req) => req.user?.id || req.ip || 'unknown',
+  store: new RedisStore('ratelimit:global:'),
 });
 
 // API rate limiter: 20 requests per minute per user
@@ -18,38 +76,45 @@ export const apiLimiter = rateLimit({
   max: 20,
   message: 'API rate limit exceeded.',
   keyGenerator: (req) => req.user?.id || req.ip || 'unknown',
+  store: new RedisStore('ratelimit:api:'),
 });
 
-// Quota enforcement middleware
-export const checkQuota = async (req: Request, res: Response, next: NextFunction) => {
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  tokens: 'token',
+  voice_minutes: 'voice minute',
+  video_analyses: 'video analysis',
+  tts_characters: 'text-to-speech',
+};
+
+/**
+ * Quota enforcement middleware for a feature. Rejects the request when any
+ * daily or monthly plan limit on tokens, or on the extra metrics given, is used
+ * up. The feature type may be read from the request, e.g. req.body.featureType.
+ */
+export const checkQuota = (
+  feature?: string | ((req: Request) => string | undefined),
+  ...metrics: QuotaMetric[]
+) => async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.user?.id;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-    // Get today's usage
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const usage = await prisma.quotaUsage.aggregate({
-      where: {
-        userId,
-        createdAt: { gte: today },
-      },
-      _sum: { tokensUsed: true },
-    });
-
-    const tokensUsed = usage._sum.tokensUsed || 0;
-    const DAILY_QUOTA = 50000; // tokens per day
+    const featureType = typeof feature === 'function' ? feature(req) : feature;
+    const status = await getQuotaStatus(userId);
+    const exceeded = findExceededLimit(status, featureType, ['tokens', ...metrics]);
 
-    if (tokensUsed >= DAILY_QUOTA) {
+    if (exceeded) {
+      const period = exceeded.period === 'daily' ? 'Daily' : 'Monthly';
       return res.status(429).json({
-        error: 'Daily quota exceeded',
-        quotaReset: new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+        error: `${period} ${METRIC_LABELS[exceeded.metric]} quota exceeded`,
+        quotaReset: exceeded.resetAt.toISOString(),
+        plan: status.plan.key,
+        limit: exceeded,
       });
     }
 
-    // Attach remaining quota to request
-    req.remainingQuota = DAILY_QUOTA - tokensUsed;
+    // Attach remaining tokens to request
+    req.remainingQuota = getRemainingTokens(status, featureType);
     next();
   } catch (error) {
     next(error);
@@ -60,7 +125,7 @@ declare global {
   namespace Express {
     interface Request {
       remainingQuota?: number;
-      user?: { id: string; email: string };
+      user?: { id: string; email: string; permissionRole: PermissionRole };
     }
   }
 }
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import DOMPurify from 'isomorphic-dompurify';
+import { AuthRequest } from './authMiddleware';
+import { RouteSchema, ParsedBody, ParsedQuery, ParsedParams, ResponseBody, parseSchema } from '../schemas/schema';
+import { SchemaError } from '../services/jsonSchema';
 
 export interface ValidationError extends Error {
   statusCode?: number;
@@ -107,3 +110,59 @@ export const validatePromptMiddleware = (req: Request, res: Response, next: Next
     next(error);
   }
 };
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+export interface FieldError {
+  location: RequestLocation;
+  field: string; // Full path to the field, e.g. body.frames[3].mimeType
+  message: string;
+}
+
+// A request whose body, query and params have been replaced by their parsed values
+export type ValidatedRequest<R extends RouteSchema> = Omit<AuthRequest, 'body' | 'query' | 'params'> & {
+  body: ParsedBody<R>;
+  query: ParsedQuery<R>;
+  params: ParsedParams<R>;
+};
+
+// A response that only sends the route's response schema, or an error
+export type ValidatedResponse<R extends RouteSchema> = Response<ResponseBody<R> | { error: string }>;
+
+const toFieldError = (location: RequestLocation, error: SchemaError): FieldError => ({
+  location,
+  field: error.path,
+  message: error.message,
+});
+
+/**
+ * Check a route's params, query and body against its schemas, replacing each
+ * with the parsed value: types coerced, defaults filled in and undeclared
+ * fields dropped. Every problem is reported in one 400 response:
+ *   { error: 'body.score must be at most 100; query.limit must be an integer, got string', fields: [...] }
+ *
+ * The middleware carries its route schema, which is how the OpenAPI document finds it.
+ */
+export const validateRequest = (route: RouteSchema) => Object.assign((req: Request, res: Response, next: NextFunction) => {
+  const errors: FieldError[] = [];
+  const parsed: Partial<Record<RequestLocation, unknown>> = {};
+
+  for (const location of ['params', 'query', 'body'] as const) {
+    const schema = route[location];
+    if (!schema) continue;
+
+    const result = parseSchema(schema, req[location] ?? {}, location);
+    errors.push(...result.errors.map(error => toFieldError(location, error)));
+    parsed[location] = result.value;
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: errors.map(error => `${error.field} ${error.message}`).join('; '),
+      fields: errors,
+    });
+  }
+
+  Object.assign(req, parsed);
+  next();
+}, { routeSchema: route });
@@ -0,0 +1,73 @@
+import { Router, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, AuthRequest } from '../middleware/authMiddleware';
+import { validateRequest, ValidatedRequest } from '../middleware/validation';
+import {
+  reauthenticate,
+  exportAccountData,
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+} from '../services/account';
+import { exportAccountRoute, deleteAccountRoute, restoreAccountRoute } from '../schemas/account';
+
+const router: ReturnType<typeof Router> = Router();
+
+// Download all account data as a JSON bundle
+router.get(
+  '/export',
+  verifyAuthToken,
+  validateRequest(exportAccountRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const data = await exportAccountData(req.user!.id);
+    const filename = `cara-export-${new Date().toISOString().slice(0, 10)}.json`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.json(data);
+  })
+);
+
+// Request account deletion - requires re-authentication, purged after the grace period
+router.delete(
+  '/',
+  verifyAuthToken,
+  validateRequest(deleteAccountRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof deleteAccountRoute>, res: Response) => {
+    const { password, code, recoveryCode, credential } = req.body;
+
+    try {
+      await reauthenticate(req.user!.id, { password, code, recoveryCode, credential });
+    } catch (error: any) {
+      return res.status(401).json({ error: error.message || 'Re-authentication failed' });
+    }
+
+    const scheduledFor = await scheduleAccountDeletion(req.user!.id);
+
+    res.clearCookie('refreshToken', {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+    });
+
+    res.status(202).json({
+      message: 'Account scheduled for deletion',
+      scheduledFor,
+    });
+  })
+);
+
+// Cancel a pending deletion during the grace period
+router.post(
+  '/restore',
+  verifyAuthToken,
+  validateRequest(restoreAccountRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const restored = await cancelAccountDeletion(req.user!.id);
+    if (!restored) {
+      return res.status(404).json({ error: 'No pending deletion' });
+    }
+
+    res.json({ message: 'Account deletion cancelled' });
+  })
+);
+
+export default router;
@@ -0,0 +1,389 @@
+import { Router, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, requireRole, AuthRequest } from '../middleware/authMiddleware';
+import { validateAndSanitize, validateRequest, ValidatedRequest } from '../middleware/validation';
+import { revokeAllDeviceSessions } from '../services/auth';
+import { setQuotaOverride } from '../services/plans';
+import { getPromptTemplate, listPromptTemplates, pinPromptVersion } from '../services/prompts';
+import {
+  listUsersRoute,
+  setUserRoleRoute,
+  setUserPlanRoute,
+  setUserQuotaRoute,
+  disableUserRoute,
+  enableUserRoute,
+  listPlansRoute,
+  setPlanLimitsRoute,
+  setOrganizationPlanRoute,
+  setOrganizationQuotaRoute,
+  listPromptsRoute,
+  pinPromptRoute,
+  getPromptStatsRoute,
+} from '../schemas/admin';
+import { prisma } from '../db';
+
+const router: ReturnType<typeof Router> = Router();
+
+// Every admin endpoint requires an authenticated admin
+router.use(verifyAuthToken, requireRole('admin'));
+
+const quotaOverrideSelect = {
+  featureType: true,
+  metric: true,
+  period: true,
+  limit: true,
+};
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  permissionRole: true,
+  plan: { select: { key: true, name: true } },
+  quotaOverrides: { select: quotaOverrideSelect },
+  disabledAt: true,
+  disabledReason: true,
+  lastActiveAt: true,
+  createdAt: true,
+};
+
+const organizationPlanSelect = {
+  id: true,
+  name: true,
+  plan: { select: { key: true, name: true } },
+  quotaOverrides: { select: quotaOverrideSelect },
+};
+
+// List users
+router.get(
+  '/users',
+  validateRequest(listUsersRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listUsersRoute>, res: Response) => {
+    const { limit, offset, search, permissionRole } = req.query;
+
+    const where = {
+      ...(search && {
+        OR: [
+          { email: { contains: search, mode: 'insensitive' as const } },
+          { name: { contains: search, mode: 'insensitive' as const } },
+        ],
+      }),
+      ...(permissionRole && { permissionRole }),
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: adminUserSelect,
+        take: limit,
+        skip: offset,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    res.json({
+      users,
+      total,
+      limit,
+      offset,
+    });
+  })
+);
+
+// Change a user's permission role
+router.patch(
+  '/users/:id/role',
+  validateAndSanitize,
+  validateRequest(setUserRoleRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setUserRoleRoute>, res: Response) => {
+    const { id } = req.params;
+    const { permissionRole } = req.body;
+
+    if (id === req.user!.id && permissionRole !== 'admin') {
+      return res.status(400).json({ error: 'You cannot remove your own admin role' });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { permissionRole },
+      select: adminUserSelect,
+    });
+
+    res.json(user);
+  })
+);
+
+// Put a user on a plan, or back on their organization's (or the free) plan with null
+router.patch(
+  '/users/:id/plan',
+  validateRequest(setUserPlanRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setUserPlanRoute>, res: Response) => {
+    const { id } = req.params;
+    const { plan } = req.body;
+
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { plan: plan ? { connect: { key: plan } } : { disconnect: true } },
+      select: adminUserSelect,
+    });
+
+    res.json(user);
+  })
+);
+
+// Set one of a user's quota limits, or clear the override with a null limit
+router.patch(
+  '/users/:id/quota',
+  validateRequest(setUserQuotaRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setUserQuotaRoute>, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await setQuotaOverride({ userId: id }, req.body);
+    const user = await prisma.user.findUnique({ where: { id }, select: adminUserSelect });
+
+    res.json(user);
+  })
+);
+
+// Disable an account and sign it out everywhere
+router.post(
+  '/users/:id/disable',
+  validateAndSanitize,
+  validateRequest(disableUserRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof disableUserRoute>, res: Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot disable your own account' });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { disabledAt: new Date(), disabledReason: reason || null },
+      select: adminUserSelect,
+    });
+
+    await revokeAllDeviceSessions(id);
+
+    res.json(user);
+  })
+);
+
+// Re-enable a disabled account
+router.post(
+  '/users/:id/enable',
+  validateRequest(enableUserRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof enableUserRoute>, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { disabledAt: null, disabledReason: null },
+      select: adminUserSelect,
+    });
+
+    res.json(user);
+  })
+);
+
+// List plans with their limits
+router.get(
+  '/plans',
+  validateRequest(listPlansRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const plans = await prisma.plan.findMany({
+      include: {
+        limits: { select: quotaOverrideSelect },
+        _count: { select: { users: true, organizations: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ plans });
+  })
+);
+
+// Replace every limit of a plan
+router.put(
+  '/plans/:key/limits',
+  validateRequest(setPlanLimitsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setPlanLimitsRoute>, res: Response) => {
+    const { key } = req.params;
+    const { limits } = req.body;
+
+    const plan = await prisma.plan.findUnique({ where: { key } });
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+
+    await prisma.$transaction([
+      prisma.planLimit.deleteMany({ where: { planId: plan.id } }),
+      prisma.planLimit.createMany({
+        data: limits.map(limit => ({ ...limit, planId: plan.id })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    const updated = await prisma.plan.findUnique({
+      where: { id: plan.id },
+      include: { limits: { select: quotaOverrideSelect } },
+    });
+
+    res.json(updated);
+  })
+);
+
+// Put an organization's members on a plan, or clear it with null
+router.patch(
+  '/organizations/:id/plan',
+  validateRequest(setOrganizationPlanRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setOrganizationPlanRoute>, res: Response) => {
+    const { id } = req.params;
+    const { plan } = req.body;
+
+    const existing = await prisma.organization.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id },
+      data: { plan: plan ? { connect: { key: plan } } : { disconnect: true } },
+      select: organizationPlanSelect,
+    });
+
+    res.json(organization);
+  })
+);
+
+// Set one quota limit for every member of an organization, or clear it with a null limit
+router.patch(
+  '/organizations/:id/quota',
+  validateRequest(setOrganizationQuotaRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof setOrganizationQuotaRoute>, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.organization.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    await setQuotaOverride({ organizationId: id }, req.body);
+    const organization = await prisma.organization.findUnique({ where: { id }, select: organizationPlanSelect });
+
+    res.json(organization);
+  })
+);
+
+// List prompt templates with their versions and pins
+router.get(
+  '/prompts',
+  validateRequest(listPromptsRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    res.json({ prompts: await listPromptTemplates() });
+  })
+);
+
+// Pin a prompt template to one of its versions, or back to the newest with null
+router.patch(
+  '/prompts/:id/pin',
+  validateRequest(pinPromptRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof pinPromptRoute>, res: Response) => {
+    const template = getPromptTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const { version } = req.body;
+    if (version !== null && version > template.versions.length) {
+      return res.status(400).json({ error: `version must be between 1 and ${template.versions.length}, or null` });
+    }
+
+    await pinPromptVersion(template.id, version, req.user!.id);
+    const prompts = await listPromptTemplates();
+
+    res.json(prompts.find(prompt => prompt.id === template.id));
+  })
+);
+
+// Usage and session outcomes per version of a prompt template, for comparing prompt changes
+router.get(
+  '/prompts/:id/stats',
+  validateRequest(getPromptStatsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getPromptStatsRoute>, res: Response) => {
+    const template = getPromptTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const [usage, sessions, completed] = await Promise.all([
+      prisma.quotaUsage.groupBy({
+        by: ['promptVersion'],
+        where: { promptTemplateId: template.id },
+        _count: { _all: true },
+        _avg: { tokensUsed: true, outputTokens: true },
+      }),
+      prisma.session.groupBy({
+        by: ['promptVersion'],
+        where: { promptTemplateId: template.id },
+        _count: { _all: true },
+        _avg: { score: true },
+      }),
+      prisma.session.groupBy({
+        by: ['promptVersion'],
+        where: { promptTemplateId: template.id, completed: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const versions = template.versions.map(({ version }) => {
+      const requests = usage.find(row => row.promptVersion === version);
+      const versionSessions = sessions.find(row => row.promptVersion === version);
+      const completedCount = completed.find(row => row.promptVersion === version)?._count._all || 0;
+
+      return {
+        version,
+        requests: requests?._count._all || 0,
+        avgTokensUsed: Math.round(requests?._avg.tokensUsed || 0),
+        avgOutputTokens: Math.round(requests?._avg.outputTokens || 0),
+        sessions: versionSessions?._count._all || 0,
+        avgSessionScore: versionSessions?._avg.score ? Number(versionSessions._avg.score) : null,
+        completionRate: versionSessions?._count._all
+          ? Math.round((completedCount / versionSessions._count._all) * 100)
+          : null,
+      };
+    });
+
+    res.json({ id: template.id, versions });
+  })
+);
+
+export default router;
@@ -1,27 +1,20 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
 import { prisma } from '../db';
+import { verifyAuthToken, AuthRequest } from '../middleware/authMiddleware';
+import { validateRequest, ValidatedRequest } from '../middleware/validation';
+import { getSessionStats, getFeatureAdoption } from '../services/analytics';
+import { trackEventRoute, getUserStatsRoute, getFeatureAdoptionRoute } from '../schemas/analytics';
 
 const router: ReturnType<typeof Router> = Router();
 
-interface AuthRequest extends Request {
-  user?: { id: string; email: string };
-}
-
-const requireAuth = (req: AuthRequest, res: Response, next: Function) => {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.split(' ')[1]) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  req.user = { id: 'user-id', email: 'user@example.com' };
-  next();
-};
-
 // Track event
 router.post(
   '/events',
-  requireAuth,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  verifyAuthToken,
+  validateRequest(trackEventRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof trackEventRoute>, res: Response) => {
     const { eventType, metadata } = req.body;
     const userId = req.user!.id;
 
@@ -29,7 +22,7 @@ router.post(
       data: {
         userId,
         eventType,
-        metadata,
+        metadata: metadata as Prisma.InputJsonObject | undefined,
       },
     });
 
@@ -40,45 +33,24 @@ router.post(
 // Get user stats
 router.get(
   '/stats',
-  requireAuth,
+  verifyAuthToken,
+  validateRequest(getUserStatsRoute),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
 
-    const [totalSessions, completedSessions, avgScore] = await Promise.all([
-      prisma.session.count({ where: { userId } }),
-      prisma.session.count({ where: { userId, completed: true } }),
-      prisma.session.aggregate({
-        where: { userId },
-        _avg: { score: true },
-      }),
-    ]);
-
-    res.json({
-      totalSessions,
-      completedSessions,
-      averageScore: avgScore._avg.score || 0,
-    });
+    res.json(await getSessionStats({ userId }));
   })
 );
 
 // Get feature adoption
 router.get(
   '/adoption',
-  requireAuth,
+  verifyAuthToken,
+  validateRequest(getFeatureAdoptionRoute),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
 
-    const features = await prisma.session.groupBy({
-      by: ['featureType'],
-      where: { userId },
-      _count: { id: true },
-    });
-
-    const adoption = Object.fromEntries(
-      features.map(f => [f.featureType, f._count.id])
-    );
-
-    res.json(adoption);
+    res.json(await getFeatureAdoption({ userId }));
   })
 );
 
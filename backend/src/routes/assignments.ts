@@ -0,0 +1,213 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, requireRole } from '../middleware/authMiddleware';
+import { validateAndSanitize, validateRequest, ValidatedRequest } from '../middleware/validation';
+import {
+  createAssignment,
+  submitAssignment,
+  getAssignmentDetail,
+  findCoachedAssignment,
+  addReviewComment,
+  completeReview,
+} from '../services/assignments';
+import {
+  listAssignmentsRoute,
+  createAssignmentRoute,
+  getAssignmentRoute,
+  updateAssignmentRoute,
+  deleteAssignmentRoute,
+  submitAssignmentRoute,
+  addReviewCommentRoute,
+  deleteReviewCommentRoute,
+  completeReviewRoute,
+} from '../schemas/assignments';
+import { prisma } from '../db';
+
+const router: ReturnType<typeof Router> = Router();
+
+router.use(verifyAuthToken);
+
+// List assignments - the learner inbox by default, or ?as=coach for assignments you set
+router.get(
+  '/',
+  validateRequest(listAssignmentsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listAssignmentsRoute>, res: Response) => {
+    const { as, status, learnerId } = req.query;
+    const userId = req.user!.id;
+
+    const assignments = await prisma.assignment.findMany({
+      where: {
+        ...(as === 'coach' ? { coachId: userId } : { learnerId: userId }),
+        ...(status && { status }),
+        ...(as === 'coach' && learnerId && { learnerId }),
+      },
+      include: {
+        coach: { select: { id: true, name: true } },
+        learner: { select: { id: true, name: true } },
+        _count: { select: { comments: true } },
+      },
+      orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+
+    res.json(assignments);
+  })
+);
+
+// Assign practice to a learner
+router.post(
+  '/',
+  requireRole('coach', 'admin'),
+  validateAndSanitize,
+  validateRequest(createAssignmentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof createAssignmentRoute>, res: Response) => {
+    const { learnerId, featureType, title, instructions, config, dueAt } = req.body;
+
+    try {
+      const assignment = await createAssignment(req.user!, {
+        learnerId,
+        featureType,
+        title,
+        instructions,
+        config: config as Prisma.InputJsonObject | null | undefined,
+        dueAt,
+      });
+      res.status(201).json(assignment);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+// Get an assignment with its session, feedback highlights and review comments
+router.get(
+  '/:id',
+  validateRequest(getAssignmentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getAssignmentRoute>, res: Response) => {
+    try {
+      res.json(await getAssignmentDetail(req.params.id, req.user!));
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+// Edit an assignment
+router.patch(
+  '/:id',
+  validateAndSanitize,
+  validateRequest(updateAssignmentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof updateAssignmentRoute>, res: Response) => {
+    const { title, instructions, config, dueAt } = req.body;
+
+    try {
+      await findCoachedAssignment(req.params.id, req.user!);
+    } catch (error: any) {
+      return res.status(error.statusCode || 400).json({ error: error.message });
+    }
+
+    const assignment = await prisma.assignment.update({
+      where: { id: req.params.id },
+      data: {
+        ...(title && { title }),
+        ...(instructions !== undefined && { instructions: instructions || null }),
+        ...(config && { config: config as Prisma.InputJsonObject }),
+        ...(dueAt !== undefined && { dueAt }),
+      },
+    });
+
+    res.json(assignment);
+  })
+);
+
+// Delete an assignment
+router.delete(
+  '/:id',
+  validateRequest(deleteAssignmentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof deleteAssignmentRoute>, res: Response) => {
+    try {
+      await findCoachedAssignment(req.params.id, req.user!);
+    } catch (error: any) {
+      return res.status(error.statusCode || 400).json({ error: error.message });
+    }
+
+    await prisma.assignment.delete({ where: { id: req.params.id } });
+
+    res.json({ message: 'Assignment deleted' });
+  })
+);
+
+// Submit a session for review
+router.post(
+  '/:id/submit',
+  validateRequest(submitAssignmentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof submitAssignmentRoute>, res: Response) => {
+    const { sessionId } = req.body;
+
+    try {
+      const assignment = await submitAssignment(req.params.id, req.user!.id, sessionId);
+      res.json(assignment);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+// Leave a review comment on the submitted session
+router.post(
+  '/:id/comments',
+  validateAndSanitize,
+  validateRequest(addReviewCommentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof addReviewCommentRoute>, res: Response) => {
+    const { target, offsetSeconds, highlightIndex, quote, body } = req.body;
+
+    try {
+      const comment = await addReviewComment(req.params.id, req.user!, {
+        target,
+        offsetSeconds,
+        highlightIndex,
+        quote,
+        body,
+      });
+      res.status(201).json(comment);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+// Delete your own review comment
+router.delete(
+  '/:id/comments/:commentId',
+  validateRequest(deleteReviewCommentRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof deleteReviewCommentRoute>, res: Response) => {
+    const { count } = await prisma.reviewComment.deleteMany({
+      where: {
+        id: req.params.commentId,
+        assignmentId: req.params.id,
+        authorId: req.user!.id,
+      },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    res.json({ message: 'Comment deleted' });
+  })
+);
+
+// Finish the review
+router.post(
+  '/:id/review',
+  validateRequest(completeReviewRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof completeReviewRoute>, res: Response) => {
+    try {
+      res.json(await completeReview(req.params.id, req.user!));
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+export default router;
@@ -1,62 +1,133 @@
 import { Router, Request, Response } from 'express';
-import { validateAndSanitize } from '../middleware/validation';
-import { generateTokens, refreshAccessToken, createUser, authenticateUser, validatePasswordStrength } from '../services/auth';
+import { validateAndSanitize, validateRequest, ValidatedRequest } from '../middleware/validation';
+import {
+  generateTokens,
+  refreshAccessToken,
+  revokeRefreshToken,
+  listDeviceSessions,
+  revokeDeviceSession,
+  revokeOtherDeviceSessions,
+  createUser,
+  authenticateUser,
+  validatePasswordStrength,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  DeviceInfo,
+  PermissionRole,
+} from '../services/auth';
+import { verifyGoogleIdToken, findOrCreateGoogleUser } from '../services/googleAuth';
+import { requestPasswordReset, resetPassword, sendVerificationEmail, verifyEmail } from '../services/verification';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifySecondFactor,
+  disableTwoFactor,
+} from '../services/twoFactor';
+import { prisma } from '../db';
 import { asyncHandler } from '../middleware/errorHandler';
-import { verifyAuthToken } from '../middleware/authMiddleware';
+import { verifyAuthToken, AuthRequest } from '../middleware/authMiddleware';
+import {
+  registerRoute,
+  loginRoute,
+  googleLoginRoute,
+  twoFactorLoginRoute,
+  refreshTokenRoute,
+  setupTwoFactorRoute,
+  confirmTwoFactorRoute,
+  disableTwoFactorRoute,
+  forgotPasswordRoute,
+  resetPasswordRoute,
+  verifyEmailRoute,
+  resendVerificationRoute,
+  verifyTokenRoute,
+  logoutRoute,
+  listDeviceSessionsRoute,
+  revokeOtherDeviceSessionsRoute,
+  revokeDeviceSessionRoute,
+} from '../schemas/auth';
 
 const router: ReturnType<typeof Router> = Router();
 
-interface AuthRequest extends Request {
-  user?: { id: string; email: string };
+// Set secure HTTP-only cookie for refresh token
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  });
+};
+
+const clearRefreshCookie = (res: Response) => {
+  res.clearCookie('refreshToken', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+  });
+};
+
+const getRefreshToken = (req: Request): string | undefined => {
+  return req.cookies.refreshToken || req.body?.refreshToken;
+};
+
+// Device details stored with each refresh token
+const getDeviceInfo = (req: Request): DeviceInfo => ({
+  userAgent: req.get('user-agent')?.substring(0, 512),
+  ipAddress: req.ip,
+});
+
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  permissionRole: string;
+  emailVerified: boolean;
 }
 
+// Issue tokens for a fully authenticated user and send the standard auth response
+const sendAuthResponse = async (req: Request, res: Response, user: AuthenticatedUser, status = 200) => {
+  const tokens = await generateTokens(
+    { userId: user.id, email: user.email, permissionRole: user.permissionRole as PermissionRole },
+    getDeviceInfo(req)
+  );
+
+  setRefreshCookie(res, tokens.refreshToken);
+
+  res.status(status).json({
+    accessToken: tokens.accessToken,
+    expiresIn: tokens.expiresIn,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissionRole: user.permissionRole,
+      emailVerified: user.emailVerified,
+    },
+  });
+};
+
 // Register - Create new account
 router.post(
   '/register',
   validateAndSanitize,
-  asyncHandler(async (req: Request, res: Response) => {
+  validateRequest(registerRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof registerRoute>, res: Response) => {
     const { email, name, role, password } = req.body;
 
-    // Validate required fields
-    if (!email || !name || !role || !password) {
-      return res.status(400).json({
-        error: 'Missing required fields: email, name, role, password',
-      });
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return res.status(400).json({
-        error: 'Invalid email format',
-      });
-    }
-
     try {
       // Validate password strength
       validatePasswordStrength(password);
       
       const user = await createUser(email, name, role, password);
-      const tokens = generateTokens({ userId: user.id, email: user.email });
-
-      // Set secure HTTP-only cookie for refresh token
-      res.cookie('refreshToken', tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
 
-      res.status(201).json({
-        accessToken: tokens.accessToken,
-        expiresIn: tokens.expiresIn,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
+      // Don't fail registration if the mail transport is down - the user can resend
+      sendVerificationEmail(user.id).catch(error => {
+        console.error('Failed to send verification email:', error);
       });
+
+      await sendAuthResponse(req, res, { ...user, emailVerified: false }, 201);
     } catch (error: any) {
       if (error.code === 'P2002') {
         return res.status(409).json({ error: 'Email already registered' });
@@ -71,62 +142,249 @@ router.post(
 router.post(
   '/login',
   validateAndSanitize,
-  asyncHandler(async (req: Request, res: Response) => {
+  validateRequest(loginRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof loginRoute>, res: Response) => {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({
-        error: 'Email and password required',
-      });
+    try {
+      const result = await authenticateUser(email, password);
+
+      if ('twoFactorRequired' in result) {
+        return res.json(result);
+      }
+
+      await sendAuthResponse(req, res, result);
+    } catch (error: any) {
+      if (error.statusCode === 403) {
+        return res.status(403).json({ error: error.message });
+      }
+      return res.status(401).json({ error: 'Invalid email or password' });
     }
+  })
+);
 
+// Google sign-in - Verify ID token and link or create user
+router.post(
+  '/google',
+  validateRequest(googleLoginRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof googleLoginRoute>, res: Response) => {
+    const { credential } = req.body;
+
+    let payload;
     try {
-      const user = await authenticateUser(email, password);
-      const tokens = generateTokens({ userId: user.id, email: user.email });
-
-      // Set secure HTTP-only cookie for refresh token
-      res.cookie('refreshToken', tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      payload = await verifyGoogleIdToken(credential);
+    } catch (error: any) {
+      return res.status(401).json({ error: 'Invalid Google credential' });
+    }
 
-      res.json({
-        accessToken: tokens.accessToken,
-        expiresIn: tokens.expiresIn,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
-      });
+    const user = await findOrCreateGoogleUser(payload);
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    // Google accounts with 2FA enabled still go through the second step
+    if (user.totpEnabledAt) {
+      return res.json(createTwoFactorChallenge(user.id));
+    }
+
+    await sendAuthResponse(req, res, { ...user, emailVerified: !!user.emailVerifiedAt });
+  })
+);
+
+// Login second step - Verify a TOTP or recovery code against a challenge token
+router.post(
+  '/login/2fa',
+  validateAndSanitize,
+  validateRequest(twoFactorLoginRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof twoFactorLoginRoute>, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ error: 'Code or recovery code required' });
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+      return res.status(401).json({ error: 'Invalid or expired challenge' });
+    }
+
+    let verified: boolean;
+    try {
+      verified = await verifySecondFactor(userId, { code, recoveryCode });
     } catch (error: any) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+      if (error.statusCode !== 429) throw error;
+      res.set('Retry-After', String(error.retryAfterSeconds));
+      return res.status(429).json({ error: error.message });
+    }
+
+    if (!verified) {
+      return res.status(401).json({ error: 'Invalid verification code' });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { lastActiveAt: new Date() },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        permissionRole: true,
+        emailVerifiedAt: true,
+        disabledAt: true,
+      },
+    });
+
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
     }
+
+    await sendAuthResponse(req, res, { ...user, emailVerified: !!user.emailVerifiedAt });
   })
 );
 
-// Refresh access token
+// Refresh access token - rotates the refresh token on every call
 router.post(
   '/refresh',
+  validateRequest(refreshTokenRoute),
   asyncHandler(async (req: Request, res: Response) => {
-    const refreshToken = req.cookies.refreshToken || req.body.refreshToken;
+    const refreshToken = getRefreshToken(req);
 
     if (!refreshToken) {
       return res.status(401).json({ error: 'Refresh token required' });
     }
 
-    const accessToken = refreshAccessToken(refreshToken);
-    if (!accessToken) {
+    const tokens = await refreshAccessToken(refreshToken, getDeviceInfo(req));
+    if (!tokens) {
+      clearRefreshCookie(res);
       return res.status(401).json({ error: 'Invalid or expired refresh token' });
     }
 
+    setRefreshCookie(res, tokens.refreshToken);
+
     res.json({
-      accessToken,
-      expiresIn: 900, // 15 minutes
+      accessToken: tokens.accessToken,
+      expiresIn: tokens.expiresIn,
+    });
+  })
+);
+
+// Start 2FA enrollment - returns the secret and otpauth:// provisioning URI
+router.post(
+  '/2fa/setup',
+  verifyAuthToken,
+  validateRequest(setupTwoFactorRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    try {
+      const enrollment = await beginTwoFactorEnrollment(req.user!.id);
+      res.json(enrollment);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Two-factor setup failed' });
+    }
+  })
+);
+
+// Confirm 2FA enrollment - returns one-time recovery codes
+router.post(
+  '/2fa/confirm',
+  verifyAuthToken,
+  validateAndSanitize,
+  validateRequest(confirmTwoFactorRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof confirmTwoFactorRoute>, res: Response) => {
+    const { code } = req.body;
+
+    try {
+      const recoveryCodes = await confirmTwoFactorEnrollment(req.user!.id, code);
+      res.json({ enabled: true, recoveryCodes });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Two-factor confirmation failed' });
+    }
+  })
+);
+
+// Disable 2FA - requires password and a current code or recovery code
+router.post(
+  '/2fa/disable',
+  verifyAuthToken,
+  validateAndSanitize,
+  validateRequest(disableTwoFactorRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof disableTwoFactorRoute>, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+
+    try {
+      await disableTwoFactor(req.user!.id, password, { code, recoveryCode });
+      res.json({ enabled: false });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Could not disable two-factor authentication' });
+    }
+  })
+);
+
+// Forgot password - email a reset link
+router.post(
+  '/forgot-password',
+  validateAndSanitize,
+  validateRequest(forgotPasswordRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof forgotPasswordRoute>, res: Response) => {
+    const { email } = req.body;
+
+    // Send in the background and respond straight away, so neither the response
+    // nor how long it takes can be used to probe which accounts exist
+    requestPasswordReset(email).catch(error => {
+      console.error('Failed to send password reset email:', error);
     });
+
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  })
+);
+
+// Reset password with a single-use token
+router.post(
+  '/reset-password',
+  validateAndSanitize,
+  validateRequest(resetPasswordRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof resetPasswordRoute>, res: Response) => {
+    const { token, password } = req.body;
+
+    try {
+      await resetPassword(token, password);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Password reset failed' });
+    }
+
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Password updated. Please sign in again.' });
+  })
+);
+
+// Verify email address with a single-use token
+router.post(
+  '/verify-email',
+  validateAndSanitize,
+  validateRequest(verifyEmailRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof verifyEmailRoute>, res: Response) => {
+    const { token } = req.body;
+
+    try {
+      await verifyEmail(token);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Email verification failed' });
+    }
+
+    res.json({ message: 'Email verified' });
+  })
+);
+
+// Resend the verification email
+router.post(
+  '/verify-email/resend',
+  verifyAuthToken,
+  validateRequest(resendVerificationRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await sendVerificationEmail(req.user!.id);
+
+    res.json({ message: 'Verification email sent' });
   })
 );
 
@@ -134,6 +392,7 @@ router.post(
 router.get(
   '/verify',
   verifyAuthToken,
+  validateRequest(verifyTokenRoute),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Invalid token' });
@@ -146,19 +405,59 @@ router.get(
   })
 );
 
-// Logout
+// Logout - revokes this device's refresh token
 router.post(
   '/logout',
+  validateRequest(logoutRoute),
   asyncHandler(async (req: Request, res: Response) => {
-    // Clear refresh token cookie
-    res.clearCookie('refreshToken', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-    });
+    const refreshToken = getRefreshToken(req);
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken);
+    }
+
+    clearRefreshCookie(res);
 
     res.json({ message: 'Logged out successfully' });
   })
 );
 
+// List signed-in devices
+router.get(
+  '/sessions',
+  verifyAuthToken,
+  validateRequest(listDeviceSessionsRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const sessions = await listDeviceSessions(req.user!.id, getRefreshToken(req));
+
+    res.json({ sessions });
+  })
+);
+
+// Sign out every other device
+router.delete(
+  '/sessions',
+  verifyAuthToken,
+  validateRequest(revokeOtherDeviceSessionsRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const revoked = await revokeOtherDeviceSessions(req.user!.id, getRefreshToken(req));
+
+    res.json({ revoked });
+  })
+);
+
+// Sign out a single device
+router.delete(
+  '/sessions/:id',
+  verifyAuthToken,
+  validateRequest(revokeDeviceSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof revokeDeviceSessionRoute>, res: Response) => {
+    const revoked = await revokeDeviceSession(req.user!.id, req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked' });
+  })
+);
+
 export default router;
@@ -0,0 +1,200 @@
+import { Router, Response } from 'express';
+import { validateAndSanitize, validateRequest, ValidatedRequest } from '../middleware/validation';
+import { checkQuota } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, AuthRequest } from '../middleware/authMiddleware';
+import {
+  searchJobs,
+  analyzeAccent,
+  analyzeVideoSession,
+  culturalTranslate,
+  gapAnalysis,
+  analyzePresentation,
+  generateListeningScenario,
+  generateSpeech,
+  analyzeATS,
+  optimizeResume,
+  generateBio,
+  CapabilityOptions,
+} from '../services/capabilities';
+import {
+  jobSearchRoute,
+  accentAnalysisRoute,
+  videoAnalysisRoute,
+  culturalTranslateRoute,
+  gapAnalysisRoute,
+  atsAnalysisRoute,
+  optimizeResumeRoute,
+  presentationAnalysisRoute,
+  bioRoute,
+  listeningScenarioRoute,
+  speechRoute,
+} from '../schemas/capabilities';
+
+const router: ReturnType<typeof Router> = Router();
+
+// Identical requests are answered from the response cache; send Cache-Control: no-cache to regenerate
+const cacheOptions = (req: Pick<AuthRequest, 'get'>): CapabilityOptions => {
+  return { bypassCache: /no-cache/i.test(req.get('Cache-Control') || '') };
+};
+
+// Find remote-friendly job listings with live search results
+router.post(
+  '/jobs/search',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateAndSanitize,
+  validateRequest(jobSearchRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof jobSearchRoute>, res: Response) => {
+    const { query, userRole } = req.body;
+
+    const jobs = await searchJobs(req.user!.id, query, userRole, cacheOptions(req));
+    res.json({ jobs });
+  })
+);
+
+// Score a recording of a reference phrase
+router.post(
+  '/accent/analyze',
+  verifyAuthToken,
+  checkQuota('accent'),
+  validateRequest(accentAnalysisRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof accentAnalysisRoute>, res: Response) => {
+    const { audio, mimeType, referenceText } = req.body;
+
+    const analysis = await analyzeAccent(req.user!.id, { mimeType, data: audio }, referenceText);
+    res.json(analysis);
+  })
+);
+
+// Analyze body language across JPEG frames from a video answer
+router.post(
+  '/video/analyze',
+  verifyAuthToken,
+  checkQuota('video', 'video_analyses'),
+  validateRequest(videoAnalysisRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof videoAnalysisRoute>, res: Response) => {
+    const { frames, transcript, question } = req.body;
+
+    const analysis = await analyzeVideoSession(req.user!.id, frames, transcript, question);
+    res.json(analysis);
+  })
+);
+
+// Explain how a phrase is received in US corporate culture
+router.post(
+  '/cultural-translate',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateAndSanitize,
+  validateRequest(culturalTranslateRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof culturalTranslateRoute>, res: Response) => {
+    const { phrase } = req.body;
+
+    const translation = await culturalTranslate(req.user!.id, phrase, cacheOptions(req));
+    res.json(translation);
+  })
+);
+
+// Compare a resume with a job description
+router.post(
+  '/resume/gap-analysis',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateRequest(gapAnalysisRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof gapAnalysisRoute>, res: Response) => {
+    const { resumeText, jobDescription } = req.body;
+
+    const analysis = await gapAnalysis(req.user!.id, resumeText, jobDescription, cacheOptions(req));
+    res.json(analysis);
+  })
+);
+
+// Check a resume against an applicant tracking system
+router.post(
+  '/resume/ats',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateRequest(atsAnalysisRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof atsAnalysisRoute>, res: Response) => {
+    const { resumeText, jobDescription } = req.body;
+
+    const analysis = await analyzeATS(req.user!.id, resumeText, jobDescription, cacheOptions(req));
+    res.json(analysis);
+  })
+);
+
+// Rewrite a resume for a job, strictly or creatively
+router.post(
+  '/resume/optimize',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateRequest(optimizeResumeRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof optimizeResumeRoute>, res: Response) => {
+    const { resumeText, jobDescription, intensity } = req.body;
+
+    const resume = await optimizeResume(req.user!.id, resumeText, jobDescription, intensity, cacheOptions(req));
+    res.json(resume);
+  })
+);
+
+// Summarize a presentation and prepare for audience questions
+router.post(
+  '/presentation/analyze',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateRequest(presentationAnalysisRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof presentationAnalysisRoute>, res: Response) => {
+    const { text } = req.body;
+
+    const analysis = await analyzePresentation(req.user!.id, text, cacheOptions(req));
+    res.json(analysis);
+  })
+);
+
+// Write a professional bio
+router.post(
+  '/bio',
+  verifyAuthToken,
+  checkQuota('writing'),
+  validateAndSanitize,
+  validateRequest(bioRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof bioRoute>, res: Response) => {
+    const { context, platform } = req.body;
+
+    const bio = await generateBio(req.user!.id, context, platform, cacheOptions(req));
+    res.json({ bio });
+  })
+);
+
+// Create a listening exercise
+router.post(
+  '/listening/scenario',
+  verifyAuthToken,
+  checkQuota('listening'),
+  validateAndSanitize,
+  validateRequest(listeningScenarioRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listeningScenarioRoute>, res: Response) => {
+    const { topic, difficulty } = req.body;
+
+    const scenario = await generateListeningScenario(req.user!.id, topic, difficulty, cacheOptions(req));
+    res.json(scenario);
+  })
+);
+
+// Read text aloud - returns base64 16-bit PCM at 24 kHz
+router.post(
+  '/speech',
+  verifyAuthToken,
+  checkQuota('listening', 'tts_characters'),
+  validateAndSanitize,
+  validateRequest(speechRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof speechRoute>, res: Response) => {
+    const { text, voiceName } = req.body;
+
+    const audio = await generateSpeech(req.user!.id, text, voiceName, cacheOptions(req));
+    res.json({ audio, mimeType: 'audio/pcm;rate=24000' });
+  })
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument, OpenApiDocument } from '../services/openapi';
+import { API_ROUTERS } from './index';
+
+const router: ReturnType<typeof Router> = Router();
+
+// Routes are all registered at startup, so the document only needs building once
+let document: OpenApiDocument | undefined;
+const getDocument = () => (document ??= buildOpenApiDocument(API_ROUTERS));
+
+const SWAGGER_UI_VERSION = '5.17.14';
+
+const viewerHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Cara API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js" crossorigin></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });
+  </script>
+</body>
+</html>`;
+
+// Interactive API viewer
+router.get('/', (req: Request, res: Response) => {
+  // Relative links in the viewer resolve against /api/docs/
+  if (!req.originalUrl.split('?')[0].endsWith('/')) {
+    return res.redirect(301, req.baseUrl + '/');
+  }
+  res.type('html').send(viewerHtml);
+});
+
+// OpenAPI 3 document for every API route
+router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(getDocument());
+});
+
+export default router;
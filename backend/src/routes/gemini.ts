@@ -1,40 +1,28 @@
-import { Router, Request, Response } from 'express';
-import { validateAndSanitize, validatePromptMiddleware } from '../middleware/validation';
-import { callGemini, generateStructuredFeedback } from '../services/gemini';
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { validateAndSanitize, validatePromptMiddleware, validateRequest, ValidatedRequest } from '../middleware/validation';
+import { callGemini, streamGemini, generateStructuredFeedback } from '../services/gemini';
+import { StructuredFeedback } from '../services/feedbackSchema';
+import { estimateCost } from '../services/pricing';
 import { checkQuota } from '../middleware/rateLimiter';
+import { getQuotaStatus, ALL_FEATURES } from '../services/plans';
 import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, AuthRequest } from '../middleware/authMiddleware';
 import { prisma } from '../db';
+import { getSessionState, updateSessionResults } from '../services/sessions';
+import { processPromptRoute, streamPromptRoute, generateFeedbackRoute, getQuotaRoute } from '../schemas/gemini';
 
 const router: ReturnType<typeof Router> = Router();
 
-interface AuthRequest extends Request {
-  user?: { id: string; email: string };
-  remainingQuota?: number;
-}
-
-// Middleware to verify authentication
-const requireAuth = (req: AuthRequest, res: Response, next: Function) => {
-  const authHeader = req.headers.authorization;
-  const token = authHeader?.split(' ')[1];
-
-  if (!token) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-
-  // Token verification would happen here
-  // For now, assume authenticated
-  req.user = { id: 'user-id', email: 'user@example.com' };
-  next();
-};
-
 // Process user prompt with Gemini
 router.post(
   '/process',
-  requireAuth,
-  checkQuota,
+  verifyAuthToken,
+  checkQuota(req => req.body?.featureType),
   validateAndSanitize,
+  validateRequest(processPromptRoute),
   validatePromptMiddleware,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  asyncHandler(async (req: ValidatedRequest<typeof processPromptRoute>, res: Response) => {
     const { prompt, featureType, conversationHistory } = req.body;
     const userId = req.user!.id;
 
@@ -53,12 +41,71 @@ router.post(
   })
 );
 
+// Stream a reply to a prompt as Server-Sent Events:
+// `delta` events carry text, a final `done` event carries token usage
+router.post(
+  '/process/stream',
+  verifyAuthToken,
+  checkQuota(req => req.body?.featureType),
+  validateAndSanitize,
+  validateRequest(streamPromptRoute),
+  validatePromptMiddleware,
+  asyncHandler(async (req: ValidatedRequest<typeof streamPromptRoute>, res: Response) => {
+    const { prompt, featureType, conversationHistory } = req.body;
+    const userId = req.user!.id;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+    });
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Stop generating as soon as the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const response = await streamGemini(
+        { userId, prompt, featureType, conversationHistory },
+        text => sendEvent('delta', { text }),
+        controller.signal
+      );
+
+      if (!controller.signal.aborted) {
+        sendEvent('done', {
+          tokensUsed: response.tokensUsed,
+          remainingQuota: req.remainingQuota! - response.tokensUsed,
+          model: response.model,
+        });
+      }
+    } catch (error: any) {
+      sendEvent('error', {
+        error: error.message || 'Failed to process request',
+        ...(error.code && { code: error.code }),
+        ...(error.retryAfterSeconds && { retryAfterSeconds: error.retryAfterSeconds }),
+      });
+    }
+
+    res.end();
+  })
+);
+
 // Generate session feedback
 router.post(
   '/generate-feedback',
-  requireAuth,
+  verifyAuthToken,
+  checkQuota(),
   validateAndSanitize,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  validateRequest(generateFeedbackRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof generateFeedbackRoute>, res: Response) => {
     const { sessionId } = req.body;
     const userId = req.user!.id;
 
@@ -71,52 +118,127 @@ router.post(
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    // Results of ended sessions are frozen, so don't spend quota on feedback that can't be saved
+    const state = getSessionState(session);
+    if (state !== 'active') {
+      return res.status(409).json({ error: `Session has already been ${state}` });
+    }
+
     // Generate structured feedback
-    const feedback = await generateStructuredFeedback({
-      transcript: session.transcript,
-      responses: session.userResponses,
-    });
+    let feedback: StructuredFeedback;
+    try {
+      feedback = await generateStructuredFeedback(session);
+    } catch (error: any) {
+      return res.status(error.statusCode || 502).json({
+        error: error.message || 'Failed to generate feedback',
+        ...(error.code && { code: error.code }),
+      });
+    }
 
-    // Save feedback
-    const savedFeedback = await prisma.feedback.create({
-      data: {
-        sessionId,
-        score: new Decimal(feedback.overview.score),
-        communication: feedback.breakdown.communication,
-        content: feedback.breakdown.content,
-        highlights: JSON.stringify(feedback.highlights),
-        actionItems: JSON.stringify(feedback.actionItems),
-      },
+    const { communication, content } = feedback.breakdown;
+    const data = {
+      score: new Decimal(feedback.overview.score),
+      scoreChange: feedback.overview.scoreChange === null ? null : new Decimal(feedback.overview.scoreChange),
+      communication: communication as unknown as Prisma.InputJsonObject,
+      content: content as unknown as Prisma.InputJsonObject,
+      highlights: JSON.stringify(feedback.highlights),
+      actionItems: JSON.stringify(feedback.actionItems),
+    };
+
+    // Save the results through the session lifecycle, which refuses them if the
+    // session ended while feedback was being generated
+    try {
+      await updateSessionResults(sessionId, userId, {
+        score: data.score,
+        clarity: communication.clarity.score,
+        pace: communication.pace.score,
+        tone: communication.tone.score,
+        confidence: communication.confidence.score,
+        feedbackJson: feedback as unknown as Prisma.InputJsonObject,
+      });
+    } catch (error: any) {
+      if (!error.statusCode) throw error;
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    // Regenerating replaces the previous result
+    const savedFeedback = await prisma.feedback.upsert({
+      where: { sessionId },
+      create: { sessionId, ...data },
+      update: data,
     });
 
     res.json(savedFeedback);
   })
 );
 
-// Get quota status
+// Get today's usage and every plan limit with what is left of it
 router.get(
   '/quota',
-  requireAuth,
+  verifyAuthToken,
+  validateRequest(getQuotaRoute),
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const usage = await prisma.quotaUsage.aggregate({
-      where: {
-        userId,
-        createdAt: { gte: today },
-      },
-      _sum: { tokensUsed: true },
+    const [usageByModel, cacheHits, status] = await Promise.all([
+      prisma.quotaUsage.groupBy({
+        by: ['model'],
+        where: {
+          userId,
+          createdAt: { gte: today },
+        },
+        _sum: { tokensUsed: true, inputTokens: true, outputTokens: true, mediaTokens: true },
+      }),
+      prisma.quotaUsage.aggregate({
+        where: {
+          userId,
+          cacheHit: true,
+          createdAt: { gte: today },
+        },
+        _count: true,
+        _sum: { tokensSaved: true },
+      }),
+      getQuotaStatus(userId),
+    ]);
+
+    const byModel = usageByModel.map(({ model, _sum }) => {
+      const usage = {
+        inputTokens: _sum.inputTokens || 0,
+        outputTokens: _sum.outputTokens || 0,
+        mediaTokens: _sum.mediaTokens || 0,
+      };
+      return {
+        model,
+        tokensUsed: _sum.tokensUsed || 0,
+        ...usage,
+        estimatedCostUsd: estimateCost(model, usage),
+      };
     });
 
-    const tokensUsed = usage._sum.tokensUsed || 0;
-    const DAILY_QUOTA = 50000;
+    const total = (key: 'tokensUsed' | 'inputTokens' | 'outputTokens' | 'mediaTokens') =>
+      byModel.reduce((sum, row) => sum + row[key], 0);
+
+    // The overall daily token limit, kept as quota/remaining for older clients
+    const dailyTokens = status.limits.find(limit =>
+      limit.featureType === ALL_FEATURES && limit.metric === 'tokens' && limit.period === 'daily'
+    );
 
     res.json({
-      tokensUsed,
-      quota: DAILY_QUOTA,
-      remaining: DAILY_QUOTA - tokensUsed,
+      tokensUsed: total('tokensUsed'),
+      inputTokens: total('inputTokens'),
+      outputTokens: total('outputTokens'),
+      mediaTokens: total('mediaTokens'),
+      // Rows for unpriced models (or from before usage was split) count as zero
+      estimatedCostUsd: byModel.reduce((sum, row) => sum + (row.estimatedCostUsd || 0), 0),
+      byModel,
+      // Replies served from the response cache, which cost nothing
+      cache: { hits: cacheHits._count, tokensSaved: cacheHits._sum.tokensSaved || 0 },
+      plan: status.plan,
+      limits: status.limits,
+      quota: dailyTokens?.limit ?? null,
+      remaining: dailyTokens?.remaining ?? null,
       resetAt: new Date(today.getTime() + 24 * 60 * 60 * 1000),
     });
   })
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import authRoutes from './auth';
+import geminiRoutes from './gemini';
+import capabilityRoutes from './capabilities';
+import sessionsRoutes from './sessions';
+import analyticsRoutes from './analytics';
+import accountRoutes from './account';
+import adminRoutes from './admin';
+import organizationRoutes from './organizations';
+import assignmentRoutes from './assignments';
+
+export interface ApiRouter {
+  path: string;
+  tag: string; // Groups the router's operations in the API docs
+  router: ReturnType<typeof Router>;
+}
+
+// Every API router and where it is mounted; the OpenAPI document is built from the same list
+export const API_ROUTERS: ApiRouter[] = [
+  { path: '/api/auth', tag: 'Auth', router: authRoutes },
+  { path: '/api/gemini', tag: 'Gemini', router: geminiRoutes },
+  { path: '/api/gemini', tag: 'Capabilities', router: capabilityRoutes },
+  { path: '/api/sessions', tag: 'Sessions', router: sessionsRoutes },
+  { path: '/api/analytics', tag: 'Analytics', router: analyticsRoutes },
+  { path: '/api/account', tag: 'Account', router: accountRoutes },
+  { path: '/api/admin', tag: 'Admin', router: adminRoutes },
+  { path: '/api/organizations', tag: 'Organizations', router: organizationRoutes },
+  { path: '/api/assignments', tag: 'Assignments', router: assignmentRoutes },
+];
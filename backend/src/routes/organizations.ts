@@ -0,0 +1,429 @@
+import { Router, Response, NextFunction } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { verifyAuthToken, requireRole, AuthRequest } from '../middleware/authMiddleware';
+import { validateAndSanitize, validateRequest, ValidatedRequest } from '../middleware/validation';
+import {
+  createOrganization,
+  getMembership,
+  assertCohortInOrganization,
+  createInvitation,
+  acceptInvitation,
+  getOrganizationAnalytics,
+  getMemberProgress,
+  OrgRole,
+} from '../services/organizations';
+import {
+  listOrganizationsRoute,
+  createOrganizationRoute,
+  acceptInvitationRoute,
+  getOrganizationRoute,
+  updateOrganizationRoute,
+  listCohortsRoute,
+  createCohortRoute,
+  listInvitationsRoute,
+  createInvitationRoute,
+  revokeInvitationRoute,
+  listMembersRoute,
+  updateMemberRoute,
+  removeMemberRoute,
+  getMemberProgressRoute,
+  updateMembershipRoute,
+  getOrganizationAnalyticsRoute,
+} from '../schemas/organizations';
+import { prisma } from '../db';
+
+const router: ReturnType<typeof Router> = Router();
+
+router.use(verifyAuthToken);
+
+/**
+ * Restrict a route to members of :orgId holding one of the given org roles
+ * (any member when none are given). Platform admins always pass.
+ */
+const requireOrgRole = (...orgRoles: OrgRole[]) => {
+  return asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.user!.permissionRole === 'admin') {
+      return next();
+    }
+
+    const membership = await getMembership(req.params.orgId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    if (orgRoles.length > 0 && !orgRoles.includes(membership.orgRole as OrgRole)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+
+    next();
+  });
+};
+
+// List organizations the current user belongs to
+router.get(
+  '/',
+  validateRequest(listOrganizationsRoute),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId: req.user!.id },
+      include: {
+        organization: { select: { id: true, name: true } },
+        cohort: { select: { id: true, name: true } },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    res.json(memberships.map(membership => ({
+      ...membership.organization,
+      cohort: membership.cohort,
+      orgRole: membership.orgRole,
+      shareTranscripts: membership.shareTranscripts,
+      joinedAt: membership.joinedAt,
+    })));
+  })
+);
+
+// Create an organization (platform admins only)
+router.post(
+  '/',
+  requireRole('admin'),
+  validateAndSanitize,
+  validateRequest(createOrganizationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof createOrganizationRoute>, res: Response) => {
+    const { name, seatLimit, adminUserId } = req.body;
+
+    if (adminUserId) {
+      const admin = await prisma.user.findUnique({ where: { id: adminUserId }, select: { id: true } });
+      if (!admin) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+    }
+
+    const organization = await createOrganization(name, seatLimit, adminUserId);
+    res.status(201).json(organization);
+  })
+);
+
+// Accept an invitation link
+router.post(
+  '/invitations/accept',
+  validateRequest(acceptInvitationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof acceptInvitationRoute>, res: Response) => {
+    const { token } = req.body;
+
+    try {
+      const result = await acceptInvitation(token, req.user!);
+      res.status(201).json(result);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message || 'Could not accept invitation' });
+    }
+  })
+);
+
+// Get organization details and seat usage
+router.get(
+  '/:orgId',
+  requireOrgRole(),
+  validateRequest(getOrganizationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getOrganizationRoute>, res: Response) => {
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.params.orgId },
+      include: {
+        cohorts: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { members: true } },
+      },
+    });
+
+    if (!organization) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    const { _count, ...rest } = organization;
+    res.json({ ...rest, seatsUsed: _count.members });
+  })
+);
+
+// Rename or resize an organization (platform admins only)
+router.patch(
+  '/:orgId',
+  requireRole('admin'),
+  validateAndSanitize,
+  validateRequest(updateOrganizationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof updateOrganizationRoute>, res: Response) => {
+    const { orgId } = req.params;
+    const { name, seatLimit } = req.body;
+
+    const existing = await prisma.organization.findUnique({
+      where: { id: orgId },
+      include: { _count: { select: { members: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    if (seatLimit !== undefined && seatLimit < existing._count.members) {
+      return res.status(409).json({
+        error: `seatLimit cannot be below the ${existing._count.members} seats in use`,
+      });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: orgId },
+      data: {
+        ...(name && { name }),
+        ...(seatLimit !== undefined && { seatLimit }),
+      },
+    });
+
+    res.json(organization);
+  })
+);
+
+// List cohorts
+router.get(
+  '/:orgId/cohorts',
+  requireOrgRole(),
+  validateRequest(listCohortsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listCohortsRoute>, res: Response) => {
+    const cohorts = await prisma.cohort.findMany({
+      where: { organizationId: req.params.orgId },
+      include: { _count: { select: { members: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(cohorts);
+  })
+);
+
+// Create a cohort
+router.post(
+  '/:orgId/cohorts',
+  requireOrgRole('org_admin'),
+  validateAndSanitize,
+  validateRequest(createCohortRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof createCohortRoute>, res: Response) => {
+    const { name, startsAt, endsAt } = req.body;
+
+    const cohort = await prisma.cohort.create({
+      data: {
+        organizationId: req.params.orgId,
+        name,
+        startsAt: startsAt ?? null,
+        endsAt: endsAt ?? null,
+      },
+    });
+
+    res.status(201).json(cohort);
+  })
+);
+
+// List active invitations
+router.get(
+  '/:orgId/invitations',
+  requireOrgRole('org_admin'),
+  validateRequest(listInvitationsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listInvitationsRoute>, res: Response) => {
+    const invitations = await prisma.invitation.findMany({
+      where: {
+        organizationId: req.params.orgId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        cohortId: true,
+        email: true,
+        orgRole: true,
+        maxUses: true,
+        useCount: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(invitations);
+  })
+);
+
+// Create an invitation link
+router.post(
+  '/:orgId/invitations',
+  requireOrgRole('org_admin'),
+  validateAndSanitize,
+  validateRequest(createInvitationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof createInvitationRoute>, res: Response) => {
+    const { cohortId, email, orgRole, maxUses, expiresInDays } = req.body;
+
+    try {
+      const invitation = await createInvitation(req.params.orgId, req.user!.id, {
+        cohortId,
+        email,
+        orgRole,
+        maxUses,
+        expiresInDays,
+      });
+      res.status(201).json(invitation);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message || 'Could not create invitation' });
+    }
+  })
+);
+
+// Revoke an invitation link
+router.delete(
+  '/:orgId/invitations/:invitationId',
+  requireOrgRole('org_admin'),
+  validateRequest(revokeInvitationRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof revokeInvitationRoute>, res: Response) => {
+    const { count } = await prisma.invitation.updateMany({
+      where: {
+        id: req.params.invitationId,
+        organizationId: req.params.orgId,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    res.json({ message: 'Invitation revoked' });
+  })
+);
+
+// List members
+router.get(
+  '/:orgId/members',
+  requireOrgRole('org_admin'),
+  validateRequest(listMembersRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listMembersRoute>, res: Response) => {
+    const { cohortId } = req.query;
+
+    const members = await prisma.organizationMember.findMany({
+      where: {
+        organizationId: req.params.orgId,
+        ...(cohortId && { cohortId }),
+      },
+      include: {
+        user: { select: { id: true, name: true, email: true, level: true, lastActiveAt: true } },
+        cohort: { select: { id: true, name: true } },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    res.json(members);
+  })
+);
+
+// Change a member's cohort or org role
+router.patch(
+  '/:orgId/members/:userId',
+  requireOrgRole('org_admin'),
+  validateRequest(updateMemberRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof updateMemberRoute>, res: Response) => {
+    const { orgId, userId } = req.params;
+    const { cohortId, orgRole } = req.body;
+
+    if (cohortId) {
+      try {
+        await assertCohortInOrganization(orgId, cohortId);
+      } catch (error: any) {
+        return res.status(error.statusCode || 400).json({ error: error.message });
+      }
+    }
+
+    const membership = await getMembership(orgId, userId);
+    if (!membership) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: membership.id },
+      data: {
+        ...(cohortId !== undefined && { cohortId: cohortId || null }),
+        ...(orgRole !== undefined && { orgRole }),
+      },
+    });
+
+    res.json(updated);
+  })
+);
+
+// Remove a member - org admins can remove anyone, members can leave
+router.delete(
+  '/:orgId/members/:userId',
+  requireOrgRole(),
+  validateRequest(removeMemberRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof removeMemberRoute>, res: Response) => {
+    const { orgId, userId } = req.params;
+
+    if (userId !== req.user!.id && req.user!.permissionRole !== 'admin') {
+      const own = await getMembership(orgId, req.user!.id);
+      if (own?.orgRole !== 'org_admin') {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+    }
+
+    const { count } = await prisma.organizationMember.deleteMany({
+      where: { organizationId: orgId, userId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    res.json({ message: 'Member removed' });
+  })
+);
+
+// Get a member's progress - transcripts only if the learner opted in
+router.get(
+  '/:orgId/members/:userId/progress',
+  requireOrgRole('org_admin'),
+  validateRequest(getMemberProgressRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getMemberProgressRoute>, res: Response) => {
+    try {
+      const progress = await getMemberProgress(req.params.orgId, req.params.userId);
+      res.json(progress);
+    } catch (error: any) {
+      res.status(error.statusCode || 400).json({ error: error.message });
+    }
+  })
+);
+
+// Opt in or out of sharing transcripts with org admins
+router.patch(
+  '/:orgId/membership',
+  requireOrgRole(),
+  validateRequest(updateMembershipRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof updateMembershipRoute>, res: Response) => {
+    const { shareTranscripts } = req.body;
+
+    const { count } = await prisma.organizationMember.updateMany({
+      where: { organizationId: req.params.orgId, userId: req.user!.id },
+      data: { shareTranscripts },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Membership not found' });
+    }
+
+    res.json({ shareTranscripts });
+  })
+);
+
+// Average score, clarity and pace per cohort and feature
+router.get(
+  '/:orgId/analytics',
+  requireOrgRole('org_admin'),
+  validateRequest(getOrganizationAnalyticsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getOrganizationAnalyticsRoute>, res: Response) => {
+    const cohorts = await getOrganizationAnalytics(req.params.orgId, req.query);
+
+    res.json({ cohorts });
+  })
+);
+
+export default router;
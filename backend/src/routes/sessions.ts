@@ -1,30 +1,44 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
 import { prisma } from '../db';
+import { verifyAuthToken } from '../middleware/authMiddleware';
+import { validateRequest, ValidatedRequest, ValidatedResponse } from '../middleware/validation';
+import { featureSystemPrompt, getActiveVersion } from '../services/prompts';
+import {
+  updateSessionResults,
+  recordHeartbeat,
+  completeSession,
+  abandonSession,
+  sessionSearchWhere,
+  sessionSearchOrderBy,
+  transcriptSnippet,
+  HEARTBEAT_INTERVAL_SECONDS,
+} from '../services/sessions';
+import {
+  createSessionRoute,
+  updateSessionRoute,
+  listSessionsRoute,
+  getSessionRoute,
+  heartbeatSessionRoute,
+  completeSessionRoute,
+  abandonSessionRoute,
+} from '../schemas/sessions';
 
 const router: ReturnType<typeof Router> = Router();
 
-interface AuthRequest extends Request {
-  user?: { id: string; email: string };
-}
-
-const requireAuth = (req: AuthRequest, res: Response, next: Function) => {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.split(' ')[1]) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  req.user = { id: 'user-id', email: 'user@example.com' };
-  next();
-};
-
 // Create session
 router.post(
   '/',
-  requireAuth,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  verifyAuthToken,
+  validateRequest(createSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof createSessionRoute>, res: ValidatedResponse<typeof createSessionRoute>) => {
     const { featureType, title, description } = req.body;
     const userId = req.user!.id;
 
+    // Stamp the version of the feature's prompt the session will run on
+    const template = featureSystemPrompt(featureType);
+
     const session = await prisma.session.create({
       data: {
         userId,
@@ -32,75 +46,126 @@ router.post(
         title,
         description,
         durationSeconds: 0,
+        ...(template && {
+          promptTemplateId: template.id,
+          promptVersion: await getActiveVersion(template),
+        }),
       },
     });
 
-    res.status(201).json(session);
+    // Duration is measured from heartbeats sent while the session is open
+    res.status(201).json({ ...session, heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS });
   })
 );
 
-// Update session
+// Update session - only while it is active
 router.patch(
   '/:id',
-  requireAuth,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    const userId = req.user!.id;
-    const { durationSeconds, score, transcript, feedbackJson, clarity, pace, confidence, tone } = req.body;
+  verifyAuthToken,
+  validateRequest(updateSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof updateSessionRoute>, res: ValidatedResponse<typeof updateSessionRoute>) => {
+    const { score, transcript, feedbackJson, clarity, pace, confidence, tone } = req.body;
+
+    try {
+      const updated = await updateSessionResults(req.params.id, req.user!.id, {
+        ...(score !== undefined && { score }),
+        ...(transcript !== undefined && { transcript }),
+        ...(feedbackJson && { feedbackJson: feedbackJson as Prisma.InputJsonObject }),
+        ...(clarity !== undefined && { clarity }),
+        ...(pace !== undefined && { pace }),
+        ...(confidence !== undefined && { confidence }),
+        ...(tone !== undefined && { tone }),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      if (!error.statusCode) throw error;
+      res.status(error.statusCode).json({ error: error.message });
+    }
+  })
+);
 
-    const session = await prisma.session.findUnique({ where: { id } });
-    if (!session || session.userId !== userId) {
-      return res.status(404).json({ error: 'Session not found' });
+// Heartbeat - counts the time since the last one towards the session
+router.post(
+  '/:id/heartbeat',
+  verifyAuthToken,
+  validateRequest(heartbeatSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof heartbeatSessionRoute>, res: ValidatedResponse<typeof heartbeatSessionRoute>) => {
+    try {
+      const session = await recordHeartbeat(req.params.id, req.user!.id);
+      res.json({
+        id: session.id,
+        durationSeconds: session.durationSeconds,
+        heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
+      });
+    } catch (error: any) {
+      if (!error.statusCode) throw error;
+      res.status(error.statusCode).json({ error: error.message });
     }
+  })
+);
 
-    const updated = await prisma.session.update({
-      where: { id },
-      data: {
-        durationSeconds: durationSeconds ?? session.durationSeconds,
-        score: score ?? session.score,
-        transcript: transcript ?? session.transcript,
-        feedbackJson: feedbackJson ?? session.feedbackJson,
-        clarity: clarity ?? session.clarity,
-        pace: pace ?? session.pace,
-        confidence: confidence ?? session.confidence,
-        tone: tone ?? session.tone,
-      },
-    });
+// Complete a session and award XP for it
+router.post(
+  '/:id/complete',
+  verifyAuthToken,
+  validateRequest(completeSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof completeSessionRoute>, res: ValidatedResponse<typeof completeSessionRoute>) => {
+    try {
+      const { session, xpAwarded } = await completeSession(req.params.id, req.user!.id);
+      res.json({ ...session, xpAwarded });
+    } catch (error: any) {
+      if (!error.statusCode) throw error;
+      res.status(error.statusCode).json({ error: error.message });
+    }
+  })
+);
 
-    res.json(updated);
+// Abandon a session - it earns no XP and is left out of averages
+router.post(
+  '/:id/abandon',
+  verifyAuthToken,
+  validateRequest(abandonSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof abandonSessionRoute>, res: ValidatedResponse<typeof abandonSessionRoute>) => {
+    try {
+      res.json(await abandonSession(req.params.id, req.user!.id));
+    } catch (error: any) {
+      if (!error.statusCode) throw error;
+      res.status(error.statusCode).json({ error: error.message });
+    }
   })
 );
 
-// Get user sessions
+// Get user sessions - search, filter and sort history, a page at a time
 router.get(
   '/',
-  requireAuth,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  verifyAuthToken,
+  validateRequest(listSessionsRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof listSessionsRoute>, res: ValidatedResponse<typeof listSessionsRoute>) => {
     const userId = req.user!.id;
-    const { limit = 20, offset = 0, featureType } = req.query;
-
-    const sessions = await prisma.session.findMany({
-      where: {
-        userId,
-        ...(featureType && { featureType: featureType as string }),
-      },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-      orderBy: { createdAt: 'desc' },
-    });
-
-    const total = await prisma.session.count({
-      where: {
-        userId,
-        ...(featureType && { featureType: featureType as string }),
-      },
-    });
+    const { limit, offset, cursor, ...search } = req.query;
+    const where = sessionSearchWhere(userId, search);
+
+    // One extra row tells whether there is another page
+    const [rows, total] = await Promise.all([
+      prisma.session.findMany({
+        where,
+        orderBy: sessionSearchOrderBy(search),
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : { skip: offset }),
+      }),
+      prisma.session.count({ where }),
+    ]);
+
+    const sessions = rows.slice(0, limit);
 
     res.json({
-      sessions,
+      sessions: search.q
+        ? sessions.map(session => ({ ...session, snippet: transcriptSnippet(session.transcript, search.q!) }))
+        : sessions,
       total,
-      limit: parseInt(limit as string),
-      offset: parseInt(offset as string),
+      limit,
+      offset,
+      nextCursor: rows.length > limit ? sessions[sessions.length - 1].id : null,
     });
   })
 );
@@ -108,8 +173,9 @@ router.get(
 // Get session details
 router.get(
   '/:id',
-  requireAuth,
-  asyncHandler(async (req: AuthRequest, res: Response) => {
+  verifyAuthToken,
+  validateRequest(getSessionRoute),
+  asyncHandler(async (req: ValidatedRequest<typeof getSessionRoute>, res: ValidatedResponse<typeof getSessionRoute>) => {
     const { id } = req.params;
     const userId = req.user!.id;
 
@@ -0,0 +1,23 @@
+import { defineRoute, object, string, optional } from './schema';
+
+export const exportAccountRoute = defineRoute({
+  operationId: 'exportAccount',
+  summary: 'Download all account data as a JSON bundle',
+});
+
+// Whichever factors the account has: its password and 2FA code, or a fresh Google credential
+export const deleteAccountRoute = defineRoute({
+  operationId: 'deleteAccount',
+  summary: 'Request account deletion - requires re-authentication, purged after the grace period',
+  body: object({
+    password: optional(string({ maxLength: 128 })),
+    code: optional(string({ maxLength: 16 })),
+    recoveryCode: optional(string({ maxLength: 32 })),
+    credential: optional(string({ maxLength: 4096 })),
+  }),
+});
+
+export const restoreAccountRoute = defineRoute({
+  operationId: 'restoreAccount',
+  summary: 'Cancel a pending deletion during the grace period',
+});
@@ -0,0 +1,109 @@
+import { PERMISSION_ROLES } from '../services/auth';
+import { FEATURE_TYPES } from '../services/assignments';
+import { ALL_FEATURES, PLAN_KEYS, QUOTA_METRICS, QUOTA_PERIODS } from '../services/plans';
+import { defineRoute, object, string, integer, enumOf, array, optional, nullable, withDefault } from './schema';
+
+const idParams = object({ id: string({ minLength: 1 }) });
+
+// featureType defaults to every feature combined and period to daily
+const quotaLimitShape = {
+  featureType: withDefault(enumOf([ALL_FEATURES, ...FEATURE_TYPES]), ALL_FEATURES),
+  metric: enumOf(QUOTA_METRICS),
+  period: withDefault(enumOf(QUOTA_PERIODS), 'daily'),
+  limit: integer({ minimum: 0 }),
+};
+
+// null goes back to the organization's (or the free) plan
+const planBody = object({ plan: nullable(enumOf(PLAN_KEYS)) });
+// A null limit clears the override
+const quotaOverrideBody = object({ ...quotaLimitShape, limit: nullable(integer({ minimum: 0 })) });
+
+export const listUsersRoute = defineRoute({
+  operationId: 'listUsers',
+  summary: 'List users',
+  query: object({
+    limit: withDefault(integer({ minimum: 1, maximum: 200 }), 50),
+    offset: withDefault(integer({ minimum: 0 }), 0),
+    search: optional(string({ maxLength: 200 })),
+    permissionRole: optional(enumOf(PERMISSION_ROLES)),
+  }),
+});
+
+export const setUserRoleRoute = defineRoute({
+  operationId: 'setUserRole',
+  summary: "Change a user's permission role",
+  params: idParams,
+  body: object({ permissionRole: enumOf(PERMISSION_ROLES) }),
+});
+
+export const setUserPlanRoute = defineRoute({
+  operationId: 'setUserPlan',
+  summary: "Put a user on a plan, or back on their organization's (or the free) plan with null",
+  params: idParams,
+  body: planBody,
+});
+
+export const setUserQuotaRoute = defineRoute({
+  operationId: 'setUserQuota',
+  summary: "Set one of a user's quota limits, or clear the override with a null limit",
+  params: idParams,
+  body: quotaOverrideBody,
+});
+
+export const disableUserRoute = defineRoute({
+  operationId: 'disableUser',
+  summary: 'Disable an account and sign it out everywhere',
+  params: idParams,
+  body: object({ reason: optional(string({ maxLength: 500 })) }),
+});
+
+export const enableUserRoute = defineRoute({
+  operationId: 'enableUser',
+  summary: 'Re-enable a disabled account',
+  params: idParams,
+});
+
+export const listPlansRoute = defineRoute({
+  operationId: 'listPlans',
+  summary: 'List plans with their limits',
+});
+
+export const setPlanLimitsRoute = defineRoute({
+  operationId: 'setPlanLimits',
+  summary: 'Replace every limit of a plan',
+  params: object({ key: string({ minLength: 1 }) }),
+  body: object({ limits: array(object(quotaLimitShape), { maxItems: 100 }) }),
+});
+
+export const setOrganizationPlanRoute = defineRoute({
+  operationId: 'setOrganizationPlan',
+  summary: "Put an organization's members on a plan, or clear it with null",
+  params: idParams,
+  body: planBody,
+});
+
+export const setOrganizationQuotaRoute = defineRoute({
+  operationId: 'setOrganizationQuota',
+  summary: 'Set one quota limit for every member of an organization, or clear it with a null limit',
+  params: idParams,
+  body: quotaOverrideBody,
+});
+
+export const listPromptsRoute = defineRoute({
+  operationId: 'listPrompts',
+  summary: 'List prompt templates with their versions and pins',
+});
+
+// null goes back to the newest version
+export const pinPromptRoute = defineRoute({
+  operationId: 'pinPrompt',
+  summary: 'Pin a prompt template to one of its versions, or back to the newest with null',
+  params: idParams,
+  body: object({ version: nullable(integer({ minimum: 1 })) }),
+});
+
+export const getPromptStatsRoute = defineRoute({
+  operationId: 'getPromptStats',
+  summary: 'Usage and session outcomes per version of a prompt template, for comparing prompt changes',
+  params: idParams,
+});
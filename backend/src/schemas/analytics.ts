@@ -0,0 +1,20 @@
+import { defineRoute, object, string, jsonObject, optional } from './schema';
+
+export const trackEventRoute = defineRoute({
+  operationId: 'trackEvent',
+  summary: 'Track event',
+  body: object({
+    eventType: string({ minLength: 1, maxLength: 100 }),
+    metadata: optional(jsonObject()),
+  }),
+});
+
+export const getUserStatsRoute = defineRoute({
+  operationId: 'getUserStats',
+  summary: 'Get user stats',
+});
+
+export const getFeatureAdoptionRoute = defineRoute({
+  operationId: 'getFeatureAdoption',
+  summary: 'Get feature adoption',
+});
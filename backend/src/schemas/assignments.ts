@@ -0,0 +1,85 @@
+import { FEATURE_TYPES, ASSIGNMENT_STATUSES, COMMENT_TARGETS } from '../services/assignments';
+import { defineRoute, object, string, integer, enumOf, dateTime, jsonObject, optional, nullable, withDefault } from './schema';
+
+const assignmentParams = object({ id: string({ minLength: 1 }) });
+
+export const listAssignmentsRoute = defineRoute({
+  operationId: 'listAssignments',
+  summary: 'List assignments - the learner inbox by default, or ?as=coach for assignments you set',
+  query: object({
+    as: withDefault(enumOf(['learner', 'coach'] as const), 'learner'),
+    status: optional(enumOf(ASSIGNMENT_STATUSES)),
+    learnerId: optional(string()), // Only applies with as=coach
+  }),
+});
+
+export const createAssignmentRoute = defineRoute({
+  operationId: 'createAssignment',
+  summary: 'Assign practice to a learner',
+  body: object({
+    learnerId: string({ minLength: 1 }),
+    featureType: enumOf(FEATURE_TYPES),
+    title: string({ minLength: 1, maxLength: 200 }),
+    instructions: optional(nullable(string({ maxLength: 5000 }))),
+    config: optional(nullable(jsonObject({ description: 'Feature settings, e.g. scenario and persona' }))),
+    dueAt: optional(nullable(dateTime())),
+  }),
+});
+
+export const getAssignmentRoute = defineRoute({
+  operationId: 'getAssignment',
+  summary: 'Get an assignment with its session, feedback highlights and review comments',
+  params: assignmentParams,
+});
+
+// null clears instructions and dueAt
+export const updateAssignmentRoute = defineRoute({
+  operationId: 'updateAssignment',
+  summary: 'Edit an assignment',
+  params: assignmentParams,
+  body: object({
+    title: optional(string({ minLength: 1, maxLength: 200 })),
+    instructions: optional(nullable(string({ maxLength: 5000 }))),
+    config: optional(jsonObject()),
+    dueAt: optional(nullable(dateTime())),
+  }),
+});
+
+export const deleteAssignmentRoute = defineRoute({
+  operationId: 'deleteAssignment',
+  summary: 'Delete an assignment',
+  params: assignmentParams,
+});
+
+// Without a sessionId the learner's latest session of the assignment's feature is submitted
+export const submitAssignmentRoute = defineRoute({
+  operationId: 'submitAssignment',
+  summary: 'Submit a session for review',
+  params: assignmentParams,
+  body: object({ sessionId: optional(string({ minLength: 1 })) }),
+});
+
+export const addReviewCommentRoute = defineRoute({
+  operationId: 'addReviewComment',
+  summary: 'Leave a review comment on the submitted session',
+  params: assignmentParams,
+  body: object({
+    target: optional(enumOf(COMMENT_TARGETS)),
+    offsetSeconds: optional(nullable(integer({ minimum: 0 }))),
+    highlightIndex: optional(nullable(integer({ minimum: 0 }))),
+    quote: optional(nullable(string({ maxLength: 1000 }))),
+    body: string({ minLength: 1, maxLength: 5000 }),
+  }),
+});
+
+export const deleteReviewCommentRoute = defineRoute({
+  operationId: 'deleteReviewComment',
+  summary: 'Delete your own review comment',
+  params: object({ id: string({ minLength: 1 }), commentId: string({ minLength: 1 }) }),
+});
+
+export const completeReviewRoute = defineRoute({
+  operationId: 'completeReview',
+  summary: 'Finish the review',
+  params: assignmentParams,
+});
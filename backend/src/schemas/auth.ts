@@ -0,0 +1,115 @@
+import { defineRoute, object, string, email, optional } from './schema';
+
+// Passwords are checked against the strength rules by the auth service
+const password = () => string({ minLength: 1, maxLength: 128 });
+const token = () => string({ minLength: 1, maxLength: 512 });
+// Either a TOTP code or a recovery code; routes check that one was given
+const secondFactor = {
+  code: optional(string({ maxLength: 16 })),
+  recoveryCode: optional(string({ maxLength: 32 })),
+};
+// The refresh token normally arrives as a cookie; clients without cookies send it in the body
+const refreshTokenBody = object({ refreshToken: optional(token()) });
+
+export const registerRoute = defineRoute({
+  operationId: 'register',
+  summary: 'Register - Create new account',
+  body: object({
+    email: email(),
+    name: string({ minLength: 1, maxLength: 200 }),
+    role: string({ minLength: 1, maxLength: 200 }),
+    password: password(),
+  }),
+});
+
+export const loginRoute = defineRoute({
+  operationId: 'login',
+  summary: 'Login - Authenticate user',
+  body: object({ email: email(), password: password() }),
+});
+
+export const googleLoginRoute = defineRoute({
+  operationId: 'googleLogin',
+  summary: 'Google sign-in - Verify ID token and link or create user',
+  body: object({ credential: string({ minLength: 1, maxLength: 4096 }) }),
+});
+
+export const twoFactorLoginRoute = defineRoute({
+  operationId: 'twoFactorLogin',
+  summary: 'Login second step - Verify a TOTP or recovery code against a challenge token',
+  body: object({ challengeToken: token(), ...secondFactor }),
+});
+
+export const refreshTokenRoute = defineRoute({
+  operationId: 'refreshToken',
+  summary: 'Refresh access token - rotates the refresh token on every call',
+  body: refreshTokenBody,
+});
+
+export const setupTwoFactorRoute = defineRoute({
+  operationId: 'setupTwoFactor',
+  summary: 'Start 2FA enrollment - returns the secret and otpauth:// provisioning URI',
+});
+
+export const confirmTwoFactorRoute = defineRoute({
+  operationId: 'confirmTwoFactor',
+  summary: 'Confirm 2FA enrollment - returns one-time recovery codes',
+  body: object({ code: string({ minLength: 1, maxLength: 16 }) }),
+});
+
+// Accounts created through Google sign-in have no password to confirm
+export const disableTwoFactorRoute = defineRoute({
+  operationId: 'disableTwoFactor',
+  summary: 'Disable 2FA - requires password and a current code or recovery code',
+  body: object({ password: optional(password()), ...secondFactor }),
+});
+
+export const forgotPasswordRoute = defineRoute({
+  operationId: 'forgotPassword',
+  summary: 'Forgot password - email a reset link',
+  body: object({ email: email() }),
+});
+
+export const resetPasswordRoute = defineRoute({
+  operationId: 'resetPassword',
+  summary: 'Reset password with a single-use token',
+  body: object({ token: token(), password: password() }),
+});
+
+export const verifyEmailRoute = defineRoute({
+  operationId: 'verifyEmail',
+  summary: 'Verify email address with a single-use token',
+  body: object({ token: token() }),
+});
+
+export const resendVerificationRoute = defineRoute({
+  operationId: 'resendVerificationEmail',
+  summary: 'Resend the verification email',
+});
+
+export const verifyTokenRoute = defineRoute({
+  operationId: 'verifyToken',
+  summary: 'Verify token and get user info',
+});
+
+export const logoutRoute = defineRoute({
+  operationId: 'logout',
+  summary: "Logout - revokes this device's refresh token",
+  body: refreshTokenBody,
+});
+
+export const listDeviceSessionsRoute = defineRoute({
+  operationId: 'listDeviceSessions',
+  summary: 'List signed-in devices',
+});
+
+export const revokeOtherDeviceSessionsRoute = defineRoute({
+  operationId: 'revokeOtherDeviceSessions',
+  summary: 'Sign out every other device',
+});
+
+export const revokeDeviceSessionRoute = defineRoute({
+  operationId: 'revokeDeviceSession',
+  summary: 'Sign out a single device',
+  params: object({ id: string({ minLength: 1 }) }),
+});
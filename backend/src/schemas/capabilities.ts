@@ -0,0 +1,101 @@
+import { SPEECH_VOICES, RESUME_INTENSITIES } from '../services/capabilities';
+import { defineRoute, object, string, array, enumOf, withDefault } from './schema';
+
+// Resumes, job descriptions and presentations are longer than validateAndSanitize allows
+const MAX_DOCUMENT_LENGTH = 20000;
+const MAX_AUDIO_BASE64_LENGTH = 4 * 1024 * 1024; // About 3 MB of audio
+const MAX_FRAME_BASE64_LENGTH = 512 * 1024;
+const MAX_FRAMES = 120;
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const text = (maxLength: number = MAX_DOCUMENT_LENGTH) => string({ minLength: 1, maxLength });
+const base64 = (maxLength: number, description: string) => string({ minLength: 1, maxLength, pattern: BASE64, description });
+
+const resumeShape = {
+  resumeText: text(),
+  jobDescription: text(),
+};
+
+export const jobSearchRoute = defineRoute({
+  operationId: 'searchJobs',
+  summary: 'Find remote-friendly job listings with live search results',
+  body: object({ query: text(500), userRole: text(200) }),
+});
+
+export const accentAnalysisRoute = defineRoute({
+  operationId: 'analyzeAccent',
+  summary: 'Score a recording of a reference phrase',
+  body: object({
+    audio: base64(MAX_AUDIO_BASE64_LENGTH, 'Base64 recording, at most 3 MB'),
+    mimeType: withDefault(string({ pattern: /^audio\/[\w.+-]+(;.*)?$/ }), 'audio/webm'),
+    referenceText: text(1000),
+  }),
+});
+
+export const videoAnalysisRoute = defineRoute({
+  operationId: 'analyzeVideo',
+  summary: 'Analyze body language across JPEG frames from a video answer',
+  body: object({
+    frames: array(base64(MAX_FRAME_BASE64_LENGTH, 'Base64 JPEG'), { minItems: 1, maxItems: MAX_FRAMES }),
+    transcript: withDefault(string({ maxLength: MAX_DOCUMENT_LENGTH }), ''),
+    question: text(1000),
+  }),
+});
+
+export const culturalTranslateRoute = defineRoute({
+  operationId: 'culturalTranslate',
+  summary: 'Explain how a phrase is received in US corporate culture',
+  body: object({ phrase: text(1000) }),
+});
+
+export const gapAnalysisRoute = defineRoute({
+  operationId: 'analyzeResumeGap',
+  summary: 'Compare a resume with a job description',
+  body: object(resumeShape),
+});
+
+export const atsAnalysisRoute = defineRoute({
+  operationId: 'analyzeResumeAts',
+  summary: 'Check a resume against an applicant tracking system',
+  body: object(resumeShape),
+});
+
+export const optimizeResumeRoute = defineRoute({
+  operationId: 'optimizeResume',
+  summary: 'Rewrite a resume for a job, strictly or creatively',
+  body: object({
+    ...resumeShape,
+    intensity: withDefault(enumOf(RESUME_INTENSITIES), 'strict'),
+  }),
+});
+
+export const presentationAnalysisRoute = defineRoute({
+  operationId: 'analyzePresentation',
+  summary: 'Summarize a presentation and prepare for audience questions',
+  body: object({ text: text() }),
+});
+
+export const bioRoute = defineRoute({
+  operationId: 'generateBio',
+  summary: 'Write a professional bio',
+  body: object({ context: text(5000), platform: text(100) }),
+});
+
+export const listeningScenarioRoute = defineRoute({
+  operationId: 'generateListeningScenario',
+  summary: 'Create a listening exercise',
+  body: object({
+    topic: text(500),
+    difficulty: withDefault(string({ minLength: 1, maxLength: 50 }), 'Intermediate'),
+  }),
+});
+
+export const speechRoute = defineRoute({
+  operationId: 'generateSpeech',
+  summary: 'Read text aloud - returns base64 16-bit PCM at 24 kHz',
+  body: object({
+    text: text(5000),
+    voiceName: withDefault(enumOf(SPEECH_VOICES), 'Kore'),
+  }),
+});
@@ -0,0 +1,38 @@
+import { FEATURE_TYPES } from '../services/assignments';
+import { defineRoute, object, string, array, enumOf, optional } from './schema';
+
+// Prompt content is also screened by validatePromptMiddleware
+const promptBody = object({
+  prompt: string({ minLength: 5, maxLength: 4000 }),
+  featureType: optional(enumOf(FEATURE_TYPES)),
+  conversationHistory: optional(array(
+    object({
+      role: string({ minLength: 1, maxLength: 20, description: "'user', anything else is the model" }),
+      content: string({ maxLength: 20000 }),
+    }),
+    { maxItems: 200 }
+  )),
+});
+
+export const processPromptRoute = defineRoute({
+  operationId: 'processPrompt',
+  summary: 'Process user prompt with Gemini',
+  body: promptBody,
+});
+
+export const streamPromptRoute = defineRoute({
+  operationId: 'streamPrompt',
+  summary: 'Stream a reply to a prompt as Server-Sent Events: `delta` events carry text, a final `done` event carries token usage',
+  body: promptBody,
+});
+
+export const generateFeedbackRoute = defineRoute({
+  operationId: 'generateFeedback',
+  summary: 'Generate session feedback',
+  body: object({ sessionId: string({ minLength: 1 }) }),
+});
+
+export const getQuotaRoute = defineRoute({
+  operationId: 'getQuota',
+  summary: "Get today's usage and every plan limit with what is left of it",
+});
@@ -0,0 +1,137 @@
+import { ORG_ROLES } from '../services/organizations';
+import { defineRoute, object, string, email, integer, boolean, enumOf, dateTime, optional, nullable } from './schema';
+
+const id = () => string({ minLength: 1 });
+const name = () => string({ minLength: 1, maxLength: 200 });
+const seatLimit = () => integer({ minimum: 1 });
+
+const orgParams = object({ orgId: id() });
+const memberParams = object({ orgId: id(), userId: id() });
+
+export const listOrganizationsRoute = defineRoute({
+  operationId: 'listOrganizations',
+  summary: 'List organizations the current user belongs to',
+});
+
+export const createOrganizationRoute = defineRoute({
+  operationId: 'createOrganization',
+  summary: 'Create an organization (platform admins only)',
+  body: object({
+    name: name(),
+    seatLimit: seatLimit(),
+    adminUserId: optional(id()), // Made the first org admin
+  }),
+});
+
+export const acceptInvitationRoute = defineRoute({
+  operationId: 'acceptInvitation',
+  summary: 'Accept an invitation link',
+  body: object({ token: string({ minLength: 1, maxLength: 512 }) }),
+});
+
+export const getOrganizationRoute = defineRoute({
+  operationId: 'getOrganization',
+  summary: 'Get organization details and seat usage',
+  params: orgParams,
+});
+
+export const updateOrganizationRoute = defineRoute({
+  operationId: 'updateOrganization',
+  summary: 'Rename or resize an organization (platform admins only)',
+  params: orgParams,
+  body: object({
+    name: optional(name()),
+    seatLimit: optional(seatLimit()),
+  }),
+});
+
+export const listCohortsRoute = defineRoute({
+  operationId: 'listCohorts',
+  summary: 'List cohorts',
+  params: orgParams,
+});
+
+export const createCohortRoute = defineRoute({
+  operationId: 'createCohort',
+  summary: 'Create a cohort',
+  params: orgParams,
+  body: object({
+    name: name(),
+    startsAt: optional(nullable(dateTime())),
+    endsAt: optional(nullable(dateTime())),
+  }),
+});
+
+export const listInvitationsRoute = defineRoute({
+  operationId: 'listInvitations',
+  summary: 'List active invitations',
+  params: orgParams,
+});
+
+// Without an email anyone with the link can join, up to maxUses times (unlimited when null)
+export const createInvitationRoute = defineRoute({
+  operationId: 'createInvitation',
+  summary: 'Create an invitation link',
+  params: orgParams,
+  body: object({
+    cohortId: optional(nullable(id())),
+    email: optional(nullable(email())),
+    orgRole: optional(enumOf(ORG_ROLES)),
+    maxUses: optional(nullable(integer({ minimum: 1 }))),
+    expiresInDays: optional(integer({ minimum: 1, maximum: 90 })),
+  }),
+});
+
+export const revokeInvitationRoute = defineRoute({
+  operationId: 'revokeInvitation',
+  summary: 'Revoke an invitation link',
+  params: object({ orgId: id(), invitationId: id() }),
+});
+
+export const listMembersRoute = defineRoute({
+  operationId: 'listMembers',
+  summary: 'List members',
+  params: orgParams,
+  query: object({ cohortId: optional(id()) }),
+});
+
+// An empty or null cohortId takes the member out of their cohort
+export const updateMemberRoute = defineRoute({
+  operationId: 'updateMember',
+  summary: "Change a member's cohort or org role",
+  params: memberParams,
+  body: object({
+    cohortId: optional(nullable(string())),
+    orgRole: optional(enumOf(ORG_ROLES)),
+  }),
+});
+
+export const removeMemberRoute = defineRoute({
+  operationId: 'removeMember',
+  summary: 'Remove a member - org admins can remove anyone, members can leave',
+  params: memberParams,
+});
+
+export const getMemberProgressRoute = defineRoute({
+  operationId: 'getMemberProgress',
+  summary: "Get a member's progress - transcripts only if the learner opted in",
+  params: memberParams,
+});
+
+export const updateMembershipRoute = defineRoute({
+  operationId: 'updateMembership',
+  summary: 'Opt in or out of sharing transcripts with org admins',
+  params: orgParams,
+  body: object({ shareTranscripts: boolean() }),
+});
+
+export const getOrganizationAnalyticsRoute = defineRoute({
+  operationId: 'getOrganizationAnalytics',
+  summary: 'Average score, clarity and pace per cohort and feature',
+  params: orgParams,
+  query: object({
+    cohortId: optional(id()),
+    from: optional(dateTime()),
+    to: optional(dateTime()),
+  }),
+});
@@ -0,0 +1,189 @@
+import { JsonSchema, SchemaError, findSchemaErrors } from '../services/jsonSchema';
+
+/**
+ * Typed builders for request schemas. Each builder returns a plain JsonSchema,
+ * so the same definition is checked at runtime and can be published as API
+ * docs, and carries two types: what the client sends (Input) and what the
+ * handler gets after coercion and defaults (Output).
+ *
+ *   const body = object({ title: string({ maxLength: 200 }), score: optional(integer({ minimum: 0, maximum: 100 })) });
+ *   type Body = Input<typeof body>; // { title: string; score?: number }
+ */
+
+// Whether a property may be left out, and if so whether the handler still gets a value
+export type Presence = 'required' | 'optional' | 'default';
+
+export interface TypedSchema<T, I = T, P extends Presence = 'required'> extends JsonSchema {
+  // Type-level only, never set
+  readonly __types?: { output: T; input: I; presence: P };
+}
+
+export type AnySchema = TypedSchema<any, any, Presence>;
+
+export type Output<S> = S extends TypedSchema<infer T, any, any> ? T : never;
+export type Input<S> = S extends TypedSchema<any, infer I, any> ? I : never;
+type PresenceOf<S> = S extends TypedSchema<any, any, infer P> ? P : never;
+
+type Shape = Record<string, AnySchema>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<S extends Shape> = Simplify<
+  { [K in keyof S as PresenceOf<S[K]> extends 'optional' ? never : K]: Output<S[K]> }
+  & { [K in keyof S as PresenceOf<S[K]> extends 'optional' ? K : never]?: Output<S[K]> }
+>;
+type ObjectInput<S extends Shape> = Simplify<
+  { [K in keyof S as PresenceOf<S[K]> extends 'required' ? K : never]: Input<S[K]> }
+  & { [K in keyof S as PresenceOf<S[K]> extends 'required' ? never : K]?: Input<S[K]> }
+>;
+
+// Schemas that may be left out; kept off the JSON so the schema stays plain
+const optionalSchemas = new WeakSet<JsonSchema>();
+
+const typed = <T, I = T>(schema: JsonSchema): TypedSchema<T, I> => schema;
+
+export const string = (options: Pick<JsonSchema, 'description' | 'minLength' | 'maxLength' | 'format'> & { pattern?: RegExp } = {}) =>
+  typed<string>({ type: 'string', ...options, pattern: options.pattern?.source });
+
+export const email = (options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<string>({ type: 'string', format: 'email', maxLength: 320, ...options });
+
+export const number = (options: Pick<JsonSchema, 'description' | 'minimum' | 'maximum'> = {}) =>
+  typed<number>({ type: 'number', ...options });
+
+export const integer = (options: Pick<JsonSchema, 'description' | 'minimum' | 'maximum'> = {}) =>
+  typed<number>({ type: 'integer', ...options });
+
+export const boolean = (options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<boolean>({ type: 'boolean', ...options });
+
+export const enumOf = <V extends string>(values: readonly V[], options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<V>({ type: 'string', enum: [...values], ...options });
+
+// Sent as an ISO 8601 string, handed to the route as a Date
+export const dateTime = (options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<Date, string>({ type: 'string', format: 'date-time', ...options });
+
+// Decimal columns, which serialize to strings; only found in responses
+export const decimal = (options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<string | { toJSON(): string }, string>({ type: 'string', ...options });
+
+export const array = <S extends AnySchema>(items: S, options: Pick<JsonSchema, 'description' | 'minItems' | 'maxItems'> = {}) =>
+  typed<Output<S>[], Input<S>[]>({ type: 'array', items, ...options });
+
+export const object = <S extends Shape>(properties: S, options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<ObjectOutput<S>, ObjectInput<S>>({
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(key => !optionalSchemas.has(properties[key]) && properties[key].default === undefined),
+    ...options,
+  });
+
+// A JSON object the route stores or forwards as is
+export const jsonObject = (options: Pick<JsonSchema, 'description'> = {}) =>
+  typed<Record<string, unknown>>({ type: 'object', ...options });
+
+export const optional = <T, I>(schema: TypedSchema<T, I, Presence>): TypedSchema<T | undefined, I | undefined, 'optional'> => {
+  const copy: JsonSchema = { ...schema };
+  optionalSchemas.add(copy);
+  return copy;
+};
+
+export const nullable = <T, I, P extends Presence>(schema: TypedSchema<T, I, P>): TypedSchema<T | null, I | null, P> => {
+  const copy = { ...schema, nullable: true };
+  if (optionalSchemas.has(schema)) optionalSchemas.add(copy);
+  return copy;
+};
+
+export const withDefault = <T, I>(schema: TypedSchema<T, I, Presence>, value: I): TypedSchema<T, I, 'default'> =>
+  ({ ...schema, default: value } as JsonSchema);
+
+/**
+ * Bring a raw value into the schema's shape before it is checked: fill in
+ * defaults, drop undeclared properties, and read numbers and booleans out of
+ * strings, as query strings and path params only ever carry strings
+ */
+const coerce = (schema: JsonSchema, value: unknown): unknown => {
+  if (value === undefined || (value === '' && schema.type !== 'string')) {
+    return schema.default;
+  }
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array': {
+      // ?tag=a gives a string, ?tag=a&tag=b an array
+      const entries = typeof value === 'string' ? [value] : value;
+      return Array.isArray(entries) && schema.items ? entries.map(entry => coerce(schema.items!, entry)) : entries;
+    }
+    case 'object': {
+      if (!schema.properties || typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+      const record = value as Record<string, unknown>;
+      const parsed: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const entry = coerce(propertySchema, record[key]);
+        if (entry !== undefined) parsed[key] = entry;
+      }
+      return parsed;
+    }
+    default:
+      return value;
+  }
+};
+
+// Turn checked date-time strings into Dates
+const finish = (schema: JsonSchema, value: unknown): unknown => {
+  if (value === null || value === undefined) return value;
+
+  if (schema.format === 'date-time') return new Date(value as string);
+  if (schema.type === 'array' && schema.items) {
+    return (value as unknown[]).map(entry => finish(schema.items!, entry));
+  }
+  if (schema.type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (key in record) record[key] = finish(propertySchema, record[key]);
+    }
+  }
+  return value;
+};
+
+/**
+ * Coerce and check a value, returning either the parsed value or every error found
+ */
+export const parseSchema = <S extends AnySchema>(
+  schema: S,
+  value: unknown,
+  path: string
+): { value: Output<S>; errors: [] } | { value?: undefined; errors: SchemaError[] } => {
+  const coerced = coerce(schema, value);
+  const errors = findSchemaErrors(schema, coerced, path);
+  return errors.length > 0 ? { errors } : { value: finish(schema, coerced) as Output<S>, errors: [] };
+};
+
+/**
+ * A route's OpenAPI operation and the schemas it checks its input against.
+ * Body and query schemas are objects; params is an object of strings named
+ * after the path's :params. The response schema isn't checked at runtime: it
+ * types what the handler sends and the client types generated from it.
+ */
+export interface RouteSchema {
+  operationId: string; // Also names the generated client types, e.g. CreateSessionBody
+  summary: string;
+  body?: AnySchema;
+  query?: AnySchema;
+  params?: AnySchema;
+  response?: AnySchema;
+  responseStatus?: 200 | 201;
+}
+
+export const defineRoute = <R extends RouteSchema>(route: R): R => route;
+
+// What handlers receive once validateRequest has run
+export type ParsedBody<R extends RouteSchema> = Output<R['body']>;
+export type ParsedQuery<R extends RouteSchema> = Output<R['query']>;
+export type ParsedParams<R extends RouteSchema> = Output<R['params']>;
+// What handlers send on success, before it is serialized to JSON
+export type ResponseBody<R extends RouteSchema> = Output<R['response']>;
@@ -0,0 +1,118 @@
+import { FEATURE_TYPES } from '../services/assignments';
+import { SESSION_STATES, SESSION_METRICS, SESSION_SORTS } from '../services/sessions';
+import {
+  defineRoute, object, string, integer, number, boolean, decimal, enumOf, dateTime, jsonObject, array, optional, nullable, withDefault,
+} from './schema';
+
+// Scores and the analysis metrics are percentages
+const percentage = () => number({ minimum: 0, maximum: 100 });
+
+const sessionParams = object({ id: string({ minLength: 1 }) });
+
+// The session columns clients read
+const sessionFields = {
+  id: string(),
+  featureType: string(),
+  title: nullable(string()),
+  description: nullable(string()),
+  durationSeconds: integer({ description: 'Measured from heartbeats' }),
+  score: decimal(),
+  completed: boolean(),
+  completedAt: nullable(dateTime()),
+  abandonedAt: nullable(dateTime()),
+  transcript: nullable(string()),
+  clarity: nullable(decimal()),
+  pace: nullable(decimal()),
+  confidence: nullable(decimal()),
+  tone: nullable(decimal()),
+  createdAt: dateTime(),
+};
+
+const session = object(sessionFields);
+
+const heartbeatIntervalSeconds = integer({ description: 'How often to send heartbeats while the session is open' });
+
+export const createSessionRoute = defineRoute({
+  operationId: 'createSession',
+  summary: 'Create session',
+  body: object({
+    featureType: enumOf(FEATURE_TYPES),
+    title: optional(string({ maxLength: 200 })),
+    description: optional(string({ maxLength: 2000 })),
+  }),
+  response: object({ ...sessionFields, heartbeatIntervalSeconds }),
+  responseStatus: 201,
+});
+
+export const updateSessionRoute = defineRoute({
+  operationId: 'updateSession',
+  summary: 'Update session - only while it is active',
+  params: sessionParams,
+  body: object({
+    score: optional(percentage()),
+    transcript: optional(string()),
+    feedbackJson: optional(jsonObject()),
+    clarity: optional(percentage()),
+    pace: optional(percentage()),
+    confidence: optional(percentage()),
+    tone: optional(percentage()),
+  }),
+  response: session,
+});
+
+export const listSessionsRoute = defineRoute({
+  operationId: 'listSessions',
+  summary: 'Get user sessions - search, filter and sort history, a page at a time',
+  query: object({
+    limit: withDefault(integer({ minimum: 1, maximum: 100 }), 20),
+    offset: withDefault(integer({ minimum: 0 }), 0),
+    cursor: optional(string({ minLength: 1, description: 'nextCursor of the previous page; replaces offset' })),
+    q: optional(string({ maxLength: 200, description: 'Words to find in titles and transcripts' })),
+    featureType: optional(enumOf(FEATURE_TYPES)),
+    state: optional(enumOf(SESSION_STATES)),
+    from: optional(dateTime({ description: 'Sessions created at or after' })),
+    to: optional(dateTime({ description: 'Sessions created at or before' })),
+    metric: withDefault(enumOf(SESSION_METRICS, { description: 'What min, max and the highest and lowest sorts apply to' }), 'score'),
+    min: optional(percentage()),
+    max: optional(percentage()),
+    sort: withDefault(enumOf(SESSION_SORTS), 'newest'),
+  }),
+  response: object({
+    sessions: array(object({
+      ...sessionFields,
+      snippet: optional(nullable(string({ description: 'Transcript around the search words, when searching' }))),
+    })),
+    total: integer(),
+    limit: integer(),
+    offset: integer(),
+    nextCursor: nullable(string({ description: 'Pass as cursor for the next page; null on the last one' })),
+  }),
+});
+
+export const getSessionRoute = defineRoute({
+  operationId: 'getSession',
+  summary: 'Get session details',
+  params: sessionParams,
+  response: session,
+});
+
+export const heartbeatSessionRoute = defineRoute({
+  operationId: 'heartbeatSession',
+  summary: 'Heartbeat - counts the time since the last one towards the session',
+  params: sessionParams,
+  response: object({ id: string(), durationSeconds: integer(), heartbeatIntervalSeconds }),
+});
+
+export const completeSessionRoute = defineRoute({
+  operationId: 'completeSession',
+  summary: 'Complete a session and award XP for it',
+  params: sessionParams,
+  response: object({ ...sessionFields, xpAwarded: integer({ description: 'Nothing for sessions shorter than a minute' }) }),
+});
+
+export const abandonSessionRoute = defineRoute({
+  operationId: 'abandonSession',
+  summary: 'Abandon a session - it earns no XP and is left out of averages',
+  params: sessionParams,
+  response: session,
+});
@@ -0,0 +1,154 @@
+import { prisma } from '../db';
+import { verifyPassword, revokeOtherDeviceSessions } from './auth';
+import { verifySecondFactor, SecondFactor } from './twoFactor';
+import { verifyGoogleIdToken } from './googleAuth';
+
+const DELETION_GRACE_PERIOD_DAYS = 30;
+
+export interface ReauthenticationInput extends SecondFactor {
+  password?: string;
+  credential?: string; // Google ID token, for accounts without a password
+}
+
+/**
+ * Confirm the user is present before a destructive action:
+ * password (or a fresh Google credential for federated accounts), plus 2FA when enabled
+ */
+export const reauthenticate = async (userId: string, input: ReauthenticationInput): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true, googleId: true, totpEnabledAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.passwordHash) {
+    if (!input.password || !(await verifyPassword(input.password, user.passwordHash))) {
+      throw new Error('Invalid password');
+    }
+  } else {
+    const payload = input.credential ? await verifyGoogleIdToken(input.credential).catch(() => null) : null;
+    if (!payload || payload.sub !== user.googleId) {
+      throw new Error('Please sign in with Google again to confirm');
+    }
+  }
+
+  if (user.totpEnabledAt && !(await verifySecondFactor(userId, input))) {
+    throw new Error('Invalid verification code');
+  }
+};
+
+/**
+ * Collect everything stored about a user into one portable bundle
+ */
+export const exportAccountData = async (userId: string) => {
+  const [profile, sessions, events, quotaUsage, assignments] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        level: true,
+        xp: true,
+        streak: true,
+        dailyGoalCompleted: true,
+        lastActiveAt: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
+        deletionScheduledFor: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.session.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.analyticsEvent.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.quotaUsage.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.assignment.findMany({
+      where: { learnerId: userId },
+      include: { comments: { select: { target: true, offsetSeconds: true, highlightIndex: true, quote: true, body: true, createdAt: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  // Feedback isn't related to Session in the schema, so join on sessionId by hand
+  const feedback = await prisma.feedback.findMany({
+    where: { sessionId: { in: sessions.map(session => session.id) } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    sessions,
+    feedback,
+    events,
+    quotaUsage,
+    assignments,
+  };
+};
+
+/**
+ * Schedule the account for deletion and sign out every device
+ */
+export const scheduleAccountDeletion = async (userId: string): Promise<Date> => {
+  const scheduledFor = new Date(Date.now() + DELETION_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor },
+  });
+
+  await revokeOtherDeviceSessions(userId);
+
+  return scheduledFor;
+};
+
+/**
+ * Cancel a pending deletion during the grace period
+ */
+export const cancelAccountDeletion = async (userId: string): Promise<boolean> => {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Permanently delete a user. Sessions, quota usage and events cascade;
+ * Feedback rows have no relation to Session, so they are removed explicitly.
+ */
+export const deleteAccount = async (userId: string): Promise<void> => {
+  const sessions = await prisma.session.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.feedback.deleteMany({
+      where: { sessionId: { in: sessions.map(session => session.id) } },
+    }),
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+};
+
+/**
+ * Delete every account whose grace period has ended. Returns the number purged.
+ */
+export const purgeScheduledDeletions = async (now: Date = new Date()): Promise<number> => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now } },
+    select: { id: true },
+  });
+
+  for (const user of due) {
+    await deleteAccount(user.id);
+  }
+
+  return due.length;
+};
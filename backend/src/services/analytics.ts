@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface SessionStats {
+  totalSessions: number;
+  completedSessions: number;
+  averageScore: number;
+}
+
+export interface FeatureMetrics {
+  featureType: string;
+  sessions: number; // Completed sessions the averages are taken over
+  averageScore: number;
+  averageClarity: number | null;
+  averagePace: number | null;
+}
+
+const toNumber = (value: Prisma.Decimal | null): number | null => {
+  return value === null ? null : Number(value);
+};
+
+/**
+ * Session counts and average score for any set of sessions. Only completed
+ * sessions count towards the average; abandoned and unfinished ones would drag it down.
+ */
+export const getSessionStats = async (where: Prisma.SessionWhereInput): Promise<SessionStats> => {
+  const [totalSessions, completedSessions, avgScore] = await Promise.all([
+    prisma.session.count({ where }),
+    prisma.session.count({ where: { ...where, completed: true } }),
+    prisma.session.aggregate({
+      where: { ...where, completed: true },
+      _avg: { score: true },
+    }),
+  ]);
+
+  return {
+    totalSessions,
+    completedSessions,
+    averageScore: Number(avgScore._avg.score || 0),
+  };
+};
+
+/**
+ * Session counts per feature
+ */
+export const getFeatureAdoption = async (
+  where: Prisma.SessionWhereInput
+): Promise<Record<string, number>> => {
+  const features = await prisma.session.groupBy({
+    by: ['featureType'],
+    where,
+    _count: { id: true },
+  });
+
+  return Object.fromEntries(
+    features.map(f => [f.featureType, f._count.id])
+  );
+};
+
+/**
+ * Average score, clarity and pace per feature over completed sessions, like getSessionStats
+ */
+export const getFeatureMetrics = async (where: Prisma.SessionWhereInput): Promise<FeatureMetrics[]> => {
+  const features = await prisma.session.groupBy({
+    by: ['featureType'],
+    where: { ...where, completed: true },
+    _count: { id: true },
+    _avg: { score: true, clarity: true, pace: true },
+    orderBy: { featureType: 'asc' },
+  });
+
+  return features.map(f => ({
+    featureType: f.featureType,
+    sessions: f._count.id,
+    averageScore: Number(f._avg.score || 0),
+    averageClarity: toNumber(f._avg.clarity),
+    averagePace: toNumber(f._avg.pace),
+  }));
+};
@@ -0,0 +1,247 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { PermissionRole } from './auth';
+
+export type FeatureType = 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+export const FEATURE_TYPES: FeatureType[] = ['conversation', 'writing', 'accent', 'listening', 'video'];
+
+export type AssignmentStatus = 'assigned' | 'submitted' | 'reviewed';
+export const ASSIGNMENT_STATUSES: AssignmentStatus[] = ['assigned', 'submitted', 'reviewed'];
+export type CommentTarget = 'transcript' | 'highlight' | 'general';
+export const COMMENT_TARGETS: CommentTarget[] = ['transcript', 'highlight', 'general'];
+
+export interface AssignmentInput {
+  learnerId: string;
+  featureType: FeatureType;
+  title: string;
+  instructions?: string | null;
+  config?: Prisma.InputJsonValue | null;
+  dueAt?: Date | null;
+}
+
+export interface ReviewCommentInput {
+  target?: CommentTarget;
+  offsetSeconds?: number | null;
+  highlightIndex?: number | null;
+  quote?: string | null;
+  body: string;
+}
+
+interface Viewer {
+  id: string;
+  permissionRole: PermissionRole;
+}
+
+const assignmentError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Feedback.highlights is stored as a JSON string
+const parseHighlights = (highlights: string | null): unknown[] => {
+  if (!highlights) return [];
+  try {
+    const parsed = JSON.parse(highlights);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Coaches can only assign work to learners in an organization they belong to.
+ * Platform admins can assign to anyone.
+ */
+export const assertCanCoach = async (coach: Viewer, learnerId: string): Promise<void> => {
+  const learner = await prisma.user.findUnique({ where: { id: learnerId }, select: { id: true } });
+  if (!learner) {
+    throw assignmentError('Learner not found', 404);
+  }
+
+  if (coach.permissionRole === 'admin') {
+    return;
+  }
+
+  const shared = await prisma.organizationMember.findFirst({
+    where: {
+      userId: learnerId,
+      organization: { members: { some: { userId: coach.id } } },
+    },
+    select: { id: true },
+  });
+
+  if (!shared) {
+    throw assignmentError('You can only assign practice to learners in your organizations', 403);
+  }
+};
+
+/**
+ * Load an assignment the viewer is a party to, or throw 404
+ */
+const findAssignmentFor = async (assignmentId: string, viewer: Viewer) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  const isParty = assignment
+    && (assignment.learnerId === viewer.id || assignment.coachId === viewer.id || viewer.permissionRole === 'admin');
+  if (!assignment || !isParty) {
+    throw assignmentError('Assignment not found', 404);
+  }
+
+  return assignment;
+};
+
+/**
+ * Load an assignment the viewer coaches, or throw
+ */
+export const findCoachedAssignment = async (assignmentId: string, viewer: Viewer) => {
+  const assignment = await findAssignmentFor(assignmentId, viewer);
+  if (assignment.coachId !== viewer.id && viewer.permissionRole !== 'admin') {
+    throw assignmentError('Only the assigning coach can do that', 403);
+  }
+  return assignment;
+};
+
+/**
+ * Create an assignment for a learner
+ */
+export const createAssignment = async (coach: Viewer, input: AssignmentInput) => {
+  await assertCanCoach(coach, input.learnerId);
+
+  return prisma.assignment.create({
+    data: {
+      coachId: coach.id,
+      learnerId: input.learnerId,
+      featureType: input.featureType,
+      title: input.title,
+      instructions: input.instructions || null,
+      config: input.config ?? Prisma.JsonNull,
+      dueAt: input.dueAt || null,
+    },
+  });
+};
+
+/**
+ * Attach a session to an assignment. Without a sessionId, the learner's most
+ * recent session of the assigned feature since the assignment was created is used.
+ */
+export const submitAssignment = async (assignmentId: string, learnerId: string, sessionId?: string) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+  if (!assignment || assignment.learnerId !== learnerId) {
+    throw assignmentError('Assignment not found', 404);
+  }
+  if (assignment.status === 'reviewed') {
+    throw assignmentError('Assignment has already been reviewed', 409);
+  }
+
+  const session = sessionId
+    ? await prisma.session.findFirst({ where: { id: sessionId, userId: learnerId } })
+    : await prisma.session.findFirst({
+        where: {
+          userId: learnerId,
+          featureType: assignment.featureType,
+          createdAt: { gte: assignment.createdAt },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+  if (!session) {
+    throw assignmentError(
+      sessionId ? 'Session not found' : `Complete a ${assignment.featureType} session before submitting`,
+      sessionId ? 404 : 400
+    );
+  }
+  if (session.featureType !== assignment.featureType) {
+    throw assignmentError(`This assignment needs a ${assignment.featureType} session`, 400);
+  }
+
+  const linked = await prisma.assignment.findUnique({ where: { sessionId: session.id }, select: { id: true } });
+  if (linked && linked.id !== assignment.id) {
+    throw assignmentError('That session was already submitted for another assignment', 409);
+  }
+
+  return prisma.assignment.update({
+    where: { id: assignment.id },
+    data: { sessionId: session.id, status: 'submitted', submittedAt: new Date() },
+  });
+};
+
+/**
+ * Full assignment view for the learner or coach: the submitted session with its
+ * transcript, feedback highlights and every review comment
+ */
+export const getAssignmentDetail = async (assignmentId: string, viewer: Viewer) => {
+  await findAssignmentFor(assignmentId, viewer);
+
+  const assignment = await prisma.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    include: {
+      coach: { select: { id: true, name: true } },
+      learner: { select: { id: true, name: true, email: true } },
+      session: true,
+      comments: {
+        include: { author: { select: { id: true, name: true } } },
+        orderBy: [{ offsetSeconds: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+
+  const feedback = assignment.sessionId
+    ? await prisma.feedback.findUnique({ where: { sessionId: assignment.sessionId } })
+    : null;
+
+  return {
+    ...assignment,
+    feedback: feedback && { ...feedback, highlights: parseHighlights(feedback.highlights) },
+  };
+};
+
+/**
+ * Add a timestamped comment to a submitted assignment
+ */
+export const addReviewComment = async (assignmentId: string, coach: Viewer, input: ReviewCommentInput) => {
+  const assignment = await findCoachedAssignment(assignmentId, coach);
+  if (!assignment.sessionId) {
+    throw assignmentError('Nothing has been submitted yet', 409);
+  }
+
+  if (input.target === 'highlight') {
+    const feedback = await prisma.feedback.findUnique({
+      where: { sessionId: assignment.sessionId },
+      select: { highlights: true },
+    });
+    const highlights = parseHighlights(feedback?.highlights ?? null);
+    if (input.highlightIndex == null || input.highlightIndex < 0 || input.highlightIndex >= highlights.length) {
+      throw assignmentError('highlightIndex does not match a feedback highlight', 400);
+    }
+  }
+
+  return prisma.reviewComment.create({
+    data: {
+      assignmentId,
+      authorId: coach.id,
+      target: input.target || 'general',
+      offsetSeconds: input.offsetSeconds ?? null,
+      highlightIndex: input.target === 'highlight' ? input.highlightIndex : null,
+      quote: input.quote || null,
+      body: input.body,
+    },
+    include: { author: { select: { id: true, name: true } } },
+  });
+};
+
+/**
+ * Mark a submitted assignment as reviewed
+ */
+export const completeReview = async (assignmentId: string, coach: Viewer) => {
+  const assignment = await findCoachedAssignment(assignmentId, coach);
+  if (assignment.status !== 'submitted') {
+    throw assignmentError('Only submitted assignments can be reviewed', 409);
+  }
+
+  return prisma.assignment.update({
+    where: { id: assignmentId },
+    data: { status: 'reviewed', reviewedAt: new Date() },
+  });
+};
@@ -1,21 +1,34 @@
 import jwt from 'jsonwebtoken';
 import bcryptjs from 'bcryptjs';
+import { createHash, randomUUID } from 'crypto';
 import { prisma } from '../db';
+import { AppError } from '../middleware/errorHandler';
 
-const JWT_SECRET = process.env.JWT_SECRET;
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET;
 const ACCESS_TOKEN_EXPIRY = '15m';
 const REFRESH_TOKEN_EXPIRY = '7d';
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_EXPIRY = '5m';
 const BCRYPT_ROUNDS = 12;
 
-// Validate required secrets on import
-if (!JWT_SECRET || !JWT_REFRESH_SECRET) {
-  throw new Error('JWT_SECRET and JWT_REFRESH_SECRET environment variables are required');
-}
+// Read on use rather than on import, so tooling that only loads the route
+// definitions (e.g. API type generation) runs without secrets; startup
+// validation in config.ts makes sure the server has them
+const requireSecret = (name: 'JWT_SECRET' | 'JWT_REFRESH_SECRET'): string => {
+  const secret = process.env[name];
+  if (!secret) {
+    throw new Error(`${name} environment variable is required`);
+  }
+  return secret;
+};
+
+export type PermissionRole = 'learner' | 'coach' | 'admin';
+
+export const PERMISSION_ROLES: PermissionRole[] = ['learner', 'coach', 'admin'];
 
 export interface TokenPayload {
   userId: string;
   email: string;
+  permissionRole: PermissionRole;
 }
 
 export interface AuthTokens {
@@ -24,12 +37,88 @@ export interface AuthTokens {
   expiresIn: number;
 }
 
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: Date;
+  current: boolean;
+}
+
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Sign a refresh token and persist its hash, starting a new device family unless one is given
+ */
+const issueRefreshToken = async (
+  payload: TokenPayload,
+  device: DeviceInfo,
+  familyId: string = randomUUID()
+) => {
+  const id = randomUUID();
+  const refreshToken = jwt.sign(
+    { userId: payload.userId, email: payload.email, permissionRole: payload.permissionRole },
+    requireSecret('JWT_REFRESH_SECRET'),
+    { expiresIn: REFRESH_TOKEN_EXPIRY, jwtid: id }
+  );
+
+  await prisma.refreshToken.create({
+    data: {
+      id,
+      userId: payload.userId,
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return { id, refreshToken };
+};
+
+/**
+ * Revoke every active token in a device family
+ */
+const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Look up the device family a refresh token belongs to
+ */
+const findTokenFamily = async (refreshToken?: string): Promise<string | null> => {
+  if (!refreshToken) return null;
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { familyId: true },
+  });
+
+  return stored?.familyId || null;
+};
+
 /**
- * Generate both access and refresh tokens
+ * Generate both access and refresh tokens for a new device sign-in
  */
-export const generateTokens = (payload: TokenPayload): AuthTokens => {
-  const accessToken = jwt.sign(payload, JWT_SECRET!, { expiresIn: ACCESS_TOKEN_EXPIRY });
-  const refreshToken = jwt.sign(payload, JWT_REFRESH_SECRET!, { expiresIn: REFRESH_TOKEN_EXPIRY });
+export const generateTokens = async (payload: TokenPayload, device: DeviceInfo = {}): Promise<AuthTokens> => {
+  const accessToken = jwt.sign(payload, requireSecret('JWT_SECRET'), { expiresIn: ACCESS_TOKEN_EXPIRY });
+  const { refreshToken } = await issueRefreshToken(payload, device);
   
   return {
     accessToken,
@@ -39,12 +128,163 @@ export const generateTokens = (payload: TokenPayload): AuthTokens => {
 };
 
 /**
- * Generate access token from refresh token
+ * Rotate a refresh token: the presented token is revoked and a new pair is issued.
+ * Presenting an already-rotated token revokes the whole device family.
+ */
+export const refreshAccessToken = async (
+  refreshToken: string,
+  device: DeviceInfo = {}
+): Promise<AuthTokens | null> => {
+  try {
+    jwt.verify(refreshToken, requireSecret('JWT_REFRESH_SECRET'));
+  } catch {
+    return null;
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: { select: { id: true, email: true, permissionRole: true, disabledAt: true } } },
+  });
+
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.revokedAt) {
+    // Reuse of a rotated token means it was copied - sign out that device everywhere
+    await revokeTokenFamily(stored.familyId);
+    return null;
+  }
+
+  if (stored.expiresAt <= new Date() || stored.user.disabledAt) {
+    return null;
+  }
+
+  // Re-read the role so promotions and demotions apply on the next refresh
+  const payload: TokenPayload = {
+    userId: stored.user.id,
+    email: stored.user.email,
+    permissionRole: stored.user.permissionRole as PermissionRole,
+  };
+  const next = await issueRefreshToken(payload, {
+    userAgent: device.userAgent ?? stored.userAgent ?? undefined,
+    ipAddress: device.ipAddress ?? stored.ipAddress ?? undefined,
+  }, stored.familyId);
+
+  // Only the first concurrent rotation wins; a loser is treated as reuse
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date(), replacedById: next.id, lastUsedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeTokenFamily(stored.familyId);
+    return null;
+  }
+
+  return {
+    accessToken: jwt.sign(payload, requireSecret('JWT_SECRET'), { expiresIn: ACCESS_TOKEN_EXPIRY }),
+    refreshToken: next.refreshToken,
+    expiresIn: 900,
+  };
+};
+
+/**
+ * Revoke the device session a refresh token belongs to (logout)
+ */
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  const familyId = await findTokenFamily(refreshToken);
+  if (familyId) {
+    await revokeTokenFamily(familyId);
+  }
+};
+
+/**
+ * List the user's signed-in devices, flagging the one making the request
+ */
+export const listDeviceSessions = async (
+  userId: string,
+  currentRefreshToken?: string
+): Promise<DeviceSession[]> => {
+  const currentFamilyId = await findTokenFamily(currentRefreshToken);
+
+  const tokens = await prisma.refreshToken.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return tokens.map(token => ({
+    id: token.familyId,
+    userAgent: token.userAgent,
+    ipAddress: token.ipAddress,
+    lastUsedAt: token.lastUsedAt,
+    current: token.familyId === currentFamilyId,
+  }));
+};
+
+/**
+ * Sign out one of the user's devices
+ */
+export const revokeDeviceSession = async (userId: string, familyId: string): Promise<boolean> => {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Sign out every device except the one making the request
+ */
+export const revokeOtherDeviceSessions = async (
+  userId: string,
+  currentRefreshToken?: string
+): Promise<number> => {
+  const currentFamilyId = await findTokenFamily(currentRefreshToken);
+
+  const { count } = await prisma.refreshToken.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(currentFamilyId && { familyId: { not: currentFamilyId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
+
+/**
+ * Sign out every device, including the one making the request
  */
-export const refreshAccessToken = (refreshToken: string): string | null => {
+export const revokeAllDeviceSessions = async (userId: string): Promise<number> => {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
+
+// Challenge tokens use a derived secret so they can never pass as access tokens
+const twoFactorChallengeSecret = () => `${requireSecret('JWT_SECRET')}:2fa-challenge`;
+
+/**
+ * Issue a short-lived token proving the password step succeeded for a 2FA account
+ */
+export const createTwoFactorChallenge = (userId: string): TwoFactorChallenge => ({
+  twoFactorRequired: true,
+  challengeToken: jwt.sign({ userId }, twoFactorChallengeSecret(), { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY }),
+});
+
+/**
+ * Verify a 2FA challenge token and return its user id
+ */
+export const verifyTwoFactorChallenge = (challengeToken: string): string | null => {
   try {
-    const payload = jwt.verify(refreshToken, JWT_REFRESH_SECRET!) as TokenPayload;
-    return jwt.sign(payload, JWT_SECRET!, { expiresIn: ACCESS_TOKEN_EXPIRY });
+    const payload = jwt.verify(challengeToken, twoFactorChallengeSecret()) as { userId: string };
+    return payload.userId;
   } catch {
     return null;
   }
@@ -55,7 +295,7 @@ export const refreshAccessToken = (refreshToken: string): string | null => {
  */
 export const verifyToken = (token: string): TokenPayload | null => {
   try {
-    return jwt.verify(token, JWT_SECRET!) as TokenPayload;
+    return jwt.verify(token, requireSecret('JWT_SECRET')) as TokenPayload;
   } catch {
     return null;
   }
@@ -77,6 +317,17 @@ export const verifyPassword = async (password: string, hash: string): Promise<bo
 };
 
 
+/**
+ * Reject sign-in for accounts an admin has disabled
+ */
+export const assertAccountEnabled = (user: { disabledAt: Date | null }): void => {
+  if (user.disabledAt) {
+    const error: AppError = new Error('Account disabled');
+    error.statusCode = 403;
+    throw error;
+  }
+};
+
 /**
  * Create new user with secure password
  */
@@ -104,6 +355,7 @@ export const createUser = async (
       email: true,
       name: true,
       role: true,
+      permissionRole: true,
     },
   });
   
@@ -111,15 +363,15 @@ export const createUser = async (
 };
 
 /**
- * Authenticate user and return secure response
+ * Authenticate user and return secure response, or a challenge when 2FA is enabled
  */
 export const authenticateUser = async (email: string, password: string) => {
   const user = await prisma.user.findUnique({
     where: { email: email.toLowerCase().trim() },
   });
 
-  if (!user) {
-    // Don't reveal whether email exists
+  if (!user || !user.passwordHash) {
+    // Don't reveal whether email exists or is a federated account
     throw new Error('Invalid credentials');
   }
 
@@ -128,6 +380,13 @@ export const authenticateUser = async (email: string, password: string) => {
     throw new Error('Invalid credentials');
   }
 
+  assertAccountEnabled(user);
+
+  // Hand off to the /login/2fa step before issuing any tokens
+  if (user.totpEnabledAt) {
+    return createTwoFactorChallenge(user.id);
+  }
+
   // Update last active time
   await prisma.user.update({
     where: { id: user.id },
@@ -139,6 +398,8 @@ export const authenticateUser = async (email: string, password: string) => {
     email: user.email,
     name: user.name,
     role: user.role,
+    permissionRole: user.permissionRole,
+    emailVerified: !!user.emailVerifiedAt,
   };
 };
 
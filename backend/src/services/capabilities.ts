@@ -0,0 +1,575 @@
+import { callGemini, GeminiRequest } from './gemini';
+import { evictCachedResponse } from './responseCache';
+import { llmError } from './llmResilience';
+import { JsonSchema, validateJsonSchema, extractJson } from './jsonSchema';
+import { PROMPTS, PromptTemplate, renderPrompt } from './prompts';
+
+/**
+ * The single-shot AI tools behind the learning features (job search, accent
+ * and video analysis, resume tools, listening scenarios, speech). Models and
+ * response schemas live here and prompts in services/prompts.ts, so the
+ * frontend only sends inputs.
+ */
+
+const FAST_MODEL = 'gemini-2.5-flash';
+const REASONING_MODEL = 'gemini-3-pro-preview';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const REASONING_THINKING_BUDGET = 32768;
+
+// Long thinking and long audio take well past the default LLM_TIMEOUT_MS
+const REASONING_TIMEOUT_MS = 2 * 60 * 1000;
+const SPEECH_TIMEOUT_MS = 60 * 1000;
+
+const MAX_JSON_ATTEMPTS = 2;
+const MAX_DOCUMENT_CHARS = 10000; // Per resume or job description sent to the model
+export const MAX_VIDEO_FRAMES = 20;
+
+/**
+ * How long identical requests are answered from the response cache, by
+ * requestType. Job listings go stale quickly; recordings and video frames are
+ * never repeated, so those endpoints aren't cached.
+ */
+const CACHE_TTL_SECONDS: Record<string, number> = {
+  gemini_job_search: 60 * 60,
+  gemini_cultural_translate: 7 * 24 * 60 * 60,
+  gemini_gap_analysis: 24 * 60 * 60,
+  gemini_ats_analysis: 24 * 60 * 60,
+  gemini_resume_optimize: 24 * 60 * 60,
+  gemini_presentation_analysis: 24 * 60 * 60,
+  gemini_listening_scenario: 24 * 60 * 60,
+  gemini_speech: 30 * 24 * 60 * 60,
+  gemini_bio: 24 * 60 * 60,
+};
+
+export interface CapabilityOptions {
+  bypassCache?: boolean; // Always call the model, e.g. to regenerate an answer
+}
+
+export const SPEECH_VOICES = ['Kore', 'Fenrir', 'Puck', 'Zephyr', 'Charon'] as const;
+export const RESUME_INTENSITIES = ['strict', 'creative'] as const;
+export type ResumeIntensity = typeof RESUME_INTENSITIES[number];
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+const score: JsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+
+export interface JobListing {
+  title: string;
+  company: string;
+  location: string;
+  description: string;
+  url?: string;
+}
+
+const JOB_SEARCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['jobs'],
+  properties: {
+    jobs: {
+      type: 'array',
+      maxItems: 10,
+      items: {
+        type: 'object',
+        required: ['title', 'company', 'location', 'description'],
+        properties: {
+          title: { type: 'string' },
+          company: { type: 'string' },
+          location: { type: 'string' },
+          description: { type: 'string' },
+          url: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+export interface AccentAnalysis {
+  score: number;
+  feedback: string[];
+}
+
+const ACCENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['score', 'feedback'],
+  properties: {
+    score,
+    feedback: { ...stringList, minItems: 1 },
+  },
+};
+
+export interface VideoAnalysis {
+  confidence: string;
+  nonVerbal: string[];
+  consistency: string;
+}
+
+const VIDEO_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['confidence', 'nonVerbal', 'consistency'],
+  properties: {
+    confidence: { type: 'string', description: 'How the speaker\'s confidence evolved over the answer' },
+    nonVerbal: { ...stringList, description: 'Observed non-verbal cues: posture, eye contact, gestures, expression' },
+    consistency: { type: 'string', description: 'Whether body language matched what was said' },
+  },
+};
+
+export interface CulturalTranslation {
+  perception: string;
+  hiddenMeaning: string;
+  alternatives: string[];
+}
+
+const CULTURAL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['perception', 'hiddenMeaning', 'alternatives'],
+  properties: {
+    perception: { type: 'string' },
+    hiddenMeaning: { type: 'string' },
+    alternatives: stringList,
+  },
+};
+
+export interface GapAnalysis {
+  missingHardSkills: string[];
+  missingSoftSkills: string[];
+  experienceGaps: string[];
+  score: number;
+}
+
+const GAP_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['missingHardSkills', 'missingSoftSkills', 'experienceGaps', 'score'],
+  properties: {
+    missingHardSkills: stringList,
+    missingSoftSkills: stringList,
+    experienceGaps: stringList,
+    score,
+  },
+};
+
+export interface PresentationAnalysis {
+  summary: string;
+  qa: Array<{ question: string; answer: string }>;
+  improvements: string[];
+}
+
+const PRESENTATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'qa', 'improvements'],
+  properties: {
+    summary: { type: 'string' },
+    qa: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['question', 'answer'],
+        properties: { question: { type: 'string' }, answer: { type: 'string' } },
+      },
+    },
+    improvements: stringList,
+  },
+};
+
+export interface ListeningScenario {
+  title: string;
+  context: string;
+  transcript: string;
+  vocabulary: Array<{ term: string; definition: string }>;
+  questions: Array<{ id: number; question: string; options: string[]; correctAnswer: number }>;
+}
+
+const LISTENING_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['title', 'context', 'transcript', 'vocabulary', 'questions'],
+  properties: {
+    title: { type: 'string' },
+    context: { type: 'string', description: 'Where the conversation happens and how it sounds' },
+    transcript: { type: 'string' },
+    vocabulary: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['term', 'definition'],
+        properties: { term: { type: 'string' }, definition: { type: 'string' } },
+      },
+    },
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'question', 'options', 'correctAnswer'],
+        properties: {
+          id: { type: 'integer' },
+          question: { type: 'string' },
+          options: { ...stringList, minItems: 2 },
+          correctAnswer: { type: 'integer', minimum: 0, description: 'Index into options' },
+        },
+      },
+    },
+  },
+};
+
+export interface AtsAnalysis {
+  score: number;
+  missingKeywords: string[];
+  formattingIssues: string[];
+  improvementTips: string[];
+}
+
+const ATS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['score', 'missingKeywords', 'formattingIssues', 'improvementTips'],
+  properties: {
+    score,
+    missingKeywords: stringList,
+    formattingIssues: stringList,
+    improvementTips: stringList,
+  },
+};
+
+export interface OptimizedResume {
+  fullName: string;
+  contactInfo: string;
+  summary: string;
+  experience: Array<{ company: string; role: string; dates: string; bullets: string[] }>;
+  education: Array<{ school: string; degree: string; year: string }>;
+  skills: { technical: string[]; soft: string[]; tools: string[] };
+}
+
+const RESUME_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['fullName', 'contactInfo', 'summary', 'experience', 'education', 'skills'],
+  properties: {
+    fullName: { type: 'string' },
+    contactInfo: { type: 'string', description: 'Email, phone, location and links on one line' },
+    summary: { type: 'string' },
+    experience: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['company', 'role', 'dates', 'bullets'],
+        properties: {
+          company: { type: 'string' },
+          role: { type: 'string' },
+          dates: { type: 'string' },
+          bullets: stringList,
+        },
+      },
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['school', 'degree', 'year'],
+        properties: {
+          school: { type: 'string' },
+          degree: { type: 'string' },
+          year: { type: 'string' },
+        },
+      },
+    },
+    skills: {
+      type: 'object',
+      required: ['technical', 'soft', 'tools'],
+      properties: { technical: stringList, soft: stringList, tools: stringList },
+    },
+  },
+};
+
+const invalidResponseError = () => llmError('invalid_output');
+
+const truncate = (text: string): string => text.slice(0, MAX_DOCUMENT_CHARS);
+
+// The prompt fields of a request built from the active version of a template
+const fromTemplate = async <V extends string>(
+  template: PromptTemplate<V>,
+  variables: Record<V, string | number>
+): Promise<Pick<GeminiRequest, 'prompt' | 'systemPrompt' | 'template'>> => {
+  const rendered = await renderPrompt(template, variables);
+  return {
+    prompt: rendered.user,
+    ...(rendered.system && { systemPrompt: rendered.system }),
+    template: { id: rendered.id, version: rendered.version },
+  };
+};
+
+// Cache the request for its endpoint's TTL, if it has one
+const withCache = (req: GeminiRequest, options: CapabilityOptions): GeminiRequest => {
+  const ttlSeconds = CACHE_TTL_SECONDS[req.requestType!];
+  return ttlSeconds ? { ...req, cache: { ttlSeconds, bypass: options.bypassCache } } : req;
+};
+
+/**
+ * Call the model for JSON matching a schema. If the reply doesn't parse or
+ * validate, the model is shown the errors and asked once more.
+ * Search-grounded requests can't use JSON mode, so for those the schema is
+ * only described in the prompt.
+ */
+const generateJson = async <T>(
+  req: GeminiRequest,
+  schema: JsonSchema,
+  options: CapabilityOptions = {}
+): Promise<T> => {
+  const modelOptions = req.options?.googleSearch
+    ? req.options
+    : { ...req.options, responseJsonSchema: schema };
+  let conversationHistory: Array<{ role: string; content: string }> = [];
+  let prompt = req.prompt;
+
+  for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+    // Only the first attempt counts towards metrics like video analyses, or is worth caching
+    const response = attempt === 1
+      ? await callGemini(withCache({ ...req, options: modelOptions }, options))
+      : await callGemini({ ...req, prompt, conversationHistory, options: modelOptions, meters: undefined });
+
+    let errors: string[];
+    try {
+      const value = extractJson(response.text);
+      errors = validateJsonSchema(schema, value);
+      if (errors.length === 0) return value as T;
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : 'Reply was not valid JSON'];
+    }
+    if (response.cacheKey) await evictCachedResponse(response.cacheKey);
+
+    console.warn(`Invalid ${req.requestType} response (attempt ${attempt}):`, errors);
+    conversationHistory = [
+      { role: 'user', content: req.prompt },
+      { role: 'model', content: response.text },
+    ];
+    prompt = (await renderPrompt(PROMPTS.jsonRepair, {
+      errors: errors.map(error => `- ${error}`).join('\n'),
+    })).user;
+  }
+
+  throw invalidResponseError();
+};
+
+/**
+ * Find current remote-friendly job listings with Google Search grounding
+ */
+export const searchJobs = async (
+  userId: string,
+  query: string,
+  userRole: string,
+  options: CapabilityOptions = {}
+): Promise<JobListing[]> => {
+  const result = await generateJson<{ jobs: JobListing[] }>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_job_search',
+    ...await fromTemplate(PROMPTS.jobSearch, { userRole, query }),
+    options: { model: FAST_MODEL, googleSearch: true },
+  }, JOB_SEARCH_SCHEMA, options);
+
+  return result.jobs;
+};
+
+/**
+ * Score a recording of the user reading a reference phrase aloud
+ */
+export const analyzeAccent = async (
+  userId: string,
+  audio: { mimeType: string; data: string },
+  referenceText: string
+): Promise<AccentAnalysis> => {
+  return generateJson<AccentAnalysis>({
+    userId,
+    featureType: 'accent',
+    requestType: 'gemini_accent_analysis',
+    ...await fromTemplate(PROMPTS.accentAnalysis, { referenceText }),
+    media: [audio],
+    options: { model: FAST_MODEL },
+  }, ACCENT_SCHEMA);
+};
+
+/**
+ * Analyze non-verbal communication across frames sampled from a video answer.
+ * Long recordings are thinned out evenly to MAX_VIDEO_FRAMES.
+ */
+export const analyzeVideoSession = async (
+  userId: string,
+  frames: string[],
+  transcript: string,
+  question: string
+): Promise<VideoAnalysis> => {
+  const step = Math.max(1, frames.length / MAX_VIDEO_FRAMES);
+  const sampled = Array.from(
+    { length: Math.min(frames.length, MAX_VIDEO_FRAMES) },
+    (_, i) => frames[Math.floor(i * step)]
+  );
+
+  return generateJson<VideoAnalysis>({
+    userId,
+    featureType: 'video',
+    requestType: 'gemini_video_analysis',
+    meters: { videoAnalyses: 1 },
+    ...await fromTemplate(PROMPTS.videoAnalysis, { question, transcript: truncate(transcript) }),
+    media: sampled.map(data => ({ mimeType: 'image/jpeg', data })),
+    options: { model: FAST_MODEL },
+  }, VIDEO_SCHEMA);
+};
+
+/**
+ * Explain how a phrase lands in US corporate culture and suggest alternatives
+ */
+export const culturalTranslate = async (
+  userId: string,
+  phrase: string,
+  options: CapabilityOptions = {}
+): Promise<CulturalTranslation> => {
+  return generateJson<CulturalTranslation>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_cultural_translate',
+    ...await fromTemplate(PROMPTS.culturalTranslate, { phrase }),
+    options: { model: FAST_MODEL },
+  }, CULTURAL_SCHEMA, options);
+};
+
+/**
+ * Compare a resume against a job description and list what is missing
+ */
+export const gapAnalysis = async (
+  userId: string,
+  resumeText: string,
+  jobDescription: string,
+  options: CapabilityOptions = {}
+): Promise<GapAnalysis> => {
+  return generateJson<GapAnalysis>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_gap_analysis',
+    ...await fromTemplate(PROMPTS.gapAnalysis, {
+      resumeText: truncate(resumeText),
+      jobDescription: truncate(jobDescription),
+    }),
+    options: { model: REASONING_MODEL, thinkingBudget: REASONING_THINKING_BUDGET },
+    timeoutMs: REASONING_TIMEOUT_MS,
+  }, GAP_SCHEMA, options);
+};
+
+/**
+ * Summarize a presentation, anticipate audience questions and suggest improvements
+ */
+export const analyzePresentation = async (
+  userId: string,
+  text: string,
+  options: CapabilityOptions = {}
+): Promise<PresentationAnalysis> => {
+  return generateJson<PresentationAnalysis>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_presentation_analysis',
+    ...await fromTemplate(PROMPTS.presentationAnalysis, { text: truncate(text) }),
+    options: { model: REASONING_MODEL, thinkingBudget: REASONING_THINKING_BUDGET },
+    timeoutMs: REASONING_TIMEOUT_MS,
+  }, PRESENTATION_SCHEMA, options);
+};
+
+/**
+ * Write a workplace listening exercise with vocabulary and comprehension questions
+ */
+export const generateListeningScenario = async (
+  userId: string,
+  topic: string,
+  difficulty: string,
+  options: CapabilityOptions = {}
+): Promise<ListeningScenario> => {
+  return generateJson<ListeningScenario>({
+    userId,
+    featureType: 'listening',
+    requestType: 'gemini_listening_scenario',
+    ...await fromTemplate(PROMPTS.listeningScenario, { topic, difficulty }),
+    options: { model: FAST_MODEL },
+  }, LISTENING_SCHEMA, options);
+};
+
+/**
+ * Read text aloud. Returns base64 16-bit PCM at 24 kHz.
+ */
+export const generateSpeech = async (
+  userId: string,
+  text: string,
+  voiceName: string,
+  options: CapabilityOptions = {}
+): Promise<string> => {
+  const response = await callGemini(withCache({
+    userId,
+    featureType: 'listening',
+    requestType: 'gemini_speech',
+    meters: { ttsCharacters: text.length },
+    prompt: text,
+    options: { model: SPEECH_MODEL, speech: { voiceName } },
+    timeoutMs: SPEECH_TIMEOUT_MS,
+  }, options));
+
+  if (!response.audio) {
+    throw invalidResponseError();
+  }
+  return response.audio.data;
+};
+
+/**
+ * Check how a resume would fare in an applicant tracking system for a job
+ */
+export const analyzeATS = async (
+  userId: string,
+  resumeText: string,
+  jobDescription: string,
+  options: CapabilityOptions = {}
+): Promise<AtsAnalysis> => {
+  return generateJson<AtsAnalysis>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_ats_analysis',
+    ...await fromTemplate(PROMPTS.atsAnalysis, {
+      resumeText: truncate(resumeText),
+      jobDescription: truncate(jobDescription),
+    }),
+    options: { model: FAST_MODEL },
+  }, ATS_SCHEMA, options);
+};
+
+/**
+ * Rewrite a resume for a job as structured sections
+ */
+export const optimizeResume = async (
+  userId: string,
+  resumeText: string,
+  jobDescription: string,
+  intensity: ResumeIntensity,
+  options: CapabilityOptions = {}
+): Promise<OptimizedResume> => {
+  const template = intensity === 'strict' ? PROMPTS.resumeOptimizeStrict : PROMPTS.resumeOptimizeCreative;
+
+  return generateJson<OptimizedResume>({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_resume_optimize',
+    ...await fromTemplate(template, {
+      resumeText: truncate(resumeText),
+      jobDescription: truncate(jobDescription),
+    }),
+    options: { model: FAST_MODEL },
+  }, RESUME_SCHEMA, options);
+};
+
+/**
+ * Write a professional bio for a platform such as LinkedIn
+ */
+export const generateBio = async (
+  userId: string,
+  context: string,
+  platform: string,
+  options: CapabilityOptions = {}
+): Promise<string> => {
+  const response = await callGemini(withCache({
+    userId,
+    featureType: 'writing',
+    requestType: 'gemini_bio',
+    ...await fromTemplate(PROMPTS.bio, { platform, context }),
+    options: { model: FAST_MODEL },
+  }, options));
+  return response.text;
+};
@@ -0,0 +1,230 @@
+/**
+ * Shape of the structured feedback stored for a session, and a strict validator
+ * for model output. Scores are 0-100.
+ */
+
+export interface ScoredComment {
+  score: number;
+  feedback: string;
+}
+
+export type HighlightType = 'strength' | 'improvement';
+export const HIGHLIGHT_TYPES: HighlightType[] = ['strength', 'improvement'];
+
+export interface FeedbackHighlight {
+  timestamp: number | null; // Seconds into the session, when known
+  text: string;
+  type: HighlightType;
+}
+
+export interface StructuredFeedback {
+  overview: {
+    score: number;
+    scoreChange: number | null; // Against the previous session of the same feature
+    timeOnTask: number; // Seconds
+    completionRate: number;
+  };
+  breakdown: {
+    communication: {
+      clarity: ScoredComment;
+      pace: ScoredComment;
+      tone: ScoredComment;
+      confidence: ScoredComment;
+    };
+    content: {
+      relevance: ScoredComment;
+      structure: ScoredComment;
+    };
+  };
+  highlights: FeedbackHighlight[];
+  actionItems: string[];
+}
+
+// The part of StructuredFeedback the model is asked to produce
+export type ModelFeedback = Pick<StructuredFeedback, 'breakdown' | 'highlights' | 'actionItems'> & {
+  overview: { score: number };
+};
+
+export interface FeedbackValidationResult {
+  value?: ModelFeedback;
+  errors: string[];
+}
+
+const COMMUNICATION_KEYS = ['clarity', 'pace', 'tone', 'confidence'] as const;
+const CONTENT_KEYS = ['relevance', 'structure'] as const;
+const MAX_HIGHLIGHTS = 10;
+const MAX_ACTION_ITEMS = 5;
+
+/**
+ * JSON schema sent to the model so it knows exactly what to return
+ */
+export const MODEL_FEEDBACK_SCHEMA = `{
+  "overview": { "score": number 0-100 },
+  "breakdown": {
+    "communication": {
+      "clarity": { "score": number 0-100, "feedback": string },
+      "pace": { "score": number 0-100, "feedback": string },
+      "tone": { "score": number 0-100, "feedback": string },
+      "confidence": { "score": number 0-100, "feedback": string }
+    },
+    "content": {
+      "relevance": { "score": number 0-100, "feedback": string },
+      "structure": { "score": number 0-100, "feedback": string }
+    }
+  },
+  "highlights": [ { "timestamp": seconds into the session or null, "text": string, "type": "strength" | "improvement" } ] (at most ${MAX_HIGHLIGHTS}),
+  "actionItems": [ string ] (1-${MAX_ACTION_ITEMS} items)
+}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isScore = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+};
+
+const validateScoredComment = (value: unknown, path: string, errors: string[]): void => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isScore(value.score)) {
+    errors.push(`${path}.score must be a number between 0 and 100`);
+  }
+  if (typeof value.feedback !== 'string' || !value.feedback.trim()) {
+    errors.push(`${path}.feedback must be a non-empty string`);
+  }
+};
+
+/**
+ * Check a parsed value against the model feedback schema, collecting every error
+ */
+export const validateModelFeedback = (value: unknown): FeedbackValidationResult => {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { errors: ['Feedback must be a JSON object'] };
+  }
+
+  if (!isObject(value.overview) || !isScore(value.overview.score)) {
+    errors.push('overview.score must be a number between 0 and 100');
+  }
+
+  const breakdown = value.breakdown;
+  if (!isObject(breakdown)) {
+    errors.push('breakdown must be an object');
+  } else {
+    const communication = breakdown.communication;
+    const content = breakdown.content;
+
+    if (!isObject(communication)) {
+      errors.push('breakdown.communication must be an object');
+    } else {
+      COMMUNICATION_KEYS.forEach(key =>
+        validateScoredComment(communication[key], `breakdown.communication.${key}`, errors)
+      );
+    }
+
+    if (!isObject(content)) {
+      errors.push('breakdown.content must be an object');
+    } else {
+      CONTENT_KEYS.forEach(key =>
+        validateScoredComment(content[key], `breakdown.content.${key}`, errors)
+      );
+    }
+  }
+
+  if (!Array.isArray(value.highlights) || value.highlights.length > MAX_HIGHLIGHTS) {
+    errors.push(`highlights must be an array of at most ${MAX_HIGHLIGHTS} items`);
+  } else {
+    value.highlights.forEach((highlight, i) => {
+      if (!isObject(highlight)) {
+        errors.push(`highlights[${i}] must be an object`);
+        return;
+      }
+      const { timestamp } = highlight;
+      if (timestamp !== null && !(typeof timestamp === 'number' && Number.isFinite(timestamp) && timestamp >= 0)) {
+        errors.push(`highlights[${i}].timestamp must be a non-negative number or null`);
+      }
+      if (typeof highlight.text !== 'string' || !highlight.text.trim()) {
+        errors.push(`highlights[${i}].text must be a non-empty string`);
+      }
+      if (!HIGHLIGHT_TYPES.includes(highlight.type as HighlightType)) {
+        errors.push(`highlights[${i}].type must be one of: ${HIGHLIGHT_TYPES.join(', ')}`);
+      }
+    });
+  }
+
+  if (
+    !Array.isArray(value.actionItems)
+    || value.actionItems.length === 0
+    || value.actionItems.length > MAX_ACTION_ITEMS
+    || value.actionItems.some(actionItem => typeof actionItem !== 'string' || !actionItem.trim())
+  ) {
+    errors.push(`actionItems must be an array of 1-${MAX_ACTION_ITEMS} non-empty strings`);
+  }
+
+  return errors.length > 0 ? { errors } : { value: value as unknown as ModelFeedback, errors };
+};
+
+const clampScore = (value: unknown): unknown => {
+  const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) return value;
+  return Math.round(Math.min(100, Math.max(0, numeric)) * 10) / 10;
+};
+
+const repairScoredComment = (value: unknown): unknown => {
+  return isObject(value) ? { ...value, score: clampScore(value.score) } : value;
+};
+
+const repairGroup = (group: unknown, keys: readonly string[]): unknown => {
+  if (!isObject(group)) return group;
+  return {
+    ...group,
+    ...Object.fromEntries(keys.map(key => [key, repairScoredComment(group[key])])),
+  };
+};
+
+/**
+ * Fix the mechanical mistakes a model makes without changing its judgement:
+ * numeric strings, out-of-range scores, string timestamps and overlong lists.
+ * Anything still wrong afterwards is left for validateModelFeedback to report.
+ */
+export const repairModelFeedback = (value: unknown): unknown => {
+  if (!isObject(value)) return value;
+
+  const breakdown = isObject(value.breakdown)
+    ? {
+        ...value.breakdown,
+        communication: repairGroup(value.breakdown.communication, COMMUNICATION_KEYS),
+        content: repairGroup(value.breakdown.content, CONTENT_KEYS),
+      }
+    : value.breakdown;
+
+  const highlights = Array.isArray(value.highlights)
+    ? value.highlights.slice(0, MAX_HIGHLIGHTS).map(highlight => {
+        if (!isObject(highlight)) return highlight;
+        const timestamp = typeof highlight.timestamp === 'string' && highlight.timestamp.trim() !== ''
+          ? Number(highlight.timestamp)
+          : highlight.timestamp;
+        return {
+          ...highlight,
+          timestamp: timestamp === undefined || Number.isNaN(timestamp) ? null : timestamp,
+          type: typeof highlight.type === 'string' ? highlight.type.toLowerCase() : highlight.type,
+        };
+      })
+    : value.highlights;
+
+  const actionItems = Array.isArray(value.actionItems)
+    ? value.actionItems.slice(0, MAX_ACTION_ITEMS)
+    : value.actionItems;
+
+  return {
+    ...value,
+    overview: isObject(value.overview) ? { ...value.overview, score: clampScore(value.overview.score) } : value.overview,
+    breakdown,
+    highlights,
+    actionItems,
+  };
+};
@@ -1,13 +1,19 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Session } from '@prisma/client';
 import { prisma } from '../db';
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-
-if (!GEMINI_API_KEY) {
-  throw new Error('GEMINI_API_KEY environment variable is required');
-}
-
-const client = new GoogleGenerativeAI(GEMINI_API_KEY);
+import { getLlmProvider, estimateUsage, LlmRequest, LlmMedia, LlmUsage } from './llm';
+import { AppError } from '../middleware/errorHandler';
+import {
+  StructuredFeedback,
+  ModelFeedback,
+  MODEL_FEEDBACK_SCHEMA,
+  repairModelFeedback,
+  validateModelFeedback,
+} from './feedbackSchema';
+import { extractJson } from './jsonSchema';
+import { recordQuotaUsage } from './plans';
+import { withResilience, streamWithResilience, llmError } from './llmResilience';
+import { responseCacheKey, getCachedResponse, setCachedResponse, CachedResponse } from './responseCache';
+import { PROMPTS, PromptRef, featureSystemPrompt, renderPrompt } from './prompts';
 
 export interface GeminiRequest {
   userId: string;
@@ -15,96 +21,332 @@ export interface GeminiRequest {
   role?: string;
   conversationHistory?: Array<{ role: string; content: string }>;
   featureType?: string;
+  systemPrompt?: string; // Defaults to the feature's system prompt template
+  template?: PromptRef; // Prompt template the request was built from, recorded on QuotaUsage
+  media?: LlmMedia[];
+  requestType?: string; // Recorded on QuotaUsage, defaults to gemini_<featureType>
+  meters?: { videoAnalyses?: number; ttsCharacters?: number }; // Plan metrics besides tokens this call counts towards
+  // Answer identical requests from the response cache for this long; bypass skips the lookup but refreshes the entry
+  cache?: { ttlSeconds: number; bypass?: boolean };
+  timeoutMs?: number; // Per attempt, defaults to LLM_TIMEOUT_MS
+  options?: Pick<LlmRequest, 'model' | 'responseJsonSchema' | 'googleSearch' | 'thinkingBudget' | 'speech'>;
 }
 
 export interface GeminiResponse {
   text: string;
   tokensUsed: number;
+  usage: LlmUsage;
   model: string;
+  audio?: LlmMedia;
+  cached?: boolean; // Served from the response cache without charging quota
+  cacheKey?: string; // Set when the reply may be cached
 }
 
-// System prompts for different features
-const SYSTEM_PROMPTS: Record<string, string> = {
-  conversation: `You are an elite communication coach helping international professionals master negotiation and high-stakes conversations. Provide real-time feedback on tone, pace, clarity, and confidence. Simulate realistic corporate scenarios and adapt difficulty based on performance.`,
+/**
+ * Fill in the feature's system prompt template when the caller gave no system
+ * prompt, recording that template unless the request names its own
+ */
+const withSystemPrompt = async (req: GeminiRequest): Promise<GeminiRequest> => {
+  const template = !req.systemPrompt && featureSystemPrompt(req.featureType);
+  if (!template) return req;
+
+  const rendered = await renderPrompt(template, {});
+  return {
+    ...req,
+    systemPrompt: rendered.system,
+    template: req.template || { id: rendered.id, version: rendered.version },
+  };
+};
+
+const buildLlmRequest = (req: GeminiRequest, signal?: AbortSignal): LlmRequest => {
+  // Build messages array
+  const messages = (req.conversationHistory || []).map(m => ({
+    role: m.role === 'user' ? 'user' as const : 'model' as const,
+    content: m.content,
+  }));
+  messages.push({
+    role: 'user',
+    content: req.prompt,
+    ...(req.media && { media: req.media }),
+  });
+
+  return { ...req.options, messages, systemPrompt: req.systemPrompt, featureType: req.featureType, signal };
+};
 
-  writing: `You are a professional resume and communication expert. Analyze resume gaps, identify industry keywords, and simulate tough interview questions. Provide specific, actionable improvements with before/after examples.`,
+/**
+ * Log quota usage from the provider's token counts, estimating over the whole
+ * request when it reported none (e.g. a stream cancelled before its last chunk)
+ */
+const recordUsage = async (
+  req: GeminiRequest,
+  llmRequest: LlmRequest,
+  model: string,
+  text: string,
+  reported?: LlmUsage
+): Promise<{ tokensUsed: number; usage: LlmUsage }> => {
+  const usage = reported || estimateUsage(llmRequest, text);
+  const tokensUsed = usage.inputTokens + usage.outputTokens;
 
-  accent: `You are a speech coach for international professionals. Focus on clarity over perfection. Provide specific exercises for problematic phonemes and track improvement over sessions.`,
+  await recordQuotaUsage({
+    userId: req.userId,
+    tokensUsed,
+    ...usage,
+    model,
+    requestType: req.requestType || 'gemini_' + (req.featureType || 'chat'),
+    featureType: req.featureType,
+    promptTemplateId: req.template?.id,
+    promptVersion: req.template?.version,
+    ...req.meters,
+  });
 
-  listening: `You are a listening comprehension coach. After presenting an audio scenario, ask comprehension questions and provide constructive feedback on understanding.`,
+  return { tokensUsed, usage };
 };
 
-export const callGemini = async (req: GeminiRequest): Promise<GeminiResponse> => {
+// Log a cached reply as a free request, noting the tokens it would have cost
+const recordCacheHit = async (req: GeminiRequest, cached: CachedResponse): Promise<void> => {
+  await recordQuotaUsage({
+    userId: req.userId,
+    tokensUsed: 0,
+    model: cached.model,
+    requestType: req.requestType || 'gemini_' + (req.featureType || 'chat'),
+    featureType: req.featureType,
+    cacheHit: true,
+    tokensSaved: cached.usage.inputTokens + cached.usage.outputTokens,
+    promptTemplateId: req.template?.id,
+    promptVersion: req.template?.version,
+  });
+};
+
+/**
+ * Send a prompt to the configured LLM provider and record the tokens used.
+ * Cacheable requests are answered from the response cache when possible.
+ */
+export const callGemini = async (geminiRequest: GeminiRequest): Promise<GeminiResponse> => {
   try {
-    const systemPrompt = SYSTEM_PROMPTS[req.featureType || 'conversation'];
+    const req = await withSystemPrompt(geminiRequest);
+    const provider = getLlmProvider();
+    const llmRequest = buildLlmRequest(req);
+    const cacheKey = req.cache && responseCacheKey(provider, llmRequest);
 
-    // Build messages array
-    const messages = req.conversationHistory || [];
-    messages.push({
-      role: 'user',
-      content: req.prompt,
-    });
+    if (cacheKey && !req.cache!.bypass) {
+      const cached = await getCachedResponse(cacheKey);
+      if (cached) {
+        await recordCacheHit(req, cached);
+        return { ...cached, tokensUsed: 0, cached: true, cacheKey };
+      }
+    }
 
-    // Call Gemini API
-    const model = client.getGenerativeModel({ model: 'gemini-pro' });
-    const response = await model.generateContent({
-      contents: messages.map(m => ({
-        role: m.role === 'user' ? 'user' : 'model',
-        parts: [{ text: m.content }],
-      })),
-    });
+    const response = await withResilience(
+      signal => provider.generate({ ...llmRequest, signal }),
+      { timeoutMs: req.timeoutMs }
+    );
+    const { tokensUsed, usage } = await recordUsage(req, llmRequest, response.model, response.text, response.usage);
 
-    const text = response.response.text();
-    
-    // Estimate tokens used (rough approximation: 1 token ≈ 4 characters)
-    const tokensUsed = Math.ceil((req.prompt.length + text.length) / 4);
-
-    // Log quota usage
-    await prisma.quotaUsage.create({
-      data: {
-        userId: req.userId,
-        tokensUsed,
-        requestType: 'gemini_' + (req.featureType || 'chat'),
-      },
-    });
+    // Empty replies are failures, e.g. speech without audio; don't keep serving them
+    if (cacheKey && (response.text || response.audio)) {
+      await setCachedResponse(cacheKey, {
+        text: response.text,
+        model: response.model,
+        usage,
+        ...(response.audio && { audio: response.audio }),
+      }, req.cache!.ttlSeconds);
+    }
 
     return {
-      text,
+      text: response.text,
       tokensUsed,
-      model: 'gemini-2.0-flash',
+      usage,
+      model: response.model,
+      ...(response.audio && { audio: response.audio }),
+      ...(cacheKey && { cached: false, cacheKey }),
     };
   } catch (error) {
     console.error('Gemini API error:', error);
-    throw new Error('Failed to process request with Gemini');
+    throw error;
+  }
+};
+
+/**
+ * Stream a reply, passing each text delta to onDelta as it arrives.
+ * When the signal aborts, generation stops and only the text produced so far is billed.
+ */
+export const streamGemini = async (
+  geminiRequest: GeminiRequest,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GeminiResponse> => {
+  const req = await withSystemPrompt(geminiRequest);
+  const provider = getLlmProvider();
+  const llmRequest = buildLlmRequest(req, signal);
+  let text = '';
+  let reported: LlmUsage | undefined;
+
+  try {
+    const chunks = streamWithResilience(
+      attemptSignal => provider.stream({ ...llmRequest, signal: attemptSignal }),
+      { signal, timeoutMs: req.timeoutMs }
+    );
+    for await (const chunk of chunks) {
+      if (signal?.aborted) break;
+      reported = chunk.usage || reported;
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onDelta(chunk.text);
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.error('Gemini API error:', error);
+      throw error;
+    }
+  }
+
+  const model = llmRequest.model || provider.model;
+  // Usage reported mid-stream covers less than was generated if we stopped early
+  const { tokensUsed, usage } = await recordUsage(req, llmRequest, model, text, signal?.aborted ? undefined : reported);
+
+  return {
+    text,
+    tokensUsed,
+    usage,
+    model,
+  };
+};
+
+const MAX_FEEDBACK_ATTEMPTS = 3;
+const MAX_TRANSCRIPT_CHARS = 20000;
+
+export type FeedbackSession = Pick<
+  Session,
+  'id' | 'userId' | 'featureType' | 'transcript' | 'userResponses' | 'durationSeconds' | 'completed' | 'createdAt'
+>;
+
+// userResponses is stored as a JSON array, but older rows may hold plain text
+const formatResponses = (userResponses: string | null): string => {
+  if (!userResponses) return '';
+  try {
+    const parsed = JSON.parse(userResponses);
+    if (Array.isArray(parsed)) {
+      return parsed.map((response, i) => `${i + 1}. ${typeof response === 'string' ? response : JSON.stringify(response)}`).join('\n');
+    }
+  } catch {
+    // Fall through to the raw text
+  }
+  return userResponses;
+};
+
+const buildFeedbackPrompt = (session: FeedbackSession) => {
+  const transcript = (session.transcript || '').slice(-MAX_TRANSCRIPT_CHARS);
+  const responses = formatResponses(session.userResponses);
+
+  return renderPrompt(PROMPTS.sessionFeedback, {
+    featureType: session.featureType,
+    durationSeconds: session.durationSeconds,
+    schema: MODEL_FEEDBACK_SCHEMA,
+    transcript: transcript && `Transcript:\n${transcript}`,
+    responses: responses && `Learner responses:\n${responses}`,
+  });
+};
+
+const buildRepairPrompt = async (errors: string[]): Promise<string> => {
+  const rendered = await renderPrompt(PROMPTS.feedbackRepair, {
+    errors: errors.map(error => `- ${error}`).join('\n'),
+  });
+  return rendered.user;
+};
+
+/**
+ * Score of the user's previous session of the same feature, preferring its generated feedback
+ */
+const getPreviousScore = async (session: FeedbackSession): Promise<number | null> => {
+  const previous = await prisma.session.findFirst({
+    where: {
+      userId: session.userId,
+      featureType: session.featureType,
+      id: { not: session.id },
+      createdAt: { lt: session.createdAt },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, score: true },
+  });
+
+  if (!previous) return null;
+
+  const feedback = await prisma.feedback.findUnique({
+    where: { sessionId: previous.id },
+    select: { score: true },
+  });
+
+  return Number(feedback?.score ?? previous.score);
+};
+
+/**
+ * Ask the model to grade a session. Output is mechanically repaired first; if
+ * it is still invalid the model is shown the validation errors and asked
+ * again, up to MAX_FEEDBACK_ATTEMPTS.
+ */
+export const gradeSession = async (session: FeedbackSession): Promise<ModelFeedback> => {
+  const feedbackPrompt = await buildFeedbackPrompt(session);
+  const initialPrompt = feedbackPrompt.user;
+  let conversationHistory: Array<{ role: string; content: string }> = [];
+  let prompt = initialPrompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_FEEDBACK_ATTEMPTS; attempt++) {
+    const response = await callGemini({
+      userId: session.userId,
+      prompt,
+      featureType: session.featureType,
+      template: feedbackPrompt,
+      conversationHistory,
+    });
+
+    try {
+      const result = validateModelFeedback(repairModelFeedback(extractJson(response.text)));
+      errors = result.errors;
+
+      if (result.value) return result.value;
+    } catch (error: any) {
+      errors = [error.message || 'Reply was not valid JSON'];
+    }
+
+    console.warn(`Invalid structured feedback for session ${session.id} (attempt ${attempt}):`, errors);
+
+    conversationHistory = [
+      { role: 'user', content: initialPrompt },
+      { role: 'model', content: response.text },
+    ];
+    prompt = await buildRepairPrompt(errors);
   }
+
+  throw llmError('invalid_output', 'Could not generate valid feedback for this session');
 };
 
+/**
+ * Grade a session and return schema-validated feedback, with the score change
+ * since the user's previous session of the same feature
+ */
 export const generateStructuredFeedback = async (
-  sessionData: any
-): Promise<any> => {
-  // This would call Gemini to generate structured feedback
-  // For now, return a template structure
+  session: FeedbackSession
+): Promise<StructuredFeedback> => {
+  if (!session.transcript?.trim() && !session.userResponses?.trim()) {
+    const error: AppError = new Error('Session has no transcript or responses to review');
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const feedback = await gradeSession(session);
+  const previousScore = await getPreviousScore(session);
+  const score = feedback.overview.score;
 
   return {
     overview: {
-      score: 0,
-      scoreChange: 0,
-      timeOnTask: 0,
-      completionRate: 0,
-    },
-    breakdown: {
-      communication: {
-        clarity: { score: 0, feedback: '' },
-        pace: { score: 0, feedback: '' },
-        tone: { score: 0, feedback: '' },
-        confidence: { score: 0, feedback: '' },
-      },
-      content: {
-        relevance: { score: 0, feedback: '' },
-        structure: { score: 0, feedback: '' },
-      },
+      score,
+      scoreChange: previousScore === null ? null : Math.round((score - previousScore) * 10) / 10,
+      timeOnTask: session.durationSeconds,
+      completionRate: session.completed ? 100 : 0,
     },
-    highlights: [],
-    actionItems: [],
+    breakdown: feedback.breakdown,
+    highlights: feedback.highlights,
+    actionItems: feedback.actionItems,
   };
 };
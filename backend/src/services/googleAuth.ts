@@ -0,0 +1,175 @@
+import jwt from 'jsonwebtoken';
+import { createPublicKey, KeyObject, JsonWebKey } from 'crypto';
+import { prisma } from '../db';
+
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS: [string, string] = ['accounts.google.com', 'https://accounts.google.com'];
+const DEFAULT_JWKS_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+
+export interface GoogleIdTokenPayload {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
+
+/**
+ * Resolves the public key used to verify an ID token signature.
+ * Tests can swap in a local key pair via setGoogleKeySource.
+ */
+export interface GoogleKeySource {
+  getKey(kid: string): Promise<KeyObject | string | null>;
+}
+
+/**
+ * Key source backed by Google's published JWKS, cached per Cache-Control max-age
+ */
+export const createGoogleJwksKeySource = (url: string = GOOGLE_JWKS_URL): GoogleKeySource => {
+  let keys = new Map<string, KeyObject>();
+  let expiresAt = 0;
+
+  const refresh = async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Google signing keys (${response.status})`);
+    }
+
+    const body = (await response.json()) as { keys: Array<JsonWebKey & { kid: string }> };
+    keys = new Map(body.keys.map(jwk => [jwk.kid, createPublicKey({ key: jwk, format: 'jwk' })]));
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+    expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_JWKS_MAX_AGE_MS);
+  };
+
+  return {
+    async getKey(kid: string) {
+      // Refetch when the cache is stale or Google has rotated in a key we haven't seen
+      if (Date.now() >= expiresAt || !keys.has(kid)) {
+        await refresh();
+      }
+      return keys.get(kid) || null;
+    },
+  };
+};
+
+let keySource: GoogleKeySource = createGoogleJwksKeySource();
+
+/**
+ * Override the key source (e.g. with a local key pair in tests)
+ */
+export const setGoogleKeySource = (source: GoogleKeySource): void => {
+  keySource = source;
+};
+
+/**
+ * Verify a Google ID token's signature, audience, issuer and expiry
+ */
+export const verifyGoogleIdToken = async (idToken: string): Promise<GoogleIdTokenPayload> => {
+  if (!GOOGLE_CLIENT_ID) {
+    throw new Error('Google sign-in is not configured');
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string' || !decoded.header.kid) {
+    throw new Error('Malformed Google ID token');
+  }
+
+  const key = await keySource.getKey(decoded.header.kid);
+  if (!key) {
+    throw new Error('Unknown Google signing key');
+  }
+
+  const payload = jwt.verify(idToken, key, {
+    algorithms: ['RS256'],
+    audience: GOOGLE_CLIENT_ID,
+    issuer: GOOGLE_ISSUERS,
+  }) as GoogleIdTokenPayload;
+
+  if (!payload.email || !payload.email_verified) {
+    throw new Error('Google account email is not verified');
+  }
+
+  return payload;
+};
+
+/**
+ * Find the user linked to a Google account, linking by email or creating one if needed.
+ * An unverified account with the same email is taken over rather than merged.
+ */
+export const findOrCreateGoogleUser = async (payload: GoogleIdTokenPayload) => {
+  const email = payload.email.toLowerCase().trim();
+  const select = {
+    id: true,
+    email: true,
+    name: true,
+    role: true,
+    permissionRole: true,
+    emailVerifiedAt: true,
+    totpEnabledAt: true,
+    disabledAt: true,
+  };
+
+  const linked = await prisma.user.findUnique({ where: { googleId: payload.sub }, select });
+  if (linked) {
+    await prisma.user.update({
+      where: { id: linked.id },
+      data: { lastActiveAt: new Date() },
+    });
+    return linked;
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing?.emailVerifiedAt) {
+    // Both we and Google have verified the address, so the accounts are the same person's
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { googleId: payload.sub, lastActiveAt: new Date() },
+      select,
+    });
+  }
+
+  if (existing) {
+    // Nobody ever proved they own this address, so whoever registered it may not be
+    // the Google user: drop their password, devices and 2FA before handing it over
+    const now = new Date();
+    const [, , , user] = await prisma.$transaction([
+      prisma.refreshToken.updateMany({
+        where: { userId: existing.id, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: existing.id } }),
+      prisma.userToken.updateMany({
+        where: { userId: existing.id, usedAt: null },
+        data: { usedAt: now },
+      }),
+      prisma.user.update({
+        where: { id: existing.id },
+        data: {
+          googleId: payload.sub,
+          emailVerifiedAt: now,
+          passwordHash: null,
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          lastActiveAt: now,
+        },
+        select,
+      }),
+    ]);
+    return user;
+  }
+
+  return prisma.user.create({
+    data: {
+      email,
+      name: (payload.name || email.split('@')[0]).trim(),
+      role: 'Professional', // Set during onboarding
+      googleId: payload.sub,
+      emailVerifiedAt: new Date(),
+      lastActiveAt: new Date(),
+    },
+    select,
+  });
+};
@@ -0,0 +1,159 @@
+/**
+ * A small subset of JSON Schema, used both to tell the model what shape to
+ * return (Gemini accepts it as responseJsonSchema) and to check what came back.
+ * Request schemas (see ../schemas) are built from it as well.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'date-time';
+  default?: unknown;
+  nullable?: boolean;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Check a value against a schema, returning every error found with the path it was found at
+ */
+export const findSchemaErrors = (schema: JsonSchema, value: unknown, path: string = '$'): SchemaError[] => {
+  const error = (message: string, at: string = path): SchemaError => ({ path: at, message });
+
+  if (value === null || value === undefined) {
+    if (value === undefined) return [error('is required')];
+    return schema.nullable ? [] : [error('must not be null')];
+  }
+
+  const errors: SchemaError[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [error(`must be an object, got ${describe(value)}`)];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(error('is required', `${path}.${key}`));
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          errors.push(...findSchemaErrors(propertySchema, record[key], `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [error(`must be an array, got ${describe(value)}`)];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(error(`must have at least ${schema.minItems} items`));
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(error(`must have at most ${schema.maxItems} items`));
+      }
+      if (schema.items) {
+        value.forEach((entry, i) => errors.push(...findSchemaErrors(schema.items!, entry, `${path}[${i}]`)));
+      }
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [error(`must be ${schema.type === 'integer' ? 'an integer' : 'a number'}, got ${describe(value)}`)];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(error(`must be at least ${schema.minimum}`));
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(error(`must be at most ${schema.maximum}`));
+      }
+      break;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [error(`must be a string, got ${describe(value)}`)];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(error(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`));
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(error(`must be at most ${schema.maxLength} characters`));
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        errors.push(error('has an invalid format'));
+      }
+      if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+        errors.push(error('must be a valid email address'));
+      }
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        errors.push(error('must be an ISO 8601 date'));
+      }
+      break;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        return [error(`must be a boolean, got ${describe(value)}`)];
+      }
+      break;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(error(`must be one of: ${schema.enum.join(', ')}`));
+  }
+
+  return errors;
+};
+
+/**
+ * Check a value against a schema, returning every error found (empty when valid)
+ */
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path: string = '$'): string[] =>
+  findSchemaErrors(schema, value, path).map(error => `${error.path} ${error.message}`);
+
+/**
+ * Pull a JSON value out of model text that may be wrapped in a code fence or prose
+ */
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  const objectStart = candidate.indexOf('{');
+  const arrayStart = candidate.indexOf('[');
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = isArray ? arrayStart : objectStart;
+  const end = candidate.lastIndexOf(isArray ? ']' : '}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON found in model output');
+  }
+
+  const json = candidate.slice(start, end + 1);
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Models commonly leave trailing commas behind
+    return JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+  }
+};
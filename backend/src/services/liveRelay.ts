@@ -0,0 +1,272 @@
+import { Server } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { prisma } from '../db';
+import { verifyToken } from './auth';
+import { getLlmProvider, LiveSession } from './llm';
+import { getQuotaStatus, findExceededLimit, getRemainingTokens, recordQuotaUsage } from './plans';
+import { PROMPTS, PromptRef, PromptTemplate, renderPrompt } from './prompts';
+import { awardXp, sessionXp } from './sessions';
+
+/**
+ * WebSocket relay for realtime voice practice. The browser never talks to the
+ * Live API itself: it streams 16 kHz PCM here and gets 24 kHz PCM back.
+ *
+ * Protocol - the client's first message must be JSON
+ *   { type: 'start', token, scenario, persona, context? }
+ * after which binary frames carry microphone audio and { type: 'stop' } hangs up.
+ * The server sends binary frames of model audio plus JSON messages:
+ *   ready, transcript { role, text }, interrupted, ended { sessionId, durationSeconds, reason, xpAwarded }, error { error }
+ */
+
+export const LIVE_PATH = '/api/gemini/live';
+
+// Voice time is billed per started minute, roughly 25 audio tokens a second each way
+export const LIVE_TOKENS_PER_MINUTE = 3000;
+const MAX_CALL_MINUTES = 30;
+const START_TIMEOUT_MS = 10 * 1000;
+const MAX_FRAME_BYTES = 64 * 1024;
+const MAX_CONTEXT_CHARS = 5000;
+
+export const LIVE_SCENARIOS: Record<string, { title: string; prompt: PromptTemplate<'context' | 'persona'> }> = {
+  intro: { title: 'Behavioral Interview', prompt: PROMPTS.liveIntro },
+  salary: { title: 'Salary Negotiation', prompt: PROMPTS.liveSalary },
+  smalltalk: { title: 'Casual Small Talk', prompt: PROMPTS.liveSmalltalk },
+  hard_feedback: { title: 'Tough Feedback', prompt: PROMPTS.liveHardFeedback },
+};
+
+const PERSONAS: Record<string, PromptTemplate> = {
+  default: PROMPTS.personaDefault,
+  skeptic: PROMPTS.personaSkeptic,
+  ally: PROMPTS.personaAlly,
+  executive: PROMPTS.personaExecutive,
+};
+
+type EndReason = 'user' | 'quota' | 'time_limit' | 'upstream_closed' | 'disconnected';
+
+interface StartMessage {
+  type: 'start';
+  token: string;
+  scenario: string;
+  persona?: string;
+  context?: string;
+}
+
+const send = (socket: WebSocket, message: object) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const fail = (socket: WebSocket, error: string, code: number = 1008) => {
+  send(socket, { type: 'error', error });
+  socket.close(code, error.slice(0, 120));
+};
+
+const parseStart = (data: RawData, isBinary: boolean): StartMessage | null => {
+  if (isBinary) return null;
+  try {
+    const message = JSON.parse(data.toString());
+    return message?.type === 'start' && typeof message.token === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+// The scenario template is what gets recorded; the persona is one of its variables
+const buildSystemPrompt = async (start: StartMessage) => {
+  const context = typeof start.context === 'string' ? start.context.slice(0, MAX_CONTEXT_CHARS) : '';
+  const persona = await renderPrompt(PERSONAS[start.persona || 'default'] || PERSONAS.default, {});
+
+  return renderPrompt(LIVE_SCENARIOS[start.scenario].prompt, {
+    context: context && `CONTEXT: ${context}`,
+    persona: persona.system || '',
+  });
+};
+
+// Whether the user has voice minutes and tokens left for another minute
+const canContinue = async (userId: string): Promise<boolean> => {
+  const status = await getQuotaStatus(userId);
+  return !findExceededLimit(status, 'conversation', ['voice_minutes'])
+    && getRemainingTokens(status, 'conversation') >= LIVE_TOKENS_PER_MINUTE;
+};
+
+// Tokens split evenly between audio in and audio out
+const chargeMinute = async (userId: string, template: PromptRef): Promise<void> => {
+  await recordQuotaUsage({
+    userId,
+    tokensUsed: LIVE_TOKENS_PER_MINUTE,
+    inputTokens: LIVE_TOKENS_PER_MINUTE / 2,
+    outputTokens: LIVE_TOKENS_PER_MINUTE / 2,
+    mediaTokens: LIVE_TOKENS_PER_MINUTE / 2,
+    model: getLlmProvider().liveModel,
+    requestType: 'gemini_live',
+    featureType: 'conversation',
+    promptTemplateId: template.id,
+    promptVersion: template.version,
+    voiceMinutes: 1,
+  });
+};
+
+/**
+ * Run one call: authenticate, open the upstream session, relay audio both ways,
+ * bill each minute and save the transcript as a conversation Session at the end
+ */
+const handleCall = async (socket: WebSocket, start: StartMessage) => {
+  const payload = verifyToken(start.token);
+  const user = payload && await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { id: true, disabledAt: true },
+  });
+
+  if (!user || user.disabledAt) {
+    return fail(socket, 'Invalid or expired token');
+  }
+  if (!LIVE_SCENARIOS[start.scenario]) {
+    return fail(socket, `scenario must be one of: ${Object.keys(LIVE_SCENARIOS).join(', ')}`);
+  }
+  if (!await canContinue(user.id)) {
+    return fail(socket, 'Voice quota exceeded');
+  }
+
+  const systemPrompt = await buildSystemPrompt(start);
+  const template: PromptRef = { id: systemPrompt.id, version: systemPrompt.version };
+  const startedAt = Date.now();
+  const transcript: Array<{ role: 'user' | 'model'; text: string }> = [];
+  let upstream: LiveSession | null = null;
+  let minuteTimer: NodeJS.Timeout | undefined;
+  let ended = false;
+
+  const endCall = async (reason: EndReason) => {
+    if (ended) return;
+    ended = true;
+    clearInterval(minuteTimer);
+    upstream?.close();
+
+    const durationSeconds = Math.round((Date.now() - startedAt) / 1000);
+    let sessionId: string | null = null;
+    let xpAwarded = 0;
+
+    if (transcript.length > 0) {
+      // Calls the user hung up on are complete; the rest were cut off
+      const completed = reason === 'user';
+      const endedAt = new Date();
+      try {
+        const session = await prisma.$transaction(async tx => {
+          const created = await tx.session.create({
+            data: {
+              userId: user.id,
+              featureType: 'conversation',
+              title: LIVE_SCENARIOS[start.scenario].title,
+              durationSeconds,
+              completed,
+              lastHeartbeatAt: endedAt,
+              ...(completed ? { completedAt: endedAt } : { abandonedAt: endedAt }),
+              promptTemplateId: template.id,
+              promptVersion: template.version,
+              transcript: transcript
+                .map(line => `${line.role === 'user' ? 'User' : 'Coach'}: ${line.text.trim()}`)
+                .join('\n'),
+            },
+          });
+          const xp = completed ? sessionXp(durationSeconds) : 0;
+          if (xp > 0) await awardXp(tx, user.id, xp);
+          return { ...created, xp };
+        });
+        sessionId = session.id;
+        xpAwarded = session.xp;
+      } catch (error) {
+        console.error('Failed to save live session:', error);
+      }
+    }
+
+    send(socket, { type: 'ended', sessionId, durationSeconds, reason, xpAwarded });
+    if (socket.readyState === WebSocket.OPEN) socket.close(1000);
+  };
+
+  try {
+    upstream = await getLlmProvider().connectLive(
+      { systemPrompt: systemPrompt.system || '' },
+      {
+        onAudio: audio => {
+          if (socket.readyState === WebSocket.OPEN) socket.send(Buffer.from(audio.data, 'base64'));
+        },
+        onTranscript: (role, text) => {
+          // Transcription arrives in fragments; join them into one line per turn
+          const last = transcript[transcript.length - 1];
+          if (last?.role === role) {
+            last.text += text;
+          } else {
+            transcript.push({ role, text });
+          }
+          send(socket, { type: 'transcript', role, text });
+        },
+        onInterrupted: () => send(socket, { type: 'interrupted' }),
+        onClose: () => { endCall('upstream_closed'); },
+      }
+    );
+    // Only a call that actually started is billed for its first minute
+    await chargeMinute(user.id, template);
+  } catch (error) {
+    console.error('Failed to open live session:', error);
+    ended = true;
+    upstream?.close();
+    return fail(socket, 'Could not start the live session', 1011);
+  }
+
+  // Bill every further minute up front, hanging up when the quota or call limit runs out
+  let minutes = 1;
+  minuteTimer = setInterval(async () => {
+    if (minutes >= MAX_CALL_MINUTES) return endCall('time_limit');
+    try {
+      if (!await canContinue(user.id)) return endCall('quota');
+      await chargeMinute(user.id, template);
+      minutes++;
+    } catch (error) {
+      console.error('Live quota check failed:', error);
+      endCall('quota');
+    }
+  }, 60 * 1000);
+
+  socket.on('message', (data: RawData, isBinary: boolean) => {
+    if (ended) return;
+    if (isBinary) {
+      upstream?.sendAudio(Buffer.from(data as Buffer).toString('base64'));
+      return;
+    }
+    try {
+      if (JSON.parse(data.toString())?.type === 'stop') endCall('user');
+    } catch {
+      // Ignore malformed control messages
+    }
+  });
+  socket.on('close', () => { endCall('disconnected'); });
+
+  // The client may have gone away while the upstream session was opening
+  if (socket.readyState !== WebSocket.OPEN) return endCall('disconnected');
+
+  send(socket, { type: 'ready', tokensPerMinute: LIVE_TOKENS_PER_MINUTE });
+};
+
+/**
+ * Accept Live connections on the HTTP server at LIVE_PATH
+ */
+export const attachLiveRelay = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ server, path: LIVE_PATH, maxPayload: MAX_FRAME_BYTES });
+
+  wss.on('connection', (socket: WebSocket) => {
+    const startTimer = setTimeout(() => fail(socket, 'No start message received'), START_TIMEOUT_MS);
+
+    socket.once('message', (data: RawData, isBinary: boolean) => {
+      clearTimeout(startTimer);
+      const start = parseStart(data, isBinary);
+      if (!start) {
+        return fail(socket, 'The first message must be { type: "start", token, scenario }');
+      }
+      handleCall(socket, start).catch(error => {
+        console.error('Live relay error:', error);
+        fail(socket, 'Live session failed', 1011);
+      });
+    });
+    socket.on('close', () => clearTimeout(startTimer));
+  });
+
+  return wss;
+};
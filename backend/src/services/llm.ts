@@ -0,0 +1,409 @@
+import {
+  GoogleGenAI,
+  Modality,
+  MediaModality,
+  FinishReason,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { llmError } from './llmResilience';
+
+export interface LlmMedia {
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  content: string;
+  media?: LlmMedia[]; // Audio or images sent after the text
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  systemPrompt?: string;
+  featureType?: string;
+  signal?: AbortSignal; // Stops waiting on the provider, e.g. when the client disconnects
+  model?: string; // Overrides the provider's default model
+  responseJsonSchema?: object; // Ask for JSON matching this schema
+  googleSearch?: boolean; // Ground the reply with Google Search
+  thinkingBudget?: number;
+  speech?: { voiceName: string }; // Reply with spoken audio instead of text
+}
+
+export interface LlmUsage {
+  inputTokens: number; // Prompt, history, system prompt and media
+  outputTokens: number; // Reply, including any thinking
+  mediaTokens: number; // The audio, image and video share of inputTokens
+}
+
+export interface LlmResult {
+  text: string;
+  model: string;
+  audio?: LlmMedia;
+  usage?: LlmUsage; // As reported by the provider, when it does
+}
+
+export interface LlmStreamChunk {
+  text: string;
+  usage?: LlmUsage; // Running total so far
+}
+
+export interface LiveRequest {
+  systemPrompt: string;
+  voiceName?: string;
+}
+
+export interface LiveCallbacks {
+  onAudio(audio: LlmMedia): void; // 16-bit PCM at 24 kHz
+  onTranscript(role: 'user' | 'model', text: string): void;
+  onInterrupted(): void; // The user talked over the model; drop queued audio
+  onClose(reason?: string): void;
+}
+
+export interface LiveSession {
+  sendAudio(pcm: string): void; // Base64 16-bit PCM at 16 kHz
+  close(): void;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  liveModel: string;
+  generate(request: LlmRequest): Promise<LlmResult>;
+  // Yields text deltas as they are produced
+  stream(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+  // Open a realtime voice conversation
+  connectLive(request: LiveRequest, callbacks: LiveCallbacks): Promise<LiveSession>;
+}
+
+export const LIVE_INPUT_MIME_TYPE = 'audio/pcm;rate=16000';
+export const LIVE_OUTPUT_MIME_TYPE = 'audio/pcm;rate=24000';
+
+// Gemini counts an image as 258 tokens; used for every media part when estimating
+const ESTIMATED_TOKENS_PER_MEDIA_PART = 258;
+
+/**
+ * Rough token counts (1 token ≈ 4 characters) over everything sent and received,
+ * for providers that don't report usage
+ */
+export const estimateUsage = (request: LlmRequest, text: string): LlmUsage => {
+  const promptChars = (request.systemPrompt || '').length
+    + request.messages.reduce((sum, m) => sum + m.content.length, 0);
+  const mediaTokens = request.messages.reduce((sum, m) => sum + (m.media?.length || 0), 0) * ESTIMATED_TOKENS_PER_MEDIA_PART;
+
+  return {
+    inputTokens: Math.ceil(promptChars / 4) + mediaTokens,
+    outputTokens: Math.ceil(text.length / 4),
+    mediaTokens,
+  };
+};
+
+const toUsage = (metadata?: GenerateContentResponseUsageMetadata): LlmUsage | undefined => {
+  if (!metadata?.promptTokenCount) return undefined;
+
+  return {
+    inputTokens: metadata.promptTokenCount + (metadata.toolUsePromptTokenCount || 0),
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    mediaTokens: (metadata.promptTokensDetails || [])
+      .filter(detail => detail.modality !== MediaModality.TEXT)
+      .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0),
+  };
+};
+
+// Finish reasons that mean the reply was withheld by a content filter
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw llmError('safety_blocked');
+  }
+};
+
+/**
+ * Call Google's Gemini API
+ */
+export const createGeminiProvider = (
+  apiKey: string | undefined = process.env.GEMINI_API_KEY,
+  model: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+  liveModel: string = process.env.GEMINI_LIVE_MODEL || 'gemini-2.5-flash-native-audio-preview-09-2025'
+): LlmProvider => {
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY environment variable is required for the gemini provider');
+  }
+
+  const client = new GoogleGenAI({ apiKey });
+
+  const toParams = (request: LlmRequest) => ({
+    model: request.model || model,
+    contents: request.messages.map(m => ({
+      role: m.role,
+      parts: [
+        { text: m.content },
+        ...(m.media || []).map(media => ({ inlineData: media })),
+      ],
+    })),
+    config: {
+      abortSignal: request.signal,
+      ...(request.systemPrompt && { systemInstruction: request.systemPrompt }),
+      ...(request.responseJsonSchema && {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.responseJsonSchema,
+      }),
+      ...(request.googleSearch && { tools: [{ googleSearch: {} }] }),
+      ...(request.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: request.thinkingBudget } }),
+      ...(request.speech && {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: request.speech.voiceName } } },
+      }),
+    },
+  });
+
+  return {
+    name: 'gemini',
+    model,
+    liveModel,
+    async generate(request) {
+      const params = toParams(request);
+      const response = await client.models.generateContent(params);
+      throwIfBlocked(response);
+      const inlineData = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+
+      return {
+        text: response.text || '',
+        model: params.model,
+        usage: toUsage(response.usageMetadata),
+        ...(request.speech && inlineData?.data && {
+          audio: { mimeType: inlineData.mimeType || 'audio/pcm;rate=24000', data: inlineData.data },
+        }),
+      };
+    },
+    async *stream(request) {
+      const stream = await client.models.generateContentStream(toParams(request));
+
+      for await (const chunk of stream) {
+        throwIfBlocked(chunk);
+        const usage = toUsage(chunk.usageMetadata);
+        if (chunk.text || usage) yield { text: chunk.text || '', usage };
+      }
+    },
+    async connectLive(request, callbacks) {
+      const session = await client.live.connect({
+        model: liveModel,
+        config: {
+          systemInstruction: request.systemPrompt,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: request.voiceName || 'Kore' } } },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+        callbacks: {
+          onmessage: (message) => {
+            const content = message.serverContent;
+            if (!content) return;
+
+            for (const part of content.modelTurn?.parts || []) {
+              if (part.inlineData?.data) {
+                callbacks.onAudio({ mimeType: LIVE_OUTPUT_MIME_TYPE, data: part.inlineData.data });
+              }
+            }
+            if (content.inputTranscription?.text) callbacks.onTranscript('user', content.inputTranscription.text);
+            if (content.outputTranscription?.text) callbacks.onTranscript('model', content.outputTranscription.text);
+            if (content.interrupted) callbacks.onInterrupted();
+          },
+          onerror: (event) => callbacks.onClose(event.message),
+          onclose: (event) => callbacks.onClose(event.reason || undefined),
+        },
+      });
+
+      return {
+        sendAudio: (pcm) => session.sendRealtimeInput({ audio: { mimeType: LIVE_INPUT_MIME_TYPE, data: pcm } }),
+        close: () => session.close(),
+      };
+    },
+  };
+};
+
+/**
+ * A scripted reply. The first rule whose `match` appears in the last user
+ * message (case-insensitive) and whose `featureType` fits is used.
+ * Object responses are returned as JSON.
+ */
+export interface MockRule {
+  match?: string;
+  featureType?: string;
+  response: string | object | ((request: LlmRequest) => string);
+}
+
+const MOCK_MODEL = 'mock';
+
+// Half a second of 24 kHz 16-bit silence
+const MOCK_SPEECH: LlmMedia = {
+  mimeType: LIVE_OUTPUT_MIME_TYPE,
+  data: Buffer.alloc(24000).toString('base64'),
+};
+
+// The mock answers a live call after every 2 seconds of 16 kHz 16-bit input
+const MOCK_LIVE_TURN_BYTES = 2 * 16000 * 2;
+
+// The mock also serves long-running offline servers, so only recent requests are kept
+const MOCK_MAX_CALLS = 100;
+
+const lastUserMessage = (request: LlmRequest): string => {
+  const message = [...request.messages].reverse().find(m => m.role === 'user');
+  return message?.content || '';
+};
+
+/**
+ * Deterministic offline provider: replies come from scripted rules, falling back
+ * to a stable echo so the same request always gets the same answer.
+ * The latest requests are kept in `calls` so tests can inspect what was sent.
+ */
+export const createMockProvider = (rules: MockRule[] = []): LlmProvider & { calls: LlmRequest[] } => {
+  const calls: LlmRequest[] = [];
+
+  const record = (request: LlmRequest) => {
+    calls.push(request);
+    if (calls.length > MOCK_MAX_CALLS) calls.splice(0, calls.length - MOCK_MAX_CALLS);
+  };
+
+  const reply = (request: LlmRequest): string => {
+    record(request);
+
+    const prompt = lastUserMessage(request);
+    const rule = rules.find(r =>
+      (!r.match || prompt.toLowerCase().includes(r.match.toLowerCase()))
+      && (!r.featureType || r.featureType === request.featureType)
+    );
+
+    if (rule) {
+      return typeof rule.response === 'function'
+        ? rule.response(request)
+        : typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response);
+    }
+
+    const digest = createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+    return `[mock ${request.featureType || 'chat'} ${digest}] ${prompt.slice(0, 200)}`;
+  };
+
+  return {
+    name: 'mock',
+    model: MOCK_MODEL,
+    liveModel: MOCK_MODEL,
+    calls,
+    async generate(request) {
+      if (request.speech) {
+        record(request);
+        return { text: '', model: MOCK_MODEL, audio: MOCK_SPEECH, usage: estimateUsage(request, '') };
+      }
+      const text = reply(request);
+      return { text, model: MOCK_MODEL, usage: estimateUsage(request, text) };
+    },
+    // Replays the reply word by word so streaming clients see several deltas,
+    // reporting usage with the last one
+    async *stream(request) {
+      const text = reply(request);
+      const deltas = text.match(/\S+\s*|\s+/g) || [];
+      for (const [i, delta] of deltas.entries()) {
+        if (request.signal?.aborted) return;
+        yield { text: delta, ...(i === deltas.length - 1 && { usage: estimateUsage(request, text) }) };
+      }
+    },
+    // Treats every couple of seconds of audio as a user turn and answers it
+    // with a scripted conversation reply spoken as silence
+    async connectLive(request, callbacks) {
+      let buffered = 0;
+      let turn = 0;
+      let closed = false;
+
+      return {
+        sendAudio(pcm) {
+          if (closed) return;
+          buffered += Buffer.byteLength(pcm, 'base64');
+          if (buffered < MOCK_LIVE_TURN_BYTES) return;
+
+          buffered = 0;
+          turn++;
+          const utterance = `[mock utterance ${turn}]`;
+          callbacks.onTranscript('user', utterance);
+          callbacks.onTranscript('model', reply({
+            messages: [{ role: 'user', content: utterance }],
+            systemPrompt: request.systemPrompt,
+            featureType: 'conversation',
+          }));
+          callbacks.onAudio(MOCK_SPEECH);
+        },
+        close() {
+          if (closed) return;
+          closed = true;
+          callbacks.onClose();
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Load mock rules from a JSON fixture file: [{ "match", "featureType", "response" }]
+ */
+export const loadMockRules = (fixturePath: string): MockRule[] => {
+  const rules = JSON.parse(readFileSync(fixturePath, 'utf8'));
+  if (!Array.isArray(rules)) {
+    throw new Error(`LLM mock fixtures in ${fixturePath} must be a JSON array`);
+  }
+  return rules;
+};
+
+/**
+ * Which provider to use when none has been set: LLM_PROVIDER if given,
+ * the mock in test, otherwise Gemini
+ */
+export const resolveLlmProviderName = (): string => {
+  return process.env.LLM_PROVIDER || (process.env.NODE_ENV === 'test' ? 'mock' : 'gemini');
+};
+
+const createDefaultProvider = (): LlmProvider => {
+  const providerName = resolveLlmProviderName();
+
+  switch (providerName) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'mock':
+      return createMockProvider(
+        loadMockRules(process.env.LLM_MOCK_FIXTURES || 'fixtures/llm-mock.json')
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+};
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Get the configured LLM provider, created on first use
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider = createDefaultProvider();
+  }
+  return provider;
+};
+
+/**
+ * Override the LLM provider (e.g. with a scripted mock in tests)
+ */
+export const setLlmProvider = (next: LlmProvider): void => {
+  provider = next;
+};
@@ -0,0 +1,281 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Error classification, retries, timeouts and a circuit breaker around LLM
+ * provider calls. Transient failures (rate limits, timeouts, upstream errors)
+ * are retried with exponential backoff; after repeated upstream failures the
+ * circuit opens and calls fail fast until a trial call succeeds.
+ */
+
+export type LlmErrorKind = 'rate_limited' | 'safety_blocked' | 'invalid_output' | 'timeout' | 'upstream_unavailable';
+
+const ERROR_KINDS: Record<LlmErrorKind, { statusCode: number; code: string; message: string; retryable: boolean }> = {
+  rate_limited: {
+    statusCode: 429,
+    code: 'LLM_RATE_LIMITED',
+    message: 'The AI service is busy, please try again shortly',
+    retryable: true,
+  },
+  safety_blocked: {
+    statusCode: 422,
+    code: 'LLM_SAFETY_BLOCKED',
+    message: 'The request was blocked by the AI safety filters, please rephrase it',
+    retryable: false,
+  },
+  invalid_output: {
+    statusCode: 502,
+    code: 'LLM_INVALID_OUTPUT',
+    message: 'The model returned an invalid response, please try again',
+    retryable: false,
+  },
+  timeout: {
+    statusCode: 504,
+    code: 'LLM_TIMEOUT',
+    message: 'The AI service took too long to respond, please try again',
+    retryable: true,
+  },
+  upstream_unavailable: {
+    statusCode: 503,
+    code: 'LLM_UNAVAILABLE',
+    message: 'The AI service is temporarily unavailable, please try again later',
+    retryable: true,
+  },
+};
+
+export interface LlmError extends AppError {
+  kind: LlmErrorKind;
+  retryable: boolean;
+}
+
+export const llmError = (kind: LlmErrorKind, message?: string, retryAfterSeconds?: number): LlmError => {
+  const { statusCode, code, retryable } = ERROR_KINDS[kind];
+  const error = new Error(message || ERROR_KINDS[kind].message) as LlmError;
+  error.statusCode = statusCode;
+  error.code = code;
+  error.kind = kind;
+  error.retryable = retryable;
+  if (retryAfterSeconds) error.retryAfterSeconds = retryAfterSeconds;
+  return error;
+};
+
+export const isLlmError = (error: unknown): error is LlmError => {
+  return error instanceof Error && (error as LlmError).kind in ERROR_KINDS;
+};
+
+/**
+ * How long the upstream asked us to wait before retrying a rate-limited call:
+ * a Retry-After header, or Gemini's RetryInfo detail (e.g. "retryDelay": "17s"),
+ * which the SDK only passes on inside the error message
+ */
+const upstreamRetryAfterSeconds = (error: unknown): number | undefined => {
+  const headers = (error as { headers?: Headers | Record<string, string> })?.headers;
+  const header = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+  const message = (error as Error)?.message || '';
+  const delay = Number(header) || Number(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(message)?.[1]);
+  return delay > 0 ? Math.ceil(delay) : undefined;
+};
+
+/**
+ * Map a provider or network failure to an LlmError. Anything unrecognized is
+ * treated as the upstream being unavailable.
+ */
+export const classifyLlmError = (error: unknown): LlmError => {
+  if (isLlmError(error)) return error;
+
+  const status = (error as { status?: number })?.status;
+  const name = (error as Error)?.name;
+  const message = (error as Error)?.message || '';
+
+  if (name === 'TimeoutError') return llmError('timeout');
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return llmError('rate_limited', undefined, upstreamRetryAfterSeconds(error));
+  }
+  if (status === 400 && /safety|blocked/i.test(message)) return llmError('safety_blocked');
+  return llmError('upstream_unavailable');
+};
+
+const MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+const defaultTimeoutMs = (): number => Number(process.env.LLM_TIMEOUT_MS) || 30 * 1000;
+
+// Exponential backoff with full jitter, honouring a longer delay the upstream asked for
+const retryDelayMs = (attempt: number, error: LlmError): number => {
+  const backoff = Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.max(backoff, (error.retryAfterSeconds || 0) * 1000);
+};
+
+// A wait the upstream asks for beyond our own longest backoff is left to the client
+const shouldRetry = (attempt: number, error: LlmError): boolean => {
+  return error.retryable
+    && attempt < MAX_RETRIES
+    && (error.retryAfterSeconds || 0) * 1000 <= MAX_RETRY_DELAY_MS;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+};
+
+// ---- Circuit breaker ----
+
+const FAILURE_THRESHOLD = 5; // Consecutive upstream failures before the circuit opens
+const COOLDOWN_MS = 30 * 1000; // How long it stays open before letting a trial call through
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+const circuit = {
+  state: 'closed' as CircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  trialInFlight: false,
+};
+
+// Only failures that say the upstream itself is struggling count towards opening the circuit
+const countsAsOutage = (error: LlmError): boolean => {
+  return error.kind === 'timeout' || error.kind === 'upstream_unavailable';
+};
+
+// Throws while the circuit is open; once the cooldown ends, lets a single trial call through
+const enterCircuit = (): void => {
+  if (circuit.state === 'open') {
+    const remainingMs = circuit.openedAt + COOLDOWN_MS - Date.now();
+    if (remainingMs > 0) {
+      throw llmError('upstream_unavailable', undefined, Math.ceil(remainingMs / 1000));
+    }
+    circuit.state = 'half_open';
+    circuit.trialInFlight = false;
+  }
+  if (circuit.state === 'half_open') {
+    if (circuit.trialInFlight) throw llmError('upstream_unavailable', undefined, 1);
+    circuit.trialInFlight = true;
+  }
+};
+
+const recordOutcome = (error?: LlmError): void => {
+  if (!error || !countsAsOutage(error)) {
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.trialInFlight = false;
+    return;
+  }
+
+  circuit.consecutiveFailures++;
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (circuit.state !== 'open') {
+      console.error(`LLM circuit opened after ${circuit.consecutiveFailures} consecutive failures`);
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+    circuit.trialInFlight = false;
+  }
+};
+
+/**
+ * Circuit breaker state for the health endpoint
+ */
+export const getCircuitStatus = () => {
+  const open = circuit.state === 'open';
+  const coolingDown = open && circuit.openedAt + COOLDOWN_MS > Date.now();
+
+  return {
+    state: open && !coolingDown ? 'half_open' as CircuitState : circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    ...(open && {
+      openedAt: new Date(circuit.openedAt).toISOString(),
+      retryAt: new Date(circuit.openedAt + COOLDOWN_MS).toISOString(),
+    }),
+  };
+};
+
+export interface ResilienceOptions {
+  signal?: AbortSignal; // The caller's own cancellation; never retried or classified
+  timeoutMs?: number; // Per attempt, defaults to LLM_TIMEOUT_MS
+}
+
+/**
+ * Run a provider call with a per-attempt timeout, retrying transient failures.
+ * Errors come out classified as LlmError.
+ */
+export const withResilience = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    enterCircuit();
+
+    const timeout = AbortSignal.timeout(options.timeoutMs || defaultTimeoutMs());
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    try {
+      const result = await call(signal);
+      recordOutcome();
+      return result;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        circuit.trialInFlight = false;
+        throw error;
+      }
+
+      const classified = timeout.aborted ? llmError('timeout') : classifyLlmError(error);
+      recordOutcome(classified);
+      if (!shouldRetry(attempt, classified)) throw classified;
+
+      console.warn(`Retrying LLM call after ${classified.kind} (attempt ${attempt + 1})`);
+      await sleep(retryDelayMs(attempt, classified), options.signal);
+    }
+  }
+};
+
+/**
+ * Stream a provider reply with an idle timeout between chunks. Only a stream
+ * that fails before its first chunk is retried, since text already passed on
+ * can't be taken back.
+ */
+export async function* streamWithResilience<T>(
+  open: (signal: AbortSignal) => AsyncIterable<T>,
+  options: ResilienceOptions = {}
+): AsyncGenerator<T> {
+  const timeoutMs = options.timeoutMs || defaultTimeoutMs();
+
+  for (let attempt = 0; ; attempt++) {
+    enterCircuit();
+
+    const idle = new AbortController();
+    let timer = setTimeout(() => idle.abort(), timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, idle.signal]) : idle.signal;
+    let started = false;
+
+    try {
+      for await (const chunk of open(signal)) {
+        if (!started) recordOutcome();
+        started = true;
+        clearTimeout(timer);
+        timer = setTimeout(() => idle.abort(), timeoutMs);
+        yield chunk;
+      }
+      if (!started) recordOutcome();
+      return;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        circuit.trialInFlight = false;
+        throw error;
+      }
+
+      const classified = idle.signal.aborted ? llmError('timeout') : classifyLlmError(error);
+      recordOutcome(classified);
+      if (started || !shouldRetry(attempt, classified)) throw classified;
+
+      console.warn(`Retrying LLM stream after ${classified.kind} (attempt ${attempt + 1})`);
+      await sleep(retryDelayMs(attempt, classified), options.signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import nodemailer from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Cara <no-reply@cara.app>';
+
+/**
+ * Send through an SMTP relay (production)
+ */
+export const createSmtpMailer = (): Mailer => {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST environment variable is required for the smtp mail transport');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+};
+
+/**
+ * Append each message as a JSON line to a local outbox file (development)
+ */
+export const createOutboxMailer = (outboxPath: string = process.env.MAIL_OUTBOX_PATH || 'tmp/outbox.jsonl'): Mailer => {
+  return {
+    async send(message) {
+      await fs.mkdir(path.dirname(outboxPath), { recursive: true });
+      const entry = { from: MAIL_FROM, ...message, sentAt: new Date().toISOString() };
+      await fs.appendFile(outboxPath, JSON.stringify(entry) + '\n');
+    },
+  };
+};
+
+/**
+ * Keep messages in memory so tests can inspect them
+ */
+export const createMemoryMailer = (): Mailer & { sent: MailMessage[] } => {
+  const sent: MailMessage[] = [];
+
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+};
+
+const createDefaultMailer = (): Mailer => {
+  const transport = process.env.MAIL_TRANSPORT
+    || (process.env.NODE_ENV === 'production' ? 'smtp' : process.env.NODE_ENV === 'test' ? 'memory' : 'outbox');
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpMailer();
+    case 'memory':
+      return createMemoryMailer();
+    case 'outbox':
+      return createOutboxMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+let mailer: Mailer | null = null;
+
+/**
+ * Get the configured mailer, created on first use
+ */
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createDefaultMailer();
+  }
+  return mailer;
+};
+
+/**
+ * Override the mailer (e.g. with an in-memory sink in tests)
+ */
+export const setMailer = (next: Mailer): void => {
+  mailer = next;
+};
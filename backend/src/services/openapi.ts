@@ -0,0 +1,290 @@
+import { verifyAuthToken } from '../middleware/authMiddleware';
+import { RouteSchema } from '../schemas/schema';
+import { JsonSchema } from './jsonSchema';
+import type { ApiRouter } from '../routes';
+
+/**
+ * OpenAPI 3 document for the API, read off the mounted routers: every route
+ * that runs validateRequest contributes its operation id, summary, request
+ * schemas and response schema, and routes behind verifyAuthToken are marked as
+ * needing a bearer token.
+ */
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary: string;
+  tags: string[];
+  security?: Array<Record<string, string[]>>;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: JsonSchema | { $ref: string } } } }>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description: string };
+  tags: Array<{ name: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    securitySchemes: Record<string, unknown>;
+    schemas: Record<string, unknown>;
+  };
+}
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+const errorResponse = (description: string, schema: string = 'Error') => ({
+  description,
+  content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } },
+});
+
+const COMPONENTS: OpenApiDocument['components'] = {
+  securitySchemes: {
+    bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+  },
+  schemas: {
+    Error: {
+      type: 'object',
+      properties: { error: { type: 'string' } },
+      required: ['error'],
+    },
+    FieldError: {
+      type: 'object',
+      properties: {
+        location: { type: 'string', enum: ['params', 'query', 'body'] },
+        field: { type: 'string', description: 'Full path of the field, e.g. body.score' },
+        message: { type: 'string' },
+      },
+      required: ['location', 'field', 'message'],
+    },
+    ValidationError: {
+      type: 'object',
+      properties: {
+        error: { type: 'string', description: 'Every field error joined into one message' },
+        fields: { type: 'array', items: { $ref: '#/components/schemas/FieldError' } },
+      },
+      required: ['error', 'fields'],
+    },
+  },
+};
+
+// JSON Schema as OpenAPI 3.0 takes it: no empty required lists
+const toOpenApiSchema = (schema: JsonSchema): JsonSchema => {
+  const { properties, items, required, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toOpenApiSchema(value)])),
+    }),
+    ...(items && { items: toOpenApiSchema(items) }),
+    ...(required && required.length > 0 && { required }),
+  };
+};
+
+// Express '/users/:id/plan' to OpenAPI '/users/{id}/plan'
+const toOpenApiPath = (mountPath: string, routePath: string): string => {
+  const path = (mountPath + (routePath === '/' ? '' : routePath)).replace(/:(\w+)/g, '{$1}');
+  return path || '/';
+};
+
+const pathParameters = (path: string, params?: JsonSchema): OpenApiParameter[] =>
+  [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: toOpenApiSchema(params?.properties?.[name] || { type: 'string' }),
+  }));
+
+const queryParameters = (query?: JsonSchema): OpenApiParameter[] =>
+  Object.entries(query?.properties || {}).map(([name, schema]) => {
+    const { description, ...rest } = toOpenApiSchema(schema);
+    return {
+      name,
+      in: 'query',
+      required: query!.required?.includes(name) ?? false,
+      ...(description && { description }),
+      schema: rest,
+    };
+  });
+
+const buildOperation = (
+  method: HttpMethod,
+  path: string,
+  tag: string,
+  route: RouteSchema | undefined,
+  authenticated: boolean
+): OpenApiOperation => {
+  const parameters = [...pathParameters(path, route?.params), ...queryParameters(route?.query)];
+  const validated = parameters.length > 0 || !!route?.body;
+  const status = String(route?.responseStatus || 200);
+
+  return {
+    ...(route && { operationId: route.operationId }),
+    summary: route?.summary || `${method.toUpperCase()} ${path}`,
+    tags: [tag],
+    ...(authenticated && { security: [{ bearerAuth: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route?.body && {
+      requestBody: { required: true, content: { 'application/json': { schema: toOpenApiSchema(route.body) } } },
+    }),
+    responses: {
+      [status]: {
+        description: status === '201' ? 'Created' : 'OK',
+        ...(route?.response && { content: { 'application/json': { schema: toOpenApiSchema(route.response) } } }),
+      },
+      ...(validated && { '400': errorResponse('The request does not match its schema', 'ValidationError') }),
+      ...(authenticated && { '401': errorResponse('Missing, invalid or expired access token') }),
+    },
+  };
+};
+
+/**
+ * Build the OpenAPI document for the given routers. Routers are read in
+ * mount order, and a router-level verifyAuthToken covers every route
+ * registered after it.
+ */
+export const buildOpenApiDocument = (routers: ApiRouter[]): OpenApiDocument => {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags: string[] = [];
+
+  for (const { path: mountPath, tag, router } of routers) {
+    if (!tags.includes(tag)) tags.push(tag);
+    let routerAuthenticated = false;
+
+    for (const layer of router.stack) {
+      if (!layer.route) {
+        if (layer.handle === verifyAuthToken) routerAuthenticated = true;
+        continue;
+      }
+
+      const handlers = layer.route.stack.map(routeLayer => routeLayer.handle);
+      const authenticated = routerAuthenticated || handlers.includes(verifyAuthToken);
+      const route = handlers
+        .map(handler => (handler as { routeSchema?: RouteSchema }).routeSchema)
+        .find(Boolean);
+      const path = toOpenApiPath(mountPath, layer.route.path);
+      const methods = new Set(layer.route.stack.map(routeLayer => routeLayer.method as HttpMethod));
+
+      for (const method of HTTP_METHODS.filter(method => methods.has(method))) {
+        paths[path] = { ...paths[path], [method]: buildOperation(method, path, tag, route, authenticated) };
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Cara API',
+      version: '1.0.0',
+      description: 'Backend API for Cara AI Communication Coach',
+    },
+    tags: tags.map(name => ({ name })),
+    paths,
+    components: COMPONENTS,
+  };
+};
+
+const pascalCase = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const formatLiteral = (value: string | number): string =>
+  typeof value === 'string' ? `'${value.replace(/['\\]/g, '\\$&')}'` : String(value);
+
+// TypeScript type for JSON a client sends or receives: properties with defaults may be left out, dates are strings
+const formatType = (schema: JsonSchema, indent: string = ''): string => {
+  const type = ((): string => {
+    if (schema.enum) return schema.enum.map(formatLiteral).join(' | ');
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array': {
+        const items = schema.items ? formatType(schema.items, indent) : 'unknown';
+        return /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+      }
+      case 'object': {
+        if (!schema.properties) return 'Record<string, unknown>';
+        const inner = indent + '  ';
+        const lines = Object.entries(schema.properties).map(([key, property]) => {
+          const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+          const optional = schema.required?.includes(key) ? '' : '?';
+          const comment = property.description ? `${inner}/** ${property.description} */\n` : '';
+          return `${comment}${inner}${name}${optional}: ${formatType(property, inner)};`;
+        });
+        return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+      }
+    }
+  })();
+
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const queryObjectSchema = (parameters: OpenApiParameter[]): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(parameters.map(parameter => [
+    parameter.name,
+    { ...parameter.schema, ...(parameter.description && { description: parameter.description }) },
+  ])),
+  required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+});
+
+// The schema of an operation's success response, if it declares one
+const successSchema = (operation: OpenApiOperation): JsonSchema | undefined => {
+  const success = operation.responses['200'] || operation.responses['201'];
+  return success?.content?.['application/json'].schema as JsonSchema | undefined;
+};
+
+/**
+ * Render request and response types for every operation with a body, query
+ * string or response schema, named after the operation: createSession gives
+ * CreateSessionBody and CreateSessionResponse, listSessions gives ListSessionsQuery
+ */
+export const formatClientTypes = (document: OpenApiDocument): string => {
+  const declarations: string[] = [];
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = operations[method];
+      if (!operation?.operationId) continue;
+
+      const name = pascalCase(operation.operationId);
+      const summary = `/** ${operation.summary} - ${method.toUpperCase()} ${path} */\n`;
+      const body = operation.requestBody?.content['application/json'].schema;
+      const query = (operation.parameters || []).filter(parameter => parameter.in === 'query');
+      const response = successSchema(operation);
+
+      if (body) {
+        declarations.push(`${summary}export type ${name}Body = ${formatType(body)};`);
+      }
+      if (query.length > 0) {
+        declarations.push(`${summary}export type ${name}Query = ${formatType(queryObjectSchema(query))};`);
+      }
+      if (response) {
+        declarations.push(`${summary}export type ${name}Response = ${formatType(response)};`);
+      }
+    }
+  }
+
+  return [
+    '// Generated from the API\'s OpenAPI document by `npm run generate:api-types` in backend/. Do not edit.',
+    '',
+    declarations.join('\n\n'),
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,275 @@
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken } from './auth';
+import { getSessionStats, getFeatureMetrics, SessionStats, FeatureMetrics } from './analytics';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const DEFAULT_INVITATION_TTL_DAYS = 14;
+
+export type OrgRole = 'member' | 'org_admin';
+export const ORG_ROLES: OrgRole[] = ['member', 'org_admin'];
+
+export interface InvitationOptions {
+  cohortId?: string | null;
+  email?: string | null;
+  orgRole?: OrgRole;
+  maxUses?: number | null;
+  expiresInDays?: number;
+}
+
+export interface CohortAnalytics extends SessionStats {
+  cohortId: string | null;
+  cohortName: string | null;
+  members: number;
+  features: FeatureMetrics[];
+}
+
+const orgError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/**
+ * Create an organization, optionally seating its first org admin
+ */
+export const createOrganization = async (name: string, seatLimit: number, adminUserId?: string) => {
+  return prisma.organization.create({
+    data: {
+      name,
+      seatLimit,
+      ...(adminUserId && {
+        members: { create: { userId: adminUserId, orgRole: 'org_admin' } },
+      }),
+    },
+  });
+};
+
+/**
+ * Look up a user's membership in an organization
+ */
+export const getMembership = async (organizationId: string, userId: string) => {
+  return prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+  });
+};
+
+/**
+ * Throw unless the cohort belongs to the organization
+ */
+export const assertCohortInOrganization = async (organizationId: string, cohortId: string): Promise<void> => {
+  const cohort = await prisma.cohort.findFirst({
+    where: { id: cohortId, organizationId },
+    select: { id: true },
+  });
+
+  if (!cohort) {
+    throw orgError('Cohort not found', 404);
+  }
+};
+
+/**
+ * Create a shareable invitation link. The plaintext token only appears in the returned link.
+ */
+export const createInvitation = async (
+  organizationId: string,
+  createdById: string,
+  options: InvitationOptions = {}
+) => {
+  if (options.cohortId) {
+    await assertCohortInOrganization(organizationId, options.cohortId);
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const ttlDays = options.expiresInDays ?? DEFAULT_INVITATION_TTL_DAYS;
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      organizationId,
+      createdById,
+      tokenHash: hashToken(token),
+      cohortId: options.cohortId || null,
+      email: options.email ? options.email.toLowerCase() : null,
+      orgRole: options.orgRole || 'member',
+      maxUses: options.maxUses ?? null,
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    },
+    select: {
+      id: true,
+      cohortId: true,
+      email: true,
+      orgRole: true,
+      maxUses: true,
+      useCount: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+  });
+
+  return {
+    ...invitation,
+    link: `${FRONTEND_URL}/?invite=${encodeURIComponent(token)}`,
+  };
+};
+
+/**
+ * Join the organization behind an invitation token.
+ * Seat and usage limits are checked inside a serializable transaction so
+ * concurrent acceptances can't overfill the organization.
+ */
+export const acceptInvitation = async (token: string, user: { id: string; email: string }) => {
+  return prisma.$transaction(async tx => {
+    const invitation = await tx.invitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { organization: { select: { id: true, name: true, seatLimit: true } } },
+    });
+
+    if (!invitation || invitation.revokedAt || invitation.expiresAt < new Date()) {
+      throw orgError('Invitation is invalid or has expired', 400);
+    }
+    if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) {
+      throw orgError('Invitation has already been used', 400);
+    }
+    if (invitation.email && invitation.email !== user.email.toLowerCase()) {
+      throw orgError('This invitation was sent to a different email address', 403);
+    }
+
+    const existing = await tx.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId: invitation.organizationId, userId: user.id } },
+    });
+    if (existing) {
+      throw orgError('You are already a member of this organization', 409);
+    }
+
+    const seatsUsed = await tx.organizationMember.count({
+      where: { organizationId: invitation.organizationId },
+    });
+    if (seatsUsed >= invitation.organization.seatLimit) {
+      throw orgError('This organization has no seats left', 409);
+    }
+
+    const membership = await tx.organizationMember.create({
+      data: {
+        organizationId: invitation.organizationId,
+        userId: user.id,
+        cohortId: invitation.cohortId,
+        orgRole: invitation.orgRole,
+      },
+    });
+
+    await tx.invitation.update({
+      where: { id: invitation.id },
+      data: { useCount: { increment: 1 } },
+    });
+
+    return { organization: invitation.organization, membership };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+};
+
+/**
+ * Average score, clarity and pace per cohort and feature.
+ * Members without a cohort are reported under a null cohort.
+ */
+export const getOrganizationAnalytics = async (
+  organizationId: string,
+  filters: { cohortId?: string; from?: Date; to?: Date } = {}
+): Promise<CohortAnalytics[]> => {
+  const [cohorts, members] = await Promise.all([
+    prisma.cohort.findMany({
+      where: { organizationId, ...(filters.cohortId && { id: filters.cohortId }) },
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.organizationMember.findMany({
+      where: { organizationId, ...(filters.cohortId && { cohortId: filters.cohortId }) },
+      select: { userId: true, cohortId: true },
+    }),
+  ]);
+
+  const groups: { cohortId: string | null; cohortName: string | null }[] = cohorts.map(cohort => ({
+    cohortId: cohort.id,
+    cohortName: cohort.name,
+  }));
+  if (!filters.cohortId && members.some(member => !member.cohortId)) {
+    groups.push({ cohortId: null, cohortName: null });
+  }
+
+  const createdAt = filters.from || filters.to
+    ? { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) }
+    : undefined;
+
+  return Promise.all(groups.map(async group => {
+    const userIds = members
+      .filter(member => member.cohortId === group.cohortId)
+      .map(member => member.userId);
+    const where: Prisma.SessionWhereInput = {
+      userId: { in: userIds },
+      ...(createdAt && { createdAt }),
+    };
+
+    const [stats, features] = await Promise.all([
+      getSessionStats(where),
+      getFeatureMetrics(where),
+    ]);
+
+    return { ...group, members: userIds.length, ...stats, features };
+  }));
+};
+
+/**
+ * A member's progress as seen by an org admin.
+ * Transcripts and responses are only included when the learner has opted in.
+ */
+export const getMemberProgress = async (organizationId: string, userId: string) => {
+  const membership = await prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: {
+      user: { select: { id: true, name: true, email: true, level: true, xp: true, streak: true, lastActiveAt: true } },
+      cohort: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!membership) {
+    throw orgError('Member not found', 404);
+  }
+
+  // Practice from before the learner joined is their own, not the org's
+  const where: Prisma.SessionWhereInput = { userId, createdAt: { gte: membership.joinedAt } };
+
+  const [stats, features, sessions] = await Promise.all([
+    getSessionStats(where),
+    getFeatureMetrics(where),
+    prisma.session.findMany({
+      where,
+      select: {
+        id: true,
+        featureType: true,
+        title: true,
+        durationSeconds: true,
+        score: true,
+        completed: true,
+        clarity: true,
+        pace: true,
+        confidence: true,
+        tone: true,
+        createdAt: true,
+        ...(membership.shareTranscripts && { transcript: true, userResponses: true }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    }),
+  ]);
+
+  return {
+    user: membership.user,
+    cohort: membership.cohort,
+    orgRole: membership.orgRole,
+    joinedAt: membership.joinedAt,
+    shareTranscripts: membership.shareTranscripts,
+    ...stats,
+    features,
+    recentSessions: sessions,
+  };
+};
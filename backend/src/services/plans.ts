@@ -0,0 +1,455 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { getRedis, RedisClient } from '../db/redis';
+
+/**
+ * Subscription plans and the usage limits they grant. A limit caps one metric
+ * for one feature type (or '*' for all features combined) per day or month.
+ * A user is on their own plan, else the best plan among their organizations,
+ * else 'free'. Overrides replace individual limits: the user's win over their
+ * organizations', which win over the plan's.
+ */
+
+export const PLAN_KEYS = ['free', 'pro', 'enterprise'] as const;
+export type PlanKey = typeof PLAN_KEYS[number];
+
+export const QUOTA_METRICS = ['tokens', 'voice_minutes', 'video_analyses', 'tts_characters'] as const;
+export type QuotaMetric = typeof QUOTA_METRICS[number];
+
+export const QUOTA_PERIODS = ['daily', 'monthly'] as const;
+export type QuotaPeriod = typeof QUOTA_PERIODS[number];
+
+export const ALL_FEATURES = '*';
+
+export interface QuotaLimit {
+  featureType: string;
+  metric: QuotaMetric;
+  period: QuotaPeriod;
+  limit: number;
+}
+
+export interface QuotaLimitStatus extends QuotaLimit {
+  source: 'plan' | 'organization' | 'user';
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface QuotaStatus {
+  plan: { key: string; name: string };
+  limits: QuotaLimitStatus[];
+}
+
+// QuotaUsage column each metric is summed from
+const METRIC_COLUMNS = {
+  tokens: 'tokensUsed',
+  voice_minutes: 'voiceMinutes',
+  video_analyses: 'videoAnalyses',
+  tts_characters: 'ttsCharacters',
+} as const;
+
+type UsageColumn = typeof METRIC_COLUMNS[QuotaMetric];
+const USAGE_COLUMNS = Object.values(METRIC_COLUMNS);
+
+const limitsFor = (
+  daily: { tokens: number; voiceMinutes: number; videoAnalyses: number; ttsCharacters: number },
+  monthlyTokens: number
+): QuotaLimit[] => [
+  { featureType: ALL_FEATURES, metric: 'tokens', period: 'daily', limit: daily.tokens },
+  { featureType: ALL_FEATURES, metric: 'tokens', period: 'monthly', limit: monthlyTokens },
+  { featureType: 'conversation', metric: 'voice_minutes', period: 'daily', limit: daily.voiceMinutes },
+  { featureType: 'video', metric: 'video_analyses', period: 'daily', limit: daily.videoAnalyses },
+  { featureType: 'listening', metric: 'tts_characters', period: 'daily', limit: daily.ttsCharacters },
+];
+
+// Created on startup when missing; admins can change the limits afterwards
+export const DEFAULT_PLANS: Record<PlanKey, { name: string; limits: QuotaLimit[] }> = {
+  free: {
+    name: 'Free',
+    limits: limitsFor({ tokens: 50000, voiceMinutes: 10, videoAnalyses: 3, ttsCharacters: 5000 }, 1000000),
+  },
+  pro: {
+    name: 'Pro',
+    limits: limitsFor({ tokens: 250000, voiceMinutes: 60, videoAnalyses: 20, ttsCharacters: 50000 }, 5000000),
+  },
+  enterprise: {
+    name: 'Enterprise',
+    limits: limitsFor({ tokens: 1000000, voiceMinutes: 240, videoAnalyses: 100, ttsCharacters: 250000 }, 20000000),
+  },
+};
+
+/**
+ * Create any default plan that doesn't exist yet
+ */
+export const ensureDefaultPlans = async (): Promise<void> => {
+  for (const key of PLAN_KEYS) {
+    const existing = await prisma.plan.findUnique({ where: { key } });
+    if (existing) continue;
+
+    await prisma.plan.create({
+      data: {
+        key,
+        name: DEFAULT_PLANS[key].name,
+        limits: { create: DEFAULT_PLANS[key].limits },
+      },
+    });
+  }
+};
+
+export const isPlanKey = (value: unknown): value is PlanKey => {
+  return typeof value === 'string' && (PLAN_KEYS as readonly string[]).includes(value);
+};
+
+export const periodStart = (period: QuotaPeriod, now: Date = new Date()): Date => {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+const periodEnd = (period: QuotaPeriod, now: Date = new Date()): Date => {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1)
+    : new Date(now.getFullYear(), now.getMonth() + 1, 1);
+};
+
+// A PlanLimit or QuotaOverride row; metric and period are validated on write
+type LimitRow = { featureType: string; metric: string; period: string; limit: number };
+
+const limitKey = (limit: LimitRow): string => {
+  return `${limit.featureType}|${limit.metric}|${limit.period}`;
+};
+
+const pickLimit = ({ featureType, metric, period, limit }: LimitRow): QuotaLimit => {
+  return { featureType, metric: metric as QuotaMetric, period: period as QuotaPeriod, limit };
+};
+
+const rankOf = (planKey: string): number => PLAN_KEYS.indexOf(planKey as PlanKey);
+
+/**
+ * The plan and limits that apply to a user after overrides
+ */
+export const getEffectiveLimits = async (
+  userId: string
+): Promise<{ plan: { key: string; name: string }; limits: Array<QuotaLimit & { source: QuotaLimitStatus['source'] }> }> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      plan: { include: { limits: true } },
+      quotaOverrides: true,
+      memberships: {
+        select: {
+          organization: {
+            select: { plan: { include: { limits: true } }, quotaOverrides: true },
+          },
+        },
+      },
+    },
+  });
+
+  const organizations = user?.memberships.map(m => m.organization) || [];
+  const organizationPlan = organizations
+    .map(organization => organization.plan)
+    .filter(plan => plan !== null)
+    .sort((a, b) => rankOf(b.key) - rankOf(a.key))[0];
+
+  const plan = user?.plan
+    || organizationPlan
+    || await prisma.plan.findUnique({ where: { key: 'free' }, include: { limits: true } })
+    || { key: 'free', name: DEFAULT_PLANS.free.name, limits: DEFAULT_PLANS.free.limits };
+
+  const limits = new Map<string, QuotaLimit & { source: QuotaLimitStatus['source'] }>();
+  for (const limit of plan.limits) {
+    limits.set(limitKey(limit), { ...pickLimit(limit), source: 'plan' });
+  }
+
+  // With several organizations, the most generous override applies
+  const organizationOverrides = new Map<string, LimitRow>();
+  for (const override of organizations.flatMap(organization => organization.quotaOverrides)) {
+    const current = organizationOverrides.get(limitKey(override));
+    if (!current || override.limit > current.limit) {
+      organizationOverrides.set(limitKey(override), override);
+    }
+  }
+  for (const [key, override] of organizationOverrides) {
+    limits.set(key, { ...pickLimit(override), source: 'organization' });
+  }
+
+  for (const override of user?.quotaOverrides || []) {
+    limits.set(limitKey(override), { ...pickLimit(override), source: 'user' });
+  }
+
+  return { plan: { key: plan.key, name: plan.name }, limits: [...limits.values()] };
+};
+
+// Usage logged this long before a seed may still be committing, so the seed
+// only reads the database up to then and takes the rest from pending increments
+const SEED_WATERMARK_LAG_MS = 30 * 1000;
+
+// Pending increments only matter for about the watermark lag, so the list is kept short
+const PENDING_TTL_SECONDS = 5 * 60;
+const PENDING_MAX_LENGTH = 1000;
+
+type UsageRow = { featureType: string | null; sum: Partial<Record<UsageColumn, number | null>> };
+
+// Metric totals per feature type since a date, optionally up to (not including) another
+const queryUsageByFeature = async (userId: string, since: Date, until?: Date): Promise<UsageRow[]> => {
+  const rows = await prisma.quotaUsage.groupBy({
+    by: ['featureType'],
+    where: { userId, createdAt: { gte: since, ...(until && { lt: until }) } },
+    _sum: { tokensUsed: true, voiceMinutes: true, videoAnalyses: true, ttsCharacters: true },
+  });
+
+  return rows.map(row => ({ featureType: row.featureType, sum: row._sum }));
+};
+
+/*
+ * With Redis, the same totals are kept as one hash per user and period, with
+ * fields like "writing|tokensUsed", so checking quota doesn't aggregate
+ * quota_usage on every request and all API instances see the same counts.
+ *
+ * A missing hash is seeded from the database up to a watermark a little in the
+ * past, which is stored in its _seeded field. Until then, increments are queued
+ * in a pending list; the seed replays those logged at or after the watermark,
+ * and once seeded, increments from before it are skipped. So usage logged while
+ * the seed is being read is counted exactly once.
+ */
+const SEED_COUNTERS_SCRIPT = `
+if redis.call('HEXISTS', KEYS[1], '_seeded') == 0 then
+  local watermark = tonumber(ARGV[2])
+  redis.call('HSET', KEYS[1], '_seeded', ARGV[2])
+  for i = 3, #ARGV, 2 do
+    redis.call('HINCRBY', KEYS[1], ARGV[i], ARGV[i + 1])
+  end
+  for _, entry in ipairs(redis.call('LRANGE', KEYS[2], 0, -1)) do
+    local increment = cjson.decode(entry)
+    if tonumber(increment[1]) >= watermark then
+      for i = 2, #increment, 2 do
+        redis.call('HINCRBY', KEYS[1], increment[i], increment[i + 1])
+      end
+    end
+  end
+  redis.call('DEL', KEYS[2])
+  redis.call('EXPIREAT', KEYS[1], ARGV[1])
+end
+return redis.call('HGETALL', KEYS[1])
+`;
+
+// KEYS are counter and pending list pairs; ARGV is the usage time, then field and amount pairs
+const INCREMENT_COUNTERS_SCRIPT = `
+local loggedAt = tonumber(ARGV[1])
+for i = 1, #KEYS, 2 do
+  local watermark = redis.call('HGET', KEYS[i], '_seeded')
+  if watermark then
+    if loggedAt >= tonumber(watermark) then
+      for j = 2, #ARGV, 2 do
+        redis.call('HINCRBY', KEYS[i], ARGV[j], ARGV[j + 1])
+      end
+    end
+  else
+    redis.call('RPUSH', KEYS[i + 1], cjson.encode(ARGV))
+    redis.call('LTRIM', KEYS[i + 1], -${PENDING_MAX_LENGTH}, -1)
+    redis.call('EXPIRE', KEYS[i + 1], ${PENDING_TTL_SECONDS})
+  end
+end
+return 0
+`;
+
+/*
+ * Counter keys include a generation stored in Redis. Usage that couldn't be
+ * counted (e.g. while Redis was down) is made good by bumping the generation,
+ * so every instance moves to fresh keys that are re-seeded from the database;
+ * the old ones expire on their own at the end of their period.
+ */
+const GENERATION_KEY = 'quota:generation';
+
+// Set when this instance logged usage it couldn't count, until it bumps the generation
+let generationBumpPending = false;
+
+const getGeneration = async (redis: RedisClient): Promise<string> => {
+  if (generationBumpPending) {
+    const generation = await redis.incr(GENERATION_KEY);
+    generationBumpPending = false;
+    return String(generation);
+  }
+  return await redis.get(GENERATION_KEY) || '0';
+};
+
+const counterKey = (generation: string, userId: string, period: QuotaPeriod, now: Date): string => {
+  return `quota:${generation}:${userId}:${period}:${periodStart(period, now).getTime()}`;
+};
+
+const pendingKey = (counter: string): string => `${counter}:pending`;
+
+const counterField = (featureType: string | null | undefined, column: UsageColumn): string => {
+  return `${featureType || ''}|${column}`;
+};
+
+const fromCounterFields = (fields: Record<string, string>): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const [field, value] of Object.entries(fields)) {
+    const [featureType, column] = field.split('|');
+    if (!column) continue; // The _seeded marker
+
+    const row = rows.get(featureType) || { featureType: featureType || null, sum: {} };
+    row.sum[column as UsageColumn] = Number(value);
+    rows.set(featureType, row);
+  }
+  return [...rows.values()];
+};
+
+// Usage this period from the Redis counters, or the database without Redis
+const getUsageByFeature = async (userId: string, period: QuotaPeriod, now: Date): Promise<UsageRow[]> => {
+  const since = periodStart(period, now);
+  const redis = getRedis();
+  if (!redis?.isReady) return queryUsageByFeature(userId, since);
+
+  try {
+    const key = counterKey(await getGeneration(redis), userId, period, now);
+    const fields = await redis.hGetAll(key);
+    if (fields._seeded) return fromCounterFields(fields);
+
+    const watermark = new Date(Date.now() - SEED_WATERMARK_LAG_MS);
+    const rows = await queryUsageByFeature(userId, since, watermark);
+    const reply = await redis.eval(SEED_COUNTERS_SCRIPT, {
+      keys: [key, pendingKey(key)],
+      arguments: [
+        String(Math.ceil(periodEnd(period, now).getTime() / 1000)),
+        String(watermark.getTime()),
+        ...rows.flatMap(row => USAGE_COLUMNS.flatMap(column => [
+          counterField(row.featureType, column),
+          String(row.sum[column] || 0),
+        ])),
+      ],
+    }) as string[];
+
+    const seeded: Record<string, string> = {};
+    for (let i = 0; i < reply.length; i += 2) seeded[reply[i]] = reply[i + 1];
+    return fromCounterFields(seeded);
+  } catch (error) {
+    console.warn('Redis quota counters unavailable, using the database:', (error as Error).message);
+    return queryUsageByFeature(userId, since);
+  }
+};
+
+let quotaRecording = true;
+
+/**
+ * Turn usage recording off (e.g. for offline prompt evaluation, which runs without a database)
+ */
+export const setQuotaRecording = (enabled: boolean): void => {
+  quotaRecording = enabled;
+};
+
+/**
+ * Log usage to quota_usage and add it to the user's quota counters
+ */
+export const recordQuotaUsage = async (data: Prisma.QuotaUsageUncheckedCreateInput): Promise<void> => {
+  if (!quotaRecording) return;
+  const { createdAt } = await prisma.quotaUsage.create({ data, select: { createdAt: true } });
+
+  const redis = getRedis();
+  if (!redis) return;
+  if (!redis.isReady) {
+    generationBumpPending = true;
+    return;
+  }
+
+  const increments = USAGE_COLUMNS
+    .filter(column => data[column])
+    .flatMap(column => [counterField(data.featureType, column), String(data[column])]);
+
+  try {
+    const generation = await getGeneration(redis);
+    const keys = QUOTA_PERIODS.flatMap(period => {
+      const key = counterKey(generation, data.userId, period, createdAt);
+      return [key, pendingKey(key)];
+    });
+    await redis.eval(INCREMENT_COUNTERS_SCRIPT, {
+      keys,
+      arguments: [String(createdAt.getTime()), ...increments],
+    });
+  } catch (error) {
+    console.warn('Failed to update quota counters:', (error as Error).message);
+    generationBumpPending = true;
+  }
+};
+
+/**
+ * Every limit that applies to a user, with what they have used this period
+ */
+export const getQuotaStatus = async (userId: string): Promise<QuotaStatus> => {
+  const now = new Date();
+  const [{ plan, limits }, daily, monthly] = await Promise.all([
+    getEffectiveLimits(userId),
+    getUsageByFeature(userId, 'daily', now),
+    getUsageByFeature(userId, 'monthly', now),
+  ]);
+
+  return {
+    plan,
+    limits: limits.map(limit => {
+      const used = (limit.period === 'daily' ? daily : monthly)
+        .filter(row => limit.featureType === ALL_FEATURES || row.featureType === limit.featureType)
+        .reduce((total, row) => total + (row.sum[METRIC_COLUMNS[limit.metric]] || 0), 0);
+
+      return {
+        ...limit,
+        used,
+        remaining: Math.max(0, limit.limit - used),
+        resetAt: periodEnd(limit.period, now),
+      };
+    }),
+  };
+};
+
+// Limits that count usage of a feature type
+const appliesTo = (limit: QuotaLimit, featureType?: string): boolean => {
+  return limit.featureType === ALL_FEATURES || limit.featureType === featureType;
+};
+
+/**
+ * The first used-up limit among the given metrics for a feature, if any
+ */
+export const findExceededLimit = (
+  status: QuotaStatus,
+  featureType: string | undefined,
+  metrics: QuotaMetric[]
+): QuotaLimitStatus | undefined => {
+  return status.limits.find(limit =>
+    metrics.includes(limit.metric) && appliesTo(limit, featureType) && limit.remaining <= 0
+  );
+};
+
+/**
+ * Tokens a user can still spend on a feature, Infinity when no token limit applies
+ */
+export const getRemainingTokens = (status: QuotaStatus, featureType?: string): number => {
+  return status.limits
+    .filter(limit => limit.metric === 'tokens' && appliesTo(limit, featureType))
+    .reduce((remaining, limit) => Math.min(remaining, limit.remaining), Infinity);
+};
+
+/**
+ * Set or, with a null limit, remove a limit override for a user or organization
+ */
+export const setQuotaOverride = async (
+  owner: { userId: string } | { organizationId: string },
+  limit: Omit<QuotaLimit, 'limit'> & { limit: number | null }
+): Promise<void> => {
+  const { featureType, metric, period } = limit;
+
+  if (limit.limit === null) {
+    await prisma.quotaOverride.deleteMany({ where: { ...owner, featureType, metric, period } });
+    return;
+  }
+
+  const where = 'userId' in owner
+    ? { userId_featureType_metric_period: { userId: owner.userId, featureType, metric, period } }
+    : { organizationId_featureType_metric_period: { organizationId: owner.organizationId, featureType, metric, period } };
+
+  await prisma.quotaOverride.upsert({
+    where,
+    create: { ...owner, featureType, metric, period, limit: limit.limit },
+    update: { limit: limit.limit },
+  });
+};
@@ -0,0 +1,36 @@
+import { LlmUsage } from './llm';
+
+/**
+ * Published prices in USD per million tokens, used to estimate spend.
+ * Where a model charges more for audio input, mediaInput is that rate; it is
+ * applied to every media token, so image-heavy calls are slightly overestimated.
+ */
+export interface ModelPrice {
+  input: number;
+  mediaInput?: number; // Defaults to input
+  output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.30, mediaInput: 1.00, output: 2.50 },
+  'gemini-2.0-flash': { input: 0.10, mediaInput: 0.70, output: 0.40 },
+  'gemini-3-pro-preview': { input: 2.00, output: 12.00 },
+  'gemini-2.5-flash-preview-tts': { input: 0.50, output: 10.00 },
+  'gemini-2.5-flash-native-audio-preview-09-2025': { input: 0.50, mediaInput: 3.00, output: 12.00 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Estimated cost in USD, or null when the model has no listed price
+ */
+export const estimateCost = (model: string | null, usage: LlmUsage): number | null => {
+  const price = model ? MODEL_PRICES[model] : undefined;
+  if (!price) return null;
+
+  const textInput = usage.inputTokens - usage.mediaTokens;
+  return (
+    textInput * price.input
+    + usage.mediaTokens * (price.mediaInput ?? price.input)
+    + usage.outputTokens * price.output
+  ) / 1_000_000;
+};
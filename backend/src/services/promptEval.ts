@@ -0,0 +1,372 @@
+import { LlmProvider, setLlmProvider } from './llm';
+import { isLlmError } from './llmResilience';
+import { setQuotaRecording } from './plans';
+import { PROMPTS, PromptTemplate, setPromptPins } from './prompts';
+import { callGemini, gradeSession } from './gemini';
+import {
+  analyzeATS,
+  gapAnalysis,
+  optimizeResume,
+  culturalTranslate,
+  analyzePresentation,
+  generateListeningScenario,
+  generateBio,
+  searchJobs,
+} from './capabilities';
+
+/**
+ * Offline prompt evaluation. A dataset of inputs is replayed through one
+ * version of a prompt template on a chosen provider, each output is checked
+ * against the feature's schema (by the same code the API uses) and a simple
+ * rubric, and two runs can be compared to see whether a new prompt version
+ * helped or broke something. Nothing is written to the database.
+ */
+
+export interface EvalExpectations {
+  scoreRange?: [number, number]; // For outputs with a score or overview.score
+  mentions?: string[]; // Phrases the output should contain, case-insensitive
+  excludes?: string[]; // Phrases it must not contain
+  minItems?: Record<string, number>; // Minimum length of top-level arrays
+  maxChars?: number; // For text outputs
+}
+
+export interface EvalCase {
+  id: string;
+  input: Record<string, string>;
+  expect?: EvalExpectations;
+}
+
+export interface EvalDataset {
+  suite: string; // Key of EVAL_SUITES
+  description?: string;
+  cases: EvalCase[];
+}
+
+export interface EvalCheck {
+  check: string;
+  passed: boolean;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  valid: boolean; // Produced output matching the schema, possibly after a repair attempt
+  attempts: number; // Model calls made; more than one means the first reply failed validation
+  error?: string;
+  checks: EvalCheck[];
+  rubricScore: number | null; // Share of checks passed, null without expectations
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  output?: unknown;
+}
+
+export interface EvalSummary {
+  cases: number;
+  validRate: number;
+  firstAttemptValidRate: number;
+  avgRubricScore: number | null;
+  avgOutputTokens: number;
+  avgLatencyMs: number;
+}
+
+export interface EvalRun {
+  suite: string;
+  templateId: string;
+  version: number;
+  provider: string;
+  startedAt: string;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+interface EvalSuite {
+  template: PromptTemplate;
+  run: (input: Record<string, string>) => Promise<unknown>;
+}
+
+const EVAL_USER_ID = 'prompt-eval';
+
+// Replies must come from the model under test, never the response cache
+const NO_CACHE = { bypassCache: true };
+
+/**
+ * What each dataset suite evaluates: the template whose versions are compared
+ * and how a case's input is run through the feature
+ */
+export const EVAL_SUITES: Record<string, EvalSuite> = {
+  ats_analysis: {
+    template: PROMPTS.atsAnalysis,
+    run: input => analyzeATS(EVAL_USER_ID, input.resumeText, input.jobDescription, NO_CACHE),
+  },
+  gap_analysis: {
+    template: PROMPTS.gapAnalysis,
+    run: input => gapAnalysis(EVAL_USER_ID, input.resumeText, input.jobDescription, NO_CACHE),
+  },
+  resume_optimize: {
+    template: PROMPTS.resumeOptimizeStrict,
+    run: input => optimizeResume(EVAL_USER_ID, input.resumeText, input.jobDescription, 'strict', NO_CACHE),
+  },
+  cultural_translate: {
+    template: PROMPTS.culturalTranslate,
+    run: input => culturalTranslate(EVAL_USER_ID, input.phrase, NO_CACHE),
+  },
+  presentation_analysis: {
+    template: PROMPTS.presentationAnalysis,
+    run: input => analyzePresentation(EVAL_USER_ID, input.text, NO_CACHE),
+  },
+  listening_scenario: {
+    template: PROMPTS.listeningScenario,
+    run: input => generateListeningScenario(EVAL_USER_ID, input.topic, input.difficulty, NO_CACHE),
+  },
+  job_search: {
+    template: PROMPTS.jobSearch,
+    run: input => searchJobs(EVAL_USER_ID, input.query, input.userRole, NO_CACHE),
+  },
+  bio: {
+    template: PROMPTS.bio,
+    run: input => generateBio(EVAL_USER_ID, input.context, input.platform, NO_CACHE),
+  },
+  session_feedback: {
+    template: PROMPTS.sessionFeedback,
+    run: input => gradeSession({
+      id: input.id || 'eval',
+      userId: EVAL_USER_ID,
+      featureType: input.featureType || 'conversation',
+      transcript: input.transcript || null,
+      userResponses: input.userResponses || null,
+      durationSeconds: Number(input.durationSeconds) || 300,
+      completed: true,
+      createdAt: new Date(),
+    }),
+  },
+  conversation: {
+    template: PROMPTS.conversationSystem,
+    run: async input => (await callGemini({
+      userId: EVAL_USER_ID,
+      featureType: 'conversation',
+      prompt: input.prompt,
+    })).text,
+  },
+};
+
+/**
+ * Read and check a dataset, throwing with the first problem found
+ */
+export const parseEvalDataset = (json: string): EvalDataset => {
+  const dataset = JSON.parse(json);
+
+  if (!EVAL_SUITES[dataset?.suite]) {
+    throw new Error(`Dataset suite must be one of: ${Object.keys(EVAL_SUITES).join(', ')}`);
+  }
+  if (!Array.isArray(dataset.cases) || dataset.cases.length === 0) {
+    throw new Error('Dataset must have a non-empty cases array');
+  }
+  dataset.cases.forEach((evalCase: EvalCase, i: number) => {
+    if (typeof evalCase?.id !== 'string' || typeof evalCase.input !== 'object' || !evalCase.input) {
+      throw new Error(`Case ${i} needs an id and an input object`);
+    }
+  });
+
+  return dataset;
+};
+
+const scoreOf = (output: any): number | undefined => {
+  const score = output?.score ?? output?.overview?.score;
+  return typeof score === 'number' ? score : undefined;
+};
+
+/**
+ * Check an output against a case's expectations
+ */
+export const scoreRubric = (output: unknown, expect: EvalExpectations = {}): EvalCheck[] => {
+  const text = (typeof output === 'string' ? output : JSON.stringify(output)).toLowerCase();
+  const checks: EvalCheck[] = [];
+
+  if (expect.scoreRange) {
+    const [min, max] = expect.scoreRange;
+    const score = scoreOf(output);
+    checks.push({ check: `score between ${min} and ${max}`, passed: score !== undefined && score >= min && score <= max });
+  }
+  for (const phrase of expect.mentions || []) {
+    checks.push({ check: `mentions "${phrase}"`, passed: text.includes(phrase.toLowerCase()) });
+  }
+  for (const phrase of expect.excludes || []) {
+    checks.push({ check: `avoids "${phrase}"`, passed: !text.includes(phrase.toLowerCase()) });
+  }
+  for (const [key, min] of Object.entries(expect.minItems || {})) {
+    const value = (output as Record<string, unknown> | null)?.[key];
+    checks.push({ check: `${key} has at least ${min} items`, passed: Array.isArray(value) && value.length >= min });
+  }
+  if (expect.maxChars) {
+    checks.push({ check: `at most ${expect.maxChars} characters`, passed: text.length <= expect.maxChars });
+  }
+
+  return checks;
+};
+
+// Count the calls and tokens a case makes by wrapping the provider under test
+const meterProvider = (inner: LlmProvider) => {
+  const meter = { calls: 0, inputTokens: 0, outputTokens: 0 };
+
+  const provider: LlmProvider = {
+    ...inner,
+    async generate(request) {
+      const result = await inner.generate(request);
+      meter.calls++;
+      meter.inputTokens += result.usage?.inputTokens || 0;
+      meter.outputTokens += result.usage?.outputTokens || 0;
+      return result;
+    },
+  };
+
+  return { provider, meter };
+};
+
+const average = (values: number[]): number => {
+  return values.length === 0 ? 0 : values.reduce((total, value) => total + value, 0) / values.length;
+};
+
+const summarize = (cases: EvalCaseResult[]): EvalSummary => {
+  const rubricScores = cases.map(result => result.rubricScore).filter((score): score is number => score !== null);
+
+  return {
+    cases: cases.length,
+    validRate: average(cases.map(result => result.valid ? 1 : 0)),
+    firstAttemptValidRate: average(cases.map(result => result.valid && result.attempts === 1 ? 1 : 0)),
+    avgRubricScore: rubricScores.length === 0 ? null : average(rubricScores),
+    avgOutputTokens: Math.round(average(cases.map(result => result.outputTokens))),
+    avgLatencyMs: Math.round(average(cases.map(result => result.latencyMs))),
+  };
+};
+
+/**
+ * Run every case of a dataset through one version of its suite's template.
+ * Cases run one at a time so latency and provider rate limits stay comparable.
+ */
+export const runEvaluation = async (
+  dataset: EvalDataset,
+  version: number,
+  provider: LlmProvider
+): Promise<EvalRun> => {
+  const suite = EVAL_SUITES[dataset.suite];
+  const { template } = suite;
+  if (!Number.isInteger(version) || version < 1 || version > template.versions.length) {
+    throw new Error(`${template.id} has versions 1 to ${template.versions.length}`);
+  }
+
+  const metered = meterProvider(provider);
+  const startedAt = new Date().toISOString();
+  const cases: EvalCaseResult[] = [];
+
+  setQuotaRecording(false);
+  setPromptPins({ [template.id]: version });
+  setLlmProvider(metered.provider);
+
+  try {
+    for (const evalCase of dataset.cases) {
+      Object.assign(metered.meter, { calls: 0, inputTokens: 0, outputTokens: 0 });
+      const started = Date.now();
+      let output: unknown;
+      let error: string | undefined;
+
+      try {
+        output = await suite.run(evalCase.input);
+      } catch (caught) {
+        error = isLlmError(caught) ? caught.code : (caught as Error).message;
+      }
+
+      const checks = error ? [] : scoreRubric(output, evalCase.expect);
+      const hasExpectations = Object.keys(evalCase.expect || {}).length > 0;
+
+      cases.push({
+        id: evalCase.id,
+        valid: !error,
+        attempts: metered.meter.calls,
+        ...(error && { error }),
+        checks,
+        rubricScore: !hasExpectations ? null : error ? 0 : average(checks.map(check => check.passed ? 1 : 0)),
+        inputTokens: metered.meter.inputTokens,
+        outputTokens: metered.meter.outputTokens,
+        latencyMs: Date.now() - started,
+        ...(output !== undefined && { output }),
+      });
+    }
+  } finally {
+    setPromptPins(null);
+  }
+
+  return {
+    suite: dataset.suite,
+    templateId: template.id,
+    version,
+    provider: `${provider.name}/${provider.model}`,
+    startedAt,
+    summary: summarize(cases),
+    cases,
+  };
+};
+
+// Cases that were valid in the baseline but fail in the candidate
+export const findRegressions = (baseline: EvalRun, candidate: EvalRun): string[] => {
+  return candidate.cases
+    .filter(result => !result.valid && baseline.cases.find(before => before.id === result.id)?.valid)
+    .map(result => result.id);
+};
+
+const percent = (rate: number | null): string => rate === null ? '-' : `${Math.round(rate * 100)}%`;
+
+const delta = (before: number | null, after: number | null, format: (value: number) => string): string => {
+  if (before === null || after === null || before === after) return '';
+  return `${after > before ? '+' : '-'}${format(Math.abs(after - before))}`;
+};
+
+const describeCase = (result?: EvalCaseResult): string => {
+  if (!result) return '-';
+  if (!result.valid) return `invalid (${result.error})`;
+  const rubric = result.rubricScore === null ? '' : `, rubric ${percent(result.rubricScore)}`;
+  return `valid${result.attempts > 1 ? ` after ${result.attempts} attempts` : ''}${rubric}`;
+};
+
+/**
+ * Markdown report comparing two runs of the same dataset
+ */
+export const formatComparisonReport = (baseline: EvalRun, candidate: EvalRun): string => {
+  const before = baseline.summary;
+  const after = candidate.summary;
+  const regressions = findRegressions(baseline, candidate);
+
+  const rows: Array<[string, string, string, string]> = [
+    ['Valid output', percent(before.validRate), percent(after.validRate), delta(before.validRate, after.validRate, percent)],
+    ['Valid on first attempt', percent(before.firstAttemptValidRate), percent(after.firstAttemptValidRate), delta(before.firstAttemptValidRate, after.firstAttemptValidRate, percent)],
+    ['Rubric score', percent(before.avgRubricScore), percent(after.avgRubricScore), delta(before.avgRubricScore, after.avgRubricScore, percent)],
+    ['Avg output tokens', String(before.avgOutputTokens), String(after.avgOutputTokens), delta(before.avgOutputTokens, after.avgOutputTokens, String)],
+    ['Avg latency (ms)', String(before.avgLatencyMs), String(after.avgLatencyMs), delta(before.avgLatencyMs, after.avgLatencyMs, String)],
+  ];
+
+  const caseRows = candidate.cases.map(result => {
+    const previous = baseline.cases.find(before => before.id === result.id);
+    const failed = result.checks.filter(check => !check.passed).map(check => check.check).join('; ');
+    return `| ${result.id} | ${describeCase(previous)} | ${describeCase(result)} | ${failed || '-'} |`;
+  });
+
+  return [
+    `# ${candidate.templateId}: v${baseline.version} vs v${candidate.version}`,
+    '',
+    `Suite \`${candidate.suite}\`, ${after.cases} cases, provider \`${candidate.provider}\`, run ${candidate.startedAt}`,
+    '',
+    `| Metric | v${baseline.version} | v${candidate.version} | Change |`,
+    '|--------|------|------|--------|',
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+    '',
+    regressions.length > 0
+      ? `**Regressions:** ${regressions.join(', ')} no longer produce valid output.`
+      : 'No cases regressed to invalid output.',
+    '',
+    '## Cases',
+    '',
+    `| Case | v${baseline.version} | v${candidate.version} | Failed checks (v${candidate.version}) |`,
+    '|------|------|------|------|',
+    ...caseRows,
+    '',
+  ].join('\n');
+};
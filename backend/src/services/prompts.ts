@@ -0,0 +1,437 @@
+import { prisma } from '../db';
+
+/**
+ * Every prompt the backend sends, as named templates with numbered versions.
+ * Variables are written {{name}} and must be declared on the template, which
+ * types the values renderPrompt accepts. The newest version is used unless an
+ * admin pins an older one (PromptVersionPin), which rolls a bad prompt back
+ * without a deploy. The template id and version used are recorded on
+ * QuotaUsage and Session rows so outcomes can be compared across versions.
+ *
+ * To change a prompt, append a version rather than editing one in place.
+ */
+
+export interface PromptVersion {
+  version: number;
+  system?: string;
+  user?: string;
+}
+
+export interface PromptTemplate<V extends string = string> {
+  id: string;
+  description: string;
+  variables: readonly V[];
+  versions: PromptVersion[]; // Oldest first
+}
+
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptRef {
+  system?: string;
+  user: string;
+}
+
+const definePrompt = <V extends string>(template: PromptTemplate<V>): PromptTemplate<V> => template;
+
+export const PROMPTS = {
+  // Feature system prompts for free-form practice (/api/gemini/process)
+  conversationSystem: definePrompt({
+    id: 'system.conversation',
+    description: 'Coach persona for conversation practice',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'You are an elite communication coach helping international professionals master negotiation and high-stakes conversations. Provide real-time feedback on tone, pace, clarity, and confidence. Simulate realistic corporate scenarios and adapt difficulty based on performance.',
+    }],
+  }),
+  writingSystem: definePrompt({
+    id: 'system.writing',
+    description: 'Resume and writing expert; also the default for writing tools without their own system prompt',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'You are a professional resume and communication expert. Analyze resume gaps, identify industry keywords, and simulate tough interview questions. Provide specific, actionable improvements with before/after examples.',
+    }],
+  }),
+  accentSystem: definePrompt({
+    id: 'system.accent',
+    description: 'Speech coach for accent practice',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'You are a speech coach for international professionals. Focus on clarity over perfection. Provide specific exercises for problematic phonemes and track improvement over sessions.',
+    }],
+  }),
+  listeningSystem: definePrompt({
+    id: 'system.listening',
+    description: 'Listening comprehension coach',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'You are a listening comprehension coach. After presenting an audio scenario, ask comprehension questions and provide constructive feedback on understanding.',
+    }],
+  }),
+
+  // Structured output
+  jsonRepair: definePrompt({
+    id: 'json.repair',
+    description: 'Follow-up asking for a capability reply that failed schema validation to be fixed',
+    variables: ['errors'],
+    versions: [{
+      version: 1,
+      user: 'Your previous reply did not match the required JSON schema:\n{{errors}}\nReply again with only the corrected JSON.',
+    }],
+  }),
+  sessionFeedback: definePrompt({
+    id: 'feedback.session',
+    description: 'Grade a practice session; transcript and responses are headed sections, empty when missing',
+    variables: ['featureType', 'durationSeconds', 'schema', 'transcript', 'responses'],
+    versions: [{
+      version: 1,
+      user: [
+        'Review this {{featureType}} practice session ({{durationSeconds}} seconds) and grade the learner.',
+        'Respond with a single JSON object and nothing else, matching this schema exactly:',
+        '{{schema}}',
+        '{{transcript}}',
+        '{{responses}}',
+      ].join('\n\n'),
+    }],
+  }),
+  feedbackRepair: definePrompt({
+    id: 'feedback.repair',
+    description: 'Follow-up asking for session feedback that failed validation to be fixed',
+    variables: ['errors'],
+    versions: [{
+      version: 1,
+      user: 'Your previous reply did not match the required schema:\n{{errors}}\nReply again with only the corrected JSON object.',
+    }],
+  }),
+
+  // Capabilities (services/capabilities.ts)
+  jobSearch: definePrompt({
+    id: 'capability.job_search',
+    description: 'Remote-friendly job listings via Google Search',
+    variables: ['userRole', 'query'],
+    versions: [{
+      version: 1,
+      system: 'Act as an Executive Recruiter for international professionals applying to US companies.',
+      user: [
+        'Find 5 highly relevant remote job listings for a {{userRole}}. Search query: {{query}}.',
+        'Focus on roles that sponsor visas or accept remote contractors.',
+        'Return strictly a JSON object: {"jobs": [{"title", "company", "location", "description", "url"}]}',
+      ].join('\n'),
+    }],
+  }),
+  accentAnalysis: definePrompt({
+    id: 'capability.accent_analysis',
+    description: 'Score a recording of a reference phrase',
+    variables: ['referenceText'],
+    versions: [{
+      version: 1,
+      system: 'Act as a Linguistic Coach specializing in General American Accent (GenAm).',
+      user: 'Analyze this audio recording of a speaker reading: "{{referenceText}}". Score their clarity from 0 to 100 and give specific feedback on the sounds to practise.',
+    }],
+  }),
+  videoAnalysis: definePrompt({
+    id: 'capability.video_analysis',
+    description: 'Non-verbal analysis of frames from a video answer',
+    variables: ['question', 'transcript'],
+    versions: [{
+      version: 1,
+      system: 'Act as a Non-Verbal Communication Expert.',
+      user: [
+        'QUESTION: "{{question}}"',
+        'TRANSCRIPT: "{{transcript}}"',
+        'The images are frames taken every few seconds while the candidate answered. Analyze confidence evolution, non-verbal cues, and consistency between words and body language.',
+      ].join('\n'),
+    }],
+  }),
+  culturalTranslate: definePrompt({
+    id: 'capability.cultural_translate',
+    description: 'How a phrase lands in US corporate culture',
+    variables: ['phrase'],
+    versions: [{
+      version: 1,
+      system: 'Act as a cross-cultural communication coach for US corporate workplaces.',
+      user: 'Analyze the phrase "{{phrase}}" for US corporate culture: how it is perceived, what Americans hear behind it, and better alternatives.',
+    }],
+  }),
+  gapAnalysis: definePrompt({
+    id: 'capability.gap_analysis',
+    description: 'Missing skills and fit score for a resume against a job',
+    variables: ['resumeText', 'jobDescription'],
+    versions: [{
+      version: 1,
+      user: 'Resume Gap Analysis. Score how well the resume fits the job from 0 to 100.\nRESUME: {{resumeText}}\nJOB: {{jobDescription}}',
+    }],
+  }),
+  presentationAnalysis: definePrompt({
+    id: 'capability.presentation_analysis',
+    description: 'Summary, audience questions and improvements for a presentation',
+    variables: ['text'],
+    versions: [{
+      version: 1,
+      user: 'Analyze this presentation text. Summarize it, anticipate the toughest audience questions with strong answers, and list improvements.\nCONTENT: "{{text}}"',
+    }],
+  }),
+  listeningScenario: definePrompt({
+    id: 'capability.listening_scenario',
+    description: 'Workplace listening exercise with vocabulary and questions',
+    variables: ['topic', 'difficulty'],
+    versions: [{
+      version: 1,
+      user: [
+        'Create a realistic workplace listening scenario for an English learner.',
+        'TOPIC: {{topic}}.',
+        'DIFFICULTY: {{difficulty}}.',
+        "CONTEXT: Create a scenario with a specific 'Audio Texture' (e.g., Busy Coffee Shop, Quiet Office, Zoom Call with slight echo).",
+        'TASKS:',
+        '1. Write a script (~150 words).',
+        '2. Extract 3-5 key idioms/vocabulary words used in the script.',
+        '3. Create 3 comprehension questions.',
+      ].join('\n'),
+    }],
+  }),
+  atsAnalysis: definePrompt({
+    id: 'capability.ats_analysis',
+    description: 'Applicant tracking system check of a resume',
+    variables: ['resumeText', 'jobDescription'],
+    versions: [{
+      version: 1,
+      user: "ATS Analysis. Score the resume's match from 0 to 100.\nRESUME: {{resumeText}}\nJOB: {{jobDescription}}",
+    }],
+  }),
+  resumeOptimizeStrict: definePrompt({
+    id: 'capability.resume_optimize_strict',
+    description: 'Resume rewrite that keeps to the facts',
+    variables: ['resumeText', 'jobDescription'],
+    versions: [{
+      version: 1,
+      system: 'Act as a Resume Writer.',
+      user: 'Enhance existing content. Do not invent facts. Improve grammar, formatting, and impact verbs.\nRESUME: {{resumeText}}\nJOB: {{jobDescription}}',
+    }],
+  }),
+  resumeOptimizeCreative: definePrompt({
+    id: 'capability.resume_optimize_creative',
+    description: 'Resume rewrite aligned closely to the job description',
+    variables: ['resumeText', 'jobDescription'],
+    versions: [{
+      version: 1,
+      system: 'Act as a Resume Writer.',
+      user: 'Rewrite to align with JD. You may rephrase bullets significantly but maintain core truth.\nRESUME: {{resumeText}}\nJOB: {{jobDescription}}',
+    }],
+  }),
+  bio: definePrompt({
+    id: 'capability.bio',
+    description: 'Professional bio for a platform',
+    variables: ['platform', 'context'],
+    versions: [{
+      version: 1,
+      user: 'Write a professional {{platform}} bio for: {{context}}.',
+    }],
+  }),
+
+  // Live voice calls (services/liveRelay.ts); context is a CONTEXT: section or empty, persona a rendered persona.* prompt
+  liveIntro: definePrompt({
+    id: 'live.intro',
+    description: 'Behavioral interview call',
+    variables: ['context', 'persona'],
+    versions: [{
+      version: 1,
+      system: 'You are a hiring manager running a behavioral interview. Ask one question at a time and probe for specific examples.\n\n{{context}}\n\n{{persona}}',
+    }],
+  }),
+  liveSalary: definePrompt({
+    id: 'live.salary',
+    description: 'Salary negotiation call',
+    variables: ['context', 'persona'],
+    versions: [{
+      version: 1,
+      system: 'You are an HR representative negotiating a job offer. Hold a realistic budget line and make the candidate justify their ask.\n\n{{context}}\n\n{{persona}}',
+    }],
+  }),
+  liveSmalltalk: definePrompt({
+    id: 'live.smalltalk',
+    description: 'Casual small talk call',
+    variables: ['context', 'persona'],
+    versions: [{
+      version: 1,
+      system: 'Engage in casual small talk with a colleague before a meeting. Keep it light, natural and idiomatic.\n\n{{context}}\n\n{{persona}}',
+    }],
+  }),
+  liveHardFeedback: definePrompt({
+    id: 'live.hard_feedback',
+    description: 'Tough feedback call',
+    variables: ['context', 'persona'],
+    versions: [{
+      version: 1,
+      system: 'You are a manager giving an employee difficult feedback about missed deadlines. Stay firm but fair.\n\n{{context}}\n\n{{persona}}',
+    }],
+  }),
+  personaDefault: definePrompt({
+    id: 'persona.default',
+    description: 'Live call persona: encouraging coach',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'ROLE: Expert Communication Coach. TONE: Professional, encouraging. OBJECTIVE: Improve American Business English.',
+    }],
+  }),
+  personaSkeptic: definePrompt({
+    id: 'persona.skeptic',
+    description: 'Live call persona: skeptical hiring manager',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'ROLE: Skeptical Senior Hiring Manager. TONE: Critical, detail-oriented. OBJECTIVE: Drill down into vague answers.',
+    }],
+  }),
+  personaAlly: definePrompt({
+    id: 'persona.ally',
+    description: 'Live call persona: supportive mentor',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'ROLE: Supportive Mentor. TONE: Warm, patient. OBJECTIVE: Build confidence.',
+    }],
+  }),
+  personaExecutive: definePrompt({
+    id: 'persona.executive',
+    description: 'Live call persona: impatient CEO',
+    variables: [],
+    versions: [{
+      version: 1,
+      system: 'ROLE: Fortune 500 CEO. TONE: Direct, impatient. OBJECTIVE: Test high-value communication.',
+    }],
+  }),
+};
+
+const TEMPLATES: PromptTemplate[] = Object.values(PROMPTS);
+
+const placeholders = (text: string = ''): string[] => {
+  return [...text.matchAll(/\{\{(\w+)\}\}/g)].map(match => match[1]);
+};
+
+// Catch typos in the registry at startup rather than in a rendered prompt
+for (const template of TEMPLATES) {
+  template.versions.forEach((version, i) => {
+    if (version.version !== i + 1) {
+      throw new Error(`Prompt ${template.id} versions must be numbered 1, 2, 3...`);
+    }
+    const undeclared = [...placeholders(version.system), ...placeholders(version.user)]
+      .filter(name => !template.variables.includes(name));
+    if (undeclared.length > 0) {
+      throw new Error(`Prompt ${template.id} v${version.version} uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+  });
+}
+
+export const getPromptTemplate = (id: string): PromptTemplate | undefined => {
+  return TEMPLATES.find(template => template.id === id);
+};
+
+const FEATURE_SYSTEM_PROMPTS: Record<string, PromptTemplate> = {
+  conversation: PROMPTS.conversationSystem,
+  writing: PROMPTS.writingSystem,
+  accent: PROMPTS.accentSystem,
+  listening: PROMPTS.listeningSystem,
+};
+
+// System prompt template for a feature, if it has one
+export const featureSystemPrompt = (featureType?: string): PromptTemplate | undefined => {
+  return FEATURE_SYSTEM_PROMPTS[featureType || 'conversation'];
+};
+
+// Pins are shared through the database and re-read at most this often
+const PIN_CACHE_MS = 30 * 1000;
+let pinCache: { pins: Map<string, number>; loadedAt: number } | null = null;
+
+let fixedPins: Map<string, number> | null = null;
+
+const loadPins = async (): Promise<Map<string, number>> => {
+  if (fixedPins) return fixedPins;
+  if (pinCache && Date.now() - pinCache.loadedAt < PIN_CACHE_MS) return pinCache.pins;
+
+  try {
+    const rows = await prisma.promptVersionPin.findMany();
+    pinCache = { pins: new Map(rows.map(row => [row.templateId, row.version])), loadedAt: Date.now() };
+  } catch (error) {
+    // Keep serving the last known pins (or the newest versions) rather than failing the request
+    console.error('Failed to load prompt version pins:', error);
+    pinCache = { pins: pinCache?.pins || new Map(), loadedAt: Date.now() };
+  }
+  return pinCache.pins;
+};
+
+/**
+ * Use these pins instead of the database's (e.g. to evaluate a version offline), or go back with null
+ */
+export const setPromptPins = (pins: Record<string, number> | null): void => {
+  fixedPins = pins && new Map(Object.entries(pins));
+};
+
+/**
+ * The version of a template in use: the pinned one, else the newest
+ */
+export const getActiveVersion = async (template: PromptTemplate): Promise<number> => {
+  const pinned = (await loadPins()).get(template.id);
+  return pinned && pinned <= template.versions.length ? pinned : template.versions.length;
+};
+
+/**
+ * Fill in the active version of a template. Empty variables leave no blank gaps.
+ */
+export const renderPrompt = async <V extends string>(
+  template: PromptTemplate<V>,
+  variables: Record<V, string | number>
+): Promise<RenderedPrompt> => {
+  const version = await getActiveVersion(template);
+  const { system, user } = template.versions[version - 1];
+
+  const fill = (text: string): string => text
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(variables[name as V] ?? ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    id: template.id,
+    version,
+    ...(system && { system: fill(system) }),
+    user: user ? fill(user) : '',
+  };
+};
+
+/**
+ * Every template with its versions and which one is in use
+ */
+export const listPromptTemplates = async () => {
+  const pins = await loadPins();
+
+  return TEMPLATES.map(template => ({
+    id: template.id,
+    description: template.description,
+    variables: template.variables,
+    versions: template.versions,
+    latestVersion: template.versions.length,
+    pinnedVersion: pins.get(template.id) ?? null,
+  }));
+};
+
+/**
+ * Pin a template to a version, or with null go back to the newest
+ */
+export const pinPromptVersion = async (templateId: string, version: number | null, pinnedBy: string): Promise<void> => {
+  if (version === null) {
+    await prisma.promptVersionPin.deleteMany({ where: { templateId } });
+  } else {
+    await prisma.promptVersionPin.upsert({
+      where: { templateId },
+      create: { templateId, version, pinnedBy },
+      update: { version, pinnedBy },
+    });
+  }
+  pinCache = null;
+};
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { getRedis } from '../db/redis';
+import { LlmMedia, LlmRequest, LlmUsage } from './llm';
+
+/**
+ * Content-addressed cache of model replies, so repeating an identical request
+ * doesn't call the model or charge quota again. Entries live in Redis when
+ * REDIS_URL is set, otherwise in a small in-process LRU.
+ */
+
+export interface CachedResponse {
+  text: string;
+  model: string;
+  usage: LlmUsage; // What the original call cost
+  audio?: LlmMedia;
+}
+
+const KEY_PREFIX = 'llmcache:';
+const MAX_MEMORY_ENTRIES = 200;
+
+const memory = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+/**
+ * Hash of everything that shapes the reply: provider, model, prompts, media and options
+ */
+export const responseCacheKey = (provider: { name: string; model: string }, request: LlmRequest): string => {
+  const hash = createHash('sha256')
+    .update(JSON.stringify({
+      provider: provider.name,
+      model: request.model || provider.model,
+      systemPrompt: request.systemPrompt,
+      messages: request.messages,
+      responseJsonSchema: request.responseJsonSchema,
+      googleSearch: request.googleSearch,
+      thinkingBudget: request.thinkingBudget,
+      speech: request.speech,
+    }))
+    .digest('hex');
+
+  return KEY_PREFIX + hash;
+};
+
+export const getCachedResponse = async (key: string): Promise<CachedResponse | null> => {
+  const redis = getRedis();
+  if (redis?.isReady) {
+    try {
+      const value = await redis.get(key);
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      console.warn('Response cache read failed:', (error as Error).message);
+      return null;
+    }
+  }
+
+  const entry = memory.get(key);
+  if (!entry) return null;
+  memory.delete(key);
+  if (entry.expiresAt <= Date.now()) return null;
+
+  // Re-insert so the Map's order stays least recently used first
+  memory.set(key, entry);
+  return entry.value;
+};
+
+export const setCachedResponse = async (key: string, value: CachedResponse, ttlSeconds: number): Promise<void> => {
+  const redis = getRedis();
+  if (redis?.isReady) {
+    try {
+      await redis.set(key, JSON.stringify(value), { EX: ttlSeconds });
+    } catch (error) {
+      console.warn('Response cache write failed:', (error as Error).message);
+    }
+    return;
+  }
+
+  memory.delete(key);
+  memory.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+};
+
+export const evictCachedResponse = async (key: string): Promise<void> => {
+  memory.delete(key);
+  const redis = getRedis();
+  if (redis?.isReady) {
+    await redis.del(key).catch(() => {});
+  }
+};
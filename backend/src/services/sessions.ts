@@ -0,0 +1,307 @@
+import { Prisma, Session } from '@prisma/client';
+import { prisma } from '../db';
+import { AppError } from '../middleware/errorHandler';
+
+// Clients send a heartbeat this often while the learner is practising
+export const HEARTBEAT_INTERVAL_SECONDS = 30;
+// A longer gap between heartbeats (tab asleep, connection lost) only counts this much
+const MAX_HEARTBEAT_GAP_SECONDS = 90;
+// Active sessions without a heartbeat for this long are abandoned by the background job
+export const STALE_SESSION_MINUTES = 30;
+
+// Sessions shorter than this earn nothing, so creating and completing empty sessions can't farm XP
+const MIN_XP_SESSION_SECONDS = 60;
+const BASE_SESSION_XP = 50;
+const XP_PER_MINUTE = 10;
+const MAX_SESSION_XP = 200;
+const XP_PER_LEVEL = 1000;
+
+export type SessionState = 'active' | 'completed' | 'abandoned';
+
+const sessionError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Sessions saved before completedAt existed are only marked completed
+export const getSessionState = (session: Pick<Session, 'completed' | 'abandonedAt'>): SessionState => {
+  if (session.completed) return 'completed';
+  if (session.abandonedAt) return 'abandoned';
+  return 'active';
+};
+
+const ACTIVE: Prisma.SessionWhereInput = { completed: false, abandonedAt: null };
+
+// Seconds of practice since the last heartbeat
+const secondsSince = (lastHeartbeatAt: Date, now: Date): number => {
+  const seconds = Math.round((now.getTime() - lastHeartbeatAt.getTime()) / 1000);
+  return Math.min(Math.max(seconds, 0), MAX_HEARTBEAT_GAP_SECONDS);
+};
+
+/**
+ * XP for a completed session: a base amount plus a little per minute practised,
+ * once at least a minute has been practised
+ */
+export const sessionXp = (durationSeconds: number): number => {
+  if (durationSeconds < MIN_XP_SESSION_SECONDS) return 0;
+  return Math.min(BASE_SESSION_XP + XP_PER_MINUTE * Math.floor(durationSeconds / 60), MAX_SESSION_XP);
+};
+
+/**
+ * Add XP to a user and bring their level up to date
+ */
+export const awardXp = async (tx: Prisma.TransactionClient, userId: string, xp: number): Promise<void> => {
+  const user = await tx.user.update({
+    where: { id: userId },
+    data: { xp: { increment: xp } },
+    select: { xp: true },
+  });
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { level: Math.floor(user.xp / XP_PER_LEVEL) + 1 },
+  });
+};
+
+/**
+ * Load one of the user's sessions, failing unless it is still active
+ */
+const findActiveSession = async (tx: Prisma.TransactionClient, sessionId: string, userId: string): Promise<Session> => {
+  const session = await tx.session.findUnique({ where: { id: sessionId } });
+  if (!session || session.userId !== userId) {
+    throw sessionError('Session not found', 404);
+  }
+
+  const state = getSessionState(session);
+  if (state !== 'active') {
+    throw sessionError(`Session has already been ${state}`, 409);
+  }
+  return session;
+};
+
+/**
+ * Count the time since the last heartbeat towards an active session and apply
+ * any other changes. The update only applies if no other request moved the
+ * session on in the meantime, so time is never counted twice.
+ */
+const advanceSession = async (
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  userId: string,
+  now: Date,
+  data: Prisma.SessionUpdateManyMutationInput = {}
+): Promise<{ session: Session; advanced: boolean }> => {
+  const active = await findActiveSession(tx, sessionId, userId);
+
+  const { count } = await tx.session.updateMany({
+    where: { id: active.id, lastHeartbeatAt: active.lastHeartbeatAt, ...ACTIVE },
+    data: {
+      durationSeconds: { increment: secondsSince(active.lastHeartbeatAt, now) },
+      lastHeartbeatAt: now,
+      ...data,
+    },
+  });
+
+  if (count === 0) {
+    // Lost the race: fails if the other request ended the session
+    return { session: await findActiveSession(tx, sessionId, userId), advanced: false };
+  }
+  return { session: await tx.session.findUniqueOrThrow({ where: { id: active.id } }), advanced: true };
+};
+
+/**
+ * Count the time since the previous heartbeat towards the session's duration
+ */
+export const recordHeartbeat = async (sessionId: string, userId: string, now: Date = new Date()): Promise<Session> => {
+  return prisma.$transaction(async tx => {
+    const { session } = await advanceSession(tx, sessionId, userId, now);
+    return session;
+  });
+};
+
+/**
+ * Record scores, transcript and feedback on an active session. Ended sessions are
+ * frozen so their results, XP and the completed-only averages stay as they were.
+ */
+export const updateSessionResults = async (
+  sessionId: string,
+  userId: string,
+  data: Prisma.SessionUpdateManyMutationInput
+): Promise<Session> => {
+  return prisma.$transaction(async tx => {
+    const active = await findActiveSession(tx, sessionId, userId);
+
+    const { count } = await tx.session.updateMany({ where: { id: active.id, ...ACTIVE }, data });
+    if (count === 0) {
+      // Completed or abandoned since it was loaded
+      await findActiveSession(tx, sessionId, userId);
+    }
+    return tx.session.findUniqueOrThrow({ where: { id: active.id } });
+  });
+};
+
+/**
+ * Finish a session, counting the time since its last heartbeat, and award XP for it
+ */
+export const completeSession = async (
+  sessionId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ session: Session; xpAwarded: number }> => {
+  return prisma.$transaction(async tx => {
+    const { session, advanced } = await advanceSession(tx, sessionId, userId, now, { completed: true, completedAt: now });
+    if (!advanced) {
+      throw sessionError('Session was updated at the same time, try again', 409);
+    }
+
+    const xpAwarded = sessionXp(session.durationSeconds);
+    if (xpAwarded > 0) await awardXp(tx, userId, xpAwarded);
+
+    return { session, xpAwarded };
+  });
+};
+
+/**
+ * Stop a session without completing it. Abandoned sessions earn no XP and
+ * don't count towards averages.
+ */
+export const abandonSession = async (sessionId: string, userId: string, now: Date = new Date()): Promise<Session> => {
+  return prisma.$transaction(async tx => {
+    const { session, advanced } = await advanceSession(tx, sessionId, userId, now, { abandonedAt: now });
+    if (!advanced) {
+      throw sessionError('Session was updated at the same time, try again', 409);
+    }
+    return session;
+  });
+};
+
+/**
+ * Abandon every active session that has gone STALE_SESSION_MINUTES without a
+ * heartbeat. Their duration stops at the last heartbeat. Returns the number abandoned.
+ */
+export const abandonStaleSessions = async (now: Date = new Date()): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      ...ACTIVE,
+      lastHeartbeatAt: { lt: new Date(now.getTime() - STALE_SESSION_MINUTES * 60 * 1000) },
+    },
+    data: { abandonedAt: now },
+  });
+
+  return count;
+};
+
+export const SESSION_STATES: SessionState[] = ['active', 'completed', 'abandoned'];
+
+export type SessionMetric = 'score' | 'clarity' | 'pace' | 'confidence' | 'tone';
+export const SESSION_METRICS: SessionMetric[] = ['score', 'clarity', 'pace', 'confidence', 'tone'];
+
+export type SessionSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+export const SESSION_SORTS: SessionSort[] = ['newest', 'oldest', 'highest', 'lowest'];
+
+export interface SessionSearch {
+  q?: string; // Words to find in the title or transcript
+  featureType?: string;
+  state?: SessionState;
+  from?: Date;
+  to?: Date;
+  metric: SessionMetric; // What min, max and the highest/lowest sorts apply to
+  min?: number;
+  max?: number;
+  sort: SessionSort;
+}
+
+const SNIPPET_LENGTH = 160;
+
+const sessionStateWhere = (state: SessionState): Prisma.SessionWhereInput => {
+  switch (state) {
+    case 'active':
+      return ACTIVE;
+    case 'completed':
+      return { completed: true };
+    case 'abandoned':
+      return { completed: false, abandonedAt: { not: null } };
+  }
+};
+
+// Words in a search, lower-cased; punctuation and tsquery operators are dropped
+const searchTerms = (q: string): string[] => (q.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, 10);
+
+/**
+ * Postgres tsquery matching every word of a search, each as a prefix so
+ * "negotiat" finds "negotiation"
+ */
+export const toTsQuery = (q: string): string | null => {
+  const terms = searchTerms(q);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+};
+
+/**
+ * Filters for a user's session history. Sorting by a metric other than score
+ * leaves out sessions that were never measured on it.
+ */
+export const sessionSearchWhere = (userId: string, search: SessionSearch): Prisma.SessionWhereInput => {
+  const tsQuery = search.q && toTsQuery(search.q);
+  const range = search.min !== undefined || search.max !== undefined;
+  const byMetric = search.sort === 'highest' || search.sort === 'lowest';
+
+  return {
+    userId,
+    ...(search.featureType && { featureType: search.featureType }),
+    ...(search.state && sessionStateWhere(search.state)),
+    ...((search.from || search.to) && {
+      createdAt: {
+        ...(search.from && { gte: search.from }),
+        ...(search.to && { lte: search.to }),
+      },
+    }),
+    ...((range || byMetric) && {
+      [search.metric]: {
+        not: null,
+        ...(search.min !== undefined && { gte: search.min }),
+        ...(search.max !== undefined && { lte: search.max }),
+      },
+    }),
+    ...(tsQuery && {
+      OR: [
+        { title: { search: tsQuery } },
+        { transcript: { search: tsQuery } },
+      ],
+    }),
+  };
+};
+
+/**
+ * Sort order for session history; the id breaks ties so cursors are stable
+ */
+export const sessionSearchOrderBy = (search: SessionSearch): Prisma.SessionOrderByWithRelationInput[] => {
+  switch (search.sort) {
+    case 'newest':
+      return [{ createdAt: 'desc' }, { id: 'desc' }];
+    case 'oldest':
+      return [{ createdAt: 'asc' }, { id: 'asc' }];
+    case 'highest':
+      return [{ [search.metric]: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }];
+    case 'lowest':
+      return [{ [search.metric]: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }];
+  }
+};
+
+/**
+ * The part of a transcript around the first search word it contains
+ */
+export const transcriptSnippet = (transcript: string | null, q: string): string | null => {
+  if (!transcript) return null;
+
+  const lower = transcript.toLowerCase();
+  const index = searchTerms(q)
+    .map(term => lower.indexOf(term))
+    .filter(position => position >= 0)
+    .sort((a, b) => a - b)[0];
+  if (index === undefined) return null;
+
+  const start = Math.max(0, index - SNIPPET_LENGTH / 2);
+  const end = Math.min(transcript.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${transcript.slice(start, end).trim()}${end < transcript.length ? '…' : ''}`;
+};
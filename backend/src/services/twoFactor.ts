@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto';
+import { prisma } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { hashToken, verifyPassword } from './auth';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl } from './totp';
+
+const TOTP_ISSUER = 'Cara';
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed before the account's second step is locked, across every challenge
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+let clock: () => number = () => Date.now();
+
+/**
+ * Override the clock used to check TOTP codes (e.g. a fixed time in tests)
+ */
+export const setTwoFactorClock = (next: () => number): void => {
+  clock = next;
+};
+
+// Codes are compared case- and dash-insensitively
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+};
+
+/**
+ * Start enrollment: store a fresh secret and return its provisioning URI
+ */
+export const beginTwoFactorEnrollment = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, totpEnabledAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (user.totpEnabledAt) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: secret, totpLastUsedStep: null },
+  });
+
+  return {
+    secret,
+    otpauthUrl: buildOtpAuthUrl(secret, user.email, TOTP_ISSUER),
+  };
+};
+
+/**
+ * Finish enrollment with a code from the authenticator app.
+ * Returns the plaintext recovery codes - they are only ever shown once.
+ */
+export const confirmTwoFactorEnrollment = async (userId: string, code: string): Promise<string[]> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    throw new Error('No pending two-factor enrollment');
+  }
+
+  const step = verifyTotp(user.totpSecret, code, clock());
+  if (step === null) {
+    throw new Error('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: recoveryCodes.map(recoveryCode => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+      })),
+    }),
+  ]);
+
+  return recoveryCodes;
+};
+
+// Check a TOTP code or consume a recovery code, without counting failures
+const checkSecondFactor = async (userId: string, totpSecret: string, factor: SecondFactor): Promise<boolean> => {
+  if (factor.code) {
+    const step = verifyTotp(totpSecret, factor.code, clock());
+    if (step === null) {
+      return false;
+    }
+
+    // Record the step atomically so the same code can't be used twice
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+
+    return count > 0;
+  }
+
+  if (factor.recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(factor.recoveryCode)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  return false;
+};
+
+// Count a wrong code, locking the second step once there have been too many
+const recordFailedAttempt = async (userId: string): Promise<void> => {
+  const { twoFactorFailedAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorFailedAttempts: { increment: 1 } },
+    select: { twoFactorFailedAttempts: true },
+  });
+
+  if (twoFactorFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorFailedAttempts: 0, twoFactorLockedUntil: new Date(clock() + LOCKOUT_MS) },
+    });
+  }
+};
+
+/**
+ * Check a TOTP code or consume a recovery code for a user with 2FA enabled.
+ * After MAX_FAILED_ATTEMPTS wrong codes nothing is checked for LOCKOUT_MS:
+ * throws with statusCode 429, so the codes can't be guessed across challenges or IPs.
+ */
+export const verifySecondFactor = async (userId: string, factor: SecondFactor): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, twoFactorFailedAttempts: true, twoFactorLockedUntil: true },
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  if (user.twoFactorLockedUntil && user.twoFactorLockedUntil.getTime() > clock()) {
+    const error: AppError = new Error('Too many invalid verification codes, try again later');
+    error.statusCode = 429;
+    error.retryAfterSeconds = Math.ceil((user.twoFactorLockedUntil.getTime() - clock()) / 1000);
+    throw error;
+  }
+
+  const verified = await checkSecondFactor(userId, user.totpSecret, factor);
+  if (!verified) {
+    await recordFailedAttempt(userId);
+  } else if (user.twoFactorFailedAttempts > 0 || user.twoFactorLockedUntil) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorFailedAttempts: 0, twoFactorLockedUntil: null },
+    });
+  }
+
+  return verified;
+};
+
+/**
+ * Turn off 2FA after re-checking the password (if any) and a second factor
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  password: string | undefined,
+  factor: SecondFactor
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.passwordHash && !(password && await verifyPassword(password, user.passwordHash))) {
+    throw new Error('Invalid password');
+  }
+
+  if (!(await verifySecondFactor(userId, factor))) {
+    throw new Error('Invalid verification code');
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+};
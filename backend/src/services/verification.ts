@@ -0,0 +1,146 @@
+import { randomBytes } from 'crypto';
+import { prisma } from '../db';
+import { getMailer } from './mailer';
+import { hashToken, hashPassword, validatePasswordStrength, revokeOtherDeviceSessions } from './auth';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+type TokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Issue a single-use token, invalidating any earlier unused token for the same purpose
+ */
+const issueUserToken = async (userId: string, purpose: TokenPurpose, ttlMs: number): Promise<string> => {
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+/**
+ * Mark a token as used and return its owner, or null if it is unknown, expired or already used
+ */
+const consumeUserToken = async (token: string, purpose: TokenPurpose): Promise<string | null> => {
+  const tokenHash = hashToken(token);
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const stored = await prisma.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+
+  return stored?.userId || null;
+};
+
+/**
+ * Email a password reset link. Silently does nothing for unknown addresses.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { email: email.toLowerCase().trim() },
+    select: { id: true, email: true, name: true },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const token = await issueUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+  const link = `${FRONTEND_URL}/?resetToken=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your Cara password',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Use the link below to choose a new password. It expires in 1 hour.\n\n${link}\n\n` +
+      `If you didn't ask for this, you can ignore this email.`,
+  });
+};
+
+/**
+ * Set a new password from a reset token and sign out every device
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  validatePasswordStrength(password);
+
+  const userId = await consumeUserToken(token, 'password_reset');
+  if (!userId) {
+    throw new Error('Invalid or expired reset token');
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerifiedAt: true } });
+
+  // Following the emailed link also proves ownership of the address
+  await prisma.user.update({
+    where: { id: userId },
+    data: { passwordHash, emailVerifiedAt: user?.emailVerifiedAt || new Date() },
+  });
+
+  await revokeOtherDeviceSessions(userId);
+};
+
+/**
+ * Email a verification link to a user who hasn't verified their address yet
+ */
+export const sendVerificationEmail = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, emailVerifiedAt: true },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return;
+  }
+
+  const token = await issueUserToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS);
+  const link = `${FRONTEND_URL}/?verifyToken=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your Cara email address',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Please confirm your email address by opening the link below. It expires in 24 hours.\n\n${link}`,
+  });
+};
+
+/**
+ * Mark the token owner's email as verified
+ */
+export const verifyEmail = async (token: string): Promise<void> => {
+  const userId = await consumeUserToken(token, 'email_verification');
+  if (!userId) {
+    throw new Error('Invalid or expired verification token');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { emailVerifiedAt: new Date() },
+  });
+};
@@ -0,0 +1,93 @@
+import './env';
+import express, { Express } from 'express';
+import cookieParser from 'cookie-parser';
+import 'express-async-errors';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+
+import { errorHandler } from '../src/middleware/errorHandler';
+import authRoutes from '../src/routes/auth';
+import sessionsRoutes from '../src/routes/sessions';
+import { prisma } from '../src/db';
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface RequestOptions {
+  token?: string;
+  body?: unknown;
+}
+
+export interface TestServer {
+  request(method: string, path: string, options?: RequestOptions): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+  accessToken: string;
+}
+
+export const TEST_PASSWORD = 'Practice-Makes-Perfect-1';
+
+// The routers under test on a bare app; importing index.ts would start the real server
+const createTestApp = (): Express => {
+  const app = express();
+  app.use(cookieParser());
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use('/api/sessions', sessionsRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Start the app on a random local port against the test database
+ */
+export const startTestServer = async (): Promise<TestServer> => {
+  const app = createTestApp();
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, path, { token, body } = {}) {
+      const response = await fetch(baseUrl + path, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    },
+
+    async close() {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+      await prisma.$disconnect();
+    },
+  };
+};
+
+/**
+ * Register a new user with a unique email through the API
+ */
+export const registerUser = async (server: TestServer): Promise<TestUser> => {
+  const email = `learner-${randomUUID()}@example.test`;
+  const { status, body } = await server.request('POST', '/api/auth/register', {
+    body: { email, name: 'Test Learner', role: 'Software Engineer', password: TEST_PASSWORD },
+  });
+  if (status !== 201) {
+    throw new Error(`Registering ${email} failed (${status}): ${body?.error}`);
+  }
+
+  return { id: body.user.id, email, password: TEST_PASSWORD, accessToken: body.accessToken };
+};
@@ -0,0 +1,9 @@
+import { execFileSync } from 'child_process';
+import { TEST_DATABASE_URL } from './env';
+
+// Recreate the schema in the test database, dropping everything from earlier runs
+console.log(`Resetting test database ${new URL(TEST_DATABASE_URL).pathname.slice(1)}`);
+execFileSync('npx', ['prisma', 'db', 'push', '--force-reset', '--skip-generate'], {
+  env: process.env,
+  stdio: 'inherit',
+});
@@ -0,0 +1,141 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerUser, startTestServer, TestServer, TestUser } from './helpers';
+
+describe('session ownership', () => {
+  let server: TestServer;
+  let owner: TestUser;
+  let intruder: TestUser;
+  let sessionId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await registerUser(server);
+    intruder = await registerUser(server);
+
+    const created = await server.request('POST', '/api/sessions', {
+      token: owner.accessToken,
+      body: { featureType: 'conversation', title: 'Salary negotiation' },
+    });
+    assert.equal(created.status, 201);
+    sessionId = created.body.id;
+
+    const updated = await server.request('PATCH', `/api/sessions/${sessionId}`, {
+      token: owner.accessToken,
+      body: { score: 72, transcript: 'Only the owner should ever see this' },
+    });
+    assert.equal(updated.status, 200);
+  });
+
+  after(() => server.close());
+
+  const ownerView = async () => {
+    const { status, body } = await server.request('GET', `/api/sessions/${sessionId}`, { token: owner.accessToken });
+    assert.equal(status, 200);
+    return body;
+  };
+
+  it('lets the owner read their session', async () => {
+    const session = await ownerView();
+    assert.equal(session.userId, owner.id);
+    assert.equal(Number(session.score), 72);
+  });
+
+  it("hides another user's session from GET", async () => {
+    const { status, body } = await server.request('GET', `/api/sessions/${sessionId}`, { token: intruder.accessToken });
+    assert.equal(status, 404);
+    assert.equal(body.transcript, undefined);
+  });
+
+  it("leaves another user's session out of their history", async () => {
+    const { status, body } = await server.request('GET', '/api/sessions', { token: intruder.accessToken });
+    assert.equal(status, 200);
+    assert.equal(body.total, 0);
+    assert.deepEqual(body.sessions, []);
+  });
+
+  it("rejects PATCH on another user's session and leaves it unchanged", async () => {
+    const { status } = await server.request('PATCH', `/api/sessions/${sessionId}`, {
+      token: intruder.accessToken,
+      body: { score: 5, transcript: 'Overwritten' },
+    });
+    assert.equal(status, 404);
+
+    const session = await ownerView();
+    assert.equal(Number(session.score), 72);
+    assert.equal(session.transcript, 'Only the owner should ever see this');
+  });
+
+  for (const action of ['heartbeat', 'complete', 'abandon']) {
+    it(`rejects ${action} on another user's session and leaves it active`, async () => {
+      const { status } = await server.request('POST', `/api/sessions/${sessionId}/${action}`, { token: intruder.accessToken });
+      assert.equal(status, 404);
+
+      const session = await ownerView();
+      assert.equal(session.completed, false);
+      assert.equal(session.abandonedAt, null);
+      assert.equal(session.durationSeconds, 0);
+    });
+  }
+
+  it('requires a token', async () => {
+    const { status } = await server.request('GET', `/api/sessions/${sessionId}`);
+    assert.equal(status, 401);
+  });
+});
+
+
+
+describe('session lifecycle', () => {
+  let server: TestServer;
+  let user: TestUser;
+
+  before(async () => {
+    server = await startTestServer();
+    user = await registerUser(server);
+  });
+
+  after(() => server.close());
+
+  const startSession = async (): Promise<string> => {
+    const { status, body } = await server.request('POST', '/api/sessions', {
+      token: user.accessToken,
+      body: { featureType: 'writing' },
+    });
+    assert.equal(status, 201);
+    return `/api/sessions/${body.id}`;
+  };
+
+  it('ends a session only once', async () => {
+    const path = await startSession();
+
+    const completed = await server.request('POST', `${path}/complete`, { token: user.accessToken });
+    assert.equal(completed.status, 200);
+    assert.equal(completed.body.completed, true);
+
+    for (const action of ['complete', 'abandon', 'heartbeat']) {
+      const { status } = await server.request('POST', `${path}/${action}`, { token: user.accessToken });
+      assert.equal(status, 409);
+    }
+  });
+
+  it('freezes the results of an ended session', async () => {
+    const path = await startSession();
+    await server.request('PATCH', path, { token: user.accessToken, body: { score: 64 } });
+    await server.request('POST', `${path}/abandon`, { token: user.accessToken });
+
+    const patched = await server.request('PATCH', path, { token: user.accessToken, body: { score: 100 } });
+    assert.equal(patched.status, 409);
+
+    const session = await server.request('GET', path, { token: user.accessToken });
+    assert.equal(Number(session.body.score), 64);
+  });
+
+  it('awards no XP for a session completed straight away', async () => {
+    const path = await startSession();
+
+    const completed = await server.request('POST', `${path}/complete`, { token: user.accessToken });
+    assert.equal(completed.status, 200);
+    assert.equal(completed.body.xpAwarded, 0);
+  });
+});
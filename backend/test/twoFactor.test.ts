@@ -0,0 +1,169 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerUser, startTestServer, TestServer, TestUser } from './helpers';
+import { setTwoFactorClock } from '../src/services/twoFactor';
+import { generateTotp, totpStep } from '../src/services/totp';
+
+const STEP_MS = 30 * 1000;
+
+describe('two-factor authentication', () => {
+  let server: TestServer;
+  let user: TestUser;
+  let secret: string;
+  let recoveryCodes: string[];
+  // Every code is checked against this fixed clock, moved on by hand
+  let now = Date.UTC(2026, 0, 5, 9, 0, 0);
+
+  const codeAt = (time: number) => generateTotp(secret, totpStep(time));
+
+  const login = async (): Promise<string> => {
+    const { status, body } = await server.request('POST', '/api/auth/login', {
+      body: { email: user.email, password: user.password },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.twoFactorRequired, true);
+    assert.equal(body.accessToken, undefined);
+    return body.challengeToken;
+  };
+
+  const secondStep = (challengeToken: string, factor: { code?: string; recoveryCode?: string }) =>
+    server.request('POST', '/api/auth/login/2fa', { body: { challengeToken, ...factor } });
+
+  before(async () => {
+    setTwoFactorClock(() => now);
+    server = await startTestServer();
+    user = await registerUser(server);
+  });
+
+  after(async () => {
+    setTwoFactorClock(() => Date.now());
+    await server.close();
+  });
+
+  it('starts enrollment with a secret and provisioning URI', async () => {
+    const { status, body } = await server.request('POST', '/api/auth/2fa/setup', { token: user.accessToken });
+    assert.equal(status, 200);
+    assert.match(body.secret, /^[A-Z2-7]+$/);
+    assert.match(body.otpauthUrl, /^otpauth:\/\/totp\//);
+    secret = body.secret;
+  });
+
+  it('rejects confirmation with a code outside the drift window', async () => {
+    const { status } = await server.request('POST', '/api/auth/2fa/confirm', {
+      token: user.accessToken,
+      body: { code: codeAt(now + 5 * STEP_MS) },
+    });
+    assert.equal(status, 400);
+  });
+
+  it('confirms enrollment with the current code and returns recovery codes', async () => {
+    const { status, body } = await server.request('POST', '/api/auth/2fa/confirm', {
+      token: user.accessToken,
+      body: { code: codeAt(now) },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.enabled, true);
+    assert.equal(body.recoveryCodes.length, 10);
+    recoveryCodes = body.recoveryCodes;
+
+    const again = await server.request('POST', '/api/auth/2fa/setup', { token: user.accessToken });
+    assert.equal(again.status, 400);
+  });
+
+  it('asks for a second factor after the password', async () => {
+    assert.ok(await login());
+  });
+
+  it('rejects the code already used to confirm enrollment', async () => {
+    const { status } = await secondStep(await login(), { code: codeAt(now) });
+    assert.equal(status, 401);
+  });
+
+  it('signs in with a later code and rejects replaying it', async () => {
+    now += 2 * STEP_MS;
+
+    const signedIn = await secondStep(await login(), { code: codeAt(now) });
+    assert.equal(signedIn.status, 200);
+    assert.ok(signedIn.body.accessToken);
+    assert.equal(signedIn.body.user.id, user.id);
+
+    const replayed = await secondStep(await login(), { code: codeAt(now) });
+    assert.equal(replayed.status, 401);
+  });
+
+  it('rejects an unused code from before the last one, though it is inside the drift window', async () => {
+    const { status } = await secondStep(await login(), { code: codeAt(now - STEP_MS) });
+    assert.equal(status, 401);
+  });
+
+  it('accepts each recovery code only once, ignoring case and dashes', async () => {
+    const [recoveryCode] = recoveryCodes;
+
+    const signedIn = await secondStep(await login(), { recoveryCode: recoveryCode.toUpperCase().replace('-', '') });
+    assert.equal(signedIn.status, 200);
+    assert.ok(signedIn.body.accessToken);
+
+    const reused = await secondStep(await login(), { recoveryCode });
+    assert.equal(reused.status, 401);
+
+    const other = await secondStep(await login(), { recoveryCode: recoveryCodes[1] });
+    assert.equal(other.status, 200);
+  });
+
+  it('rejects a forged challenge token', async () => {
+    const { status } = await secondStep('not-a-challenge', { code: codeAt(now) });
+    assert.equal(status, 401);
+  });
+});
+
+describe('two-factor lockout', () => {
+  let server: TestServer;
+  let user: TestUser;
+  let secret: string;
+  let now = Date.UTC(2026, 0, 6, 9, 0, 0);
+
+  const codeAt = (time: number) => generateTotp(secret, totpStep(time));
+
+  const attempt = async (code: string) => {
+    const login = await server.request('POST', '/api/auth/login', {
+      body: { email: user.email, password: user.password },
+    });
+    return server.request('POST', '/api/auth/login/2fa', { body: { challengeToken: login.body.challengeToken, code } });
+  };
+
+  before(async () => {
+    setTwoFactorClock(() => now);
+    server = await startTestServer();
+    user = await registerUser(server);
+
+    const setup = await server.request('POST', '/api/auth/2fa/setup', { token: user.accessToken });
+    secret = setup.body.secret;
+    const confirmed = await server.request('POST', '/api/auth/2fa/confirm', {
+      token: user.accessToken,
+      body: { code: codeAt(now) },
+    });
+    assert.equal(confirmed.status, 200);
+  });
+
+  after(async () => {
+    setTwoFactorClock(() => Date.now());
+    await server.close();
+  });
+
+  it('locks the second step after five wrong codes, even with fresh challenges', async () => {
+    for (let i = 0; i < 5; i++) {
+      const { status } = await attempt(codeAt(now + 10 * STEP_MS));
+      assert.equal(status, 401);
+    }
+
+    now += STEP_MS;
+    const locked = await attempt(codeAt(now));
+    assert.equal(locked.status, 429);
+  });
+
+  it('checks codes again once the lockout is over', async () => {
+    now += 15 * 60 * 1000;
+    const { status } = await attempt(codeAt(now));
+    assert.equal(status, 200);
+  });
+});
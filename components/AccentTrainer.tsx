@@ -1,8 +1,10 @@
-import React, { useState, useRef, useContext } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Mic, Square, RefreshCw, Volume2, ArrowRight } from 'lucide-react';
 import { GeminiService } from '../services/geminiService';
-import { UserContext } from '../UserContext';
+import { usePracticeSession } from '../usePracticeSession';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { getAssignment } from '../services/api';
 
 const container = {
   hidden: { opacity: 0 },
@@ -28,8 +30,26 @@ export default function AccentTrainer() {
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
-  const { addXp } = useContext(UserContext);
-  const currentPhrase = PHRASES[currentPhraseIdx];
+  const practice = usePracticeSession('accent', 'Vocal Coach');
+  const [phrases, setPhrases] = useState(PHRASES);
+  const [searchParams] = useSearchParams();
+  const currentPhrase = phrases[currentPhraseIdx];
+
+  // Use the fixed phrase set a coach assigned
+  useEffect(() => {
+    const assignmentId = searchParams.get('assignment');
+    if (!assignmentId) return;
+
+    getAssignment(assignmentId)
+      .then((assignment) => {
+        const assigned = assignment.config?.phrases?.filter(p => typeof p === 'string' && p.trim());
+        if (assigned && assigned.length > 0) {
+          setPhrases(assigned);
+          setCurrentPhraseIdx(0);
+        }
+      })
+      .catch(() => {});
+  }, [searchParams]);
 
   const startRecording = async () => {
     try {
@@ -64,7 +84,7 @@ export default function AccentTrainer() {
       try {
         const analysis = await GeminiService.analyzeAccent(base64Audio, currentPhrase);
         setResult(analysis);
-        addXp(analysis.score > 80 ? 50 : 25);
+        practice.finish({ score: analysis.score });
       } catch (err) { console.error(err); } finally { setIsAnalyzing(false); }
     };
   };
@@ -148,7 +168,7 @@ export default function AccentTrainer() {
                     ))}
                  </ul>
                  <div className="mt-8 flex justify-end">
-                     <button onClick={() => { setResult(null); setCurrentPhraseIdx(p => (p+1)%PHRASES.length); }} className="bg-white border border-stone-200 hover:border-stone-900 text-stone-900 px-6 py-3 text-xs font-bold uppercase tracking-widest transition-colors">
+                     <button onClick={() => { setResult(null); setCurrentPhraseIdx(p => (p+1)%phrases.length); }} className="bg-white border border-stone-200 hover:border-stone-900 text-stone-900 px-6 py-3 text-xs font-bold uppercase tracking-widest transition-colors">
                          Next Take
                      </button>
                  </div>
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, MessageCircle, Quote, Sparkles, CheckCircle } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  verifyToken,
+  getAssignments,
+  getAssignment,
+  addReviewComment,
+  completeReview,
+  Assignment,
+  AssignmentDetail,
+  ReviewComment,
+} from '../services/api';
+
+const container = {
+  hidden: { opacity: 0 },
+  show: { opacity: 1, transition: { staggerChildren: 0.1 } }
+};
+
+const item = {
+  hidden: { y: 20, opacity: 0 },
+  show: { y: 0, opacity: 1 }
+};
+
+// "1:05" <-> 65
+const formatOffset = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+const parseOffset = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2})$/);
+  if (!match) return undefined;
+  return parseInt(match[1] || '0') * 60 + parseInt(match[2]);
+};
+
+const CommentList = ({ comments }: { comments: ReviewComment[] }) => (
+  <div className="space-y-2 mt-2">
+    {comments.map(c => (
+      <div key={c.id} className="border-l-2 border-teal-700 pl-3 py-1">
+        <p className="text-sm text-stone-800">{c.body}</p>
+        <p className="text-[10px] uppercase tracking-widest text-stone-400 mt-1">
+          {c.author.name}{c.offsetSeconds !== null && ` • ${formatOffset(c.offsetSeconds)}`}
+        </p>
+      </div>
+    ))}
+  </div>
+);
+
+export default function CoachReview() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isCoach, setIsCoach] = useState(false);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [detail, setDetail] = useState<AssignmentDetail | null>(null);
+  const [error, setError] = useState('');
+
+  const [quote, setQuote] = useState('');
+  const [highlightIndex, setHighlightIndex] = useState<number | null>(null);
+  const [offset, setOffset] = useState('');
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedId = searchParams.get('assignment');
+
+  useEffect(() => {
+    verifyToken()
+      .then(({ user }) => {
+        const coach = user.permissionRole === 'coach' || user.permissionRole === 'admin';
+        setIsCoach(coach);
+        return getAssignments(coach ? { as: 'coach' } : { status: 'reviewed' });
+      })
+      .then(setAssignments)
+      .catch((err) => setError(err.message || 'Could not load assignments'));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    setError('');
+    getAssignment(selectedId)
+      .then(setDetail)
+      .catch((err) => setError(err.message || 'Could not load assignment'));
+  }, [selectedId]);
+
+  const resetForm = () => {
+    setQuote('');
+    setHighlightIndex(null);
+    setOffset('');
+    setBody('');
+  };
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!detail || !body.trim()) return;
+
+    const offsetSeconds = offset ? parseOffset(offset) : undefined;
+    if (offset && offsetSeconds === undefined) {
+      setError('Use m:ss for the timestamp');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const comment = await addReviewComment(detail.id, {
+        body,
+        target: highlightIndex !== null ? 'highlight' : quote ? 'transcript' : 'general',
+        highlightIndex: highlightIndex ?? undefined,
+        quote: quote || undefined,
+        offsetSeconds,
+      });
+      setDetail(prev => prev && { ...prev, comments: [...prev.comments, comment] });
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Could not save comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCompleteReview = async () => {
+    if (!detail) return;
+    try {
+      const updated = await completeReview(detail.id);
+      setDetail(prev => prev && { ...prev, ...updated });
+      setAssignments(prev => prev.map(a => a.id === updated.id ? { ...a, ...updated } : a));
+    } catch (err: any) {
+      setError(err.message || 'Could not complete review');
+    }
+  };
+
+  const transcriptLines = detail?.session?.transcript?.split('\n').filter(line => line.trim()) || [];
+  const canComment = isCoach && detail?.status === 'submitted';
+
+  return (
+    <motion.div
+      variants={container}
+      initial="hidden"
+      animate="show"
+      className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-6"
+    >
+      <motion.div variants={item} className="lg:col-span-4 editorial-card p-6 bg-stone-50">
+        <div className="flex items-center gap-3 mb-6">
+          <ClipboardCheck size={20} className="text-teal-700" />
+          <h3 className="font-serif font-bold text-xl">{isCoach ? 'Review Queue' : 'Coach Notes'}</h3>
+        </div>
+        <div className="space-y-1">
+          {assignments.length === 0 && <p className="text-sm text-stone-500 font-serif italic">Nothing here yet.</p>}
+          {assignments.map(a => (
+            <button
+              key={a.id}
+              onClick={() => { setSearchParams({ assignment: a.id }); resetForm(); }}
+              className={`w-full text-left py-3 px-4 border-l-2 transition-all ${selectedId === a.id ? 'border-stone-900 bg-white shadow-sm' : 'border-transparent hover:bg-white'}`}
+            >
+              <p className="text-sm font-bold text-stone-800 truncate">{a.title}</p>
+              <p className="text-xs text-stone-500">
+                {isCoach ? a.learner?.name : a.coach?.name} • <span className="capitalize">{a.featureType}</span> • {a.status}
+              </p>
+            </button>
+          ))}
+        </div>
+      </motion.div>
+
+      <motion.div variants={item} className="lg:col-span-8 space-y-6">
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        {!detail ? (
+          <div className="editorial-card p-12 text-center text-stone-400 font-serif italic">Select an assignment to review.</div>
+        ) : (
+          <>
+            <div className="editorial-card p-8">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <span className="text-xs font-bold uppercase tracking-widest text-stone-400">{detail.learner?.name}</span>
+                  <h2 className="text-3xl font-serif font-bold text-stone-900 mt-1">{detail.title}</h2>
+                  {detail.instructions && <p className="text-stone-600 font-serif italic mt-2">{detail.instructions}</p>}
+                </div>
+                {canComment && (
+                  <button onClick={handleCompleteReview} className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-white bg-stone-900 px-4 py-3 hover:bg-teal-800 transition-colors shrink-0">
+                    <CheckCircle size={14} /> Finish Review
+                  </button>
+                )}
+              </div>
+              {!detail.session && <p className="text-sm text-stone-500 mt-6">The learner hasn't submitted a session yet.</p>}
+            </div>
+
+            {detail.session && (
+              <div className="editorial-card p-8">
+                <h3 className="font-serif font-bold text-xl mb-4 flex items-center gap-2"><Quote size={18} /> Transcript</h3>
+                {transcriptLines.length === 0 ? (
+                  <p className="text-sm text-stone-500 font-serif italic">No transcript was recorded for this session.</p>
+                ) : (
+                  <div className="space-y-1 max-h-96 overflow-y-auto">
+                    {transcriptLines.map((line, i) => {
+                      const notes = detail.comments.filter(c => c.target === 'transcript' && c.quote && line.includes(c.quote));
+                      return (
+                        <div key={i}>
+                          <button
+                            onClick={() => { if (canComment) { setQuote(line); setHighlightIndex(null); } }}
+                            className={`w-full text-left text-sm py-1 px-2 transition-colors ${quote === line ? 'bg-teal-50 text-stone-900' : notes.length ? 'bg-amber-50 text-stone-800' : 'text-stone-700 hover:bg-stone-50'}`}
+                          >
+                            {line}
+                          </button>
+                          {notes.length > 0 && <div className="pl-4"><CommentList comments={notes} /></div>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {detail.feedback && detail.feedback.highlights.length > 0 && (
+              <div className="editorial-card p-8">
+                <h3 className="font-serif font-bold text-xl mb-4 flex items-center gap-2"><Sparkles size={18} /> Feedback Highlights</h3>
+                <div className="space-y-4">
+                  {detail.feedback.highlights.map((h, i) => (
+                    <div key={i} className="border-b border-stone-100 pb-4 last:border-0 last:pb-0">
+                      <button
+                        onClick={() => { if (canComment) { setHighlightIndex(i); setQuote(''); } }}
+                        className={`w-full text-left text-sm p-2 transition-colors ${highlightIndex === i ? 'bg-teal-50' : 'hover:bg-stone-50'}`}
+                      >
+                        {h.timestamp !== undefined && <span className="text-xs font-bold text-stone-400 mr-2">{h.timestamp}</span>}
+                        {h.type && <span className="text-[10px] uppercase tracking-widest text-teal-700 mr-2">{h.type}</span>}
+                        {h.text}
+                      </button>
+                      <CommentList comments={detail.comments.filter(c => c.target === 'highlight' && c.highlightIndex === i)} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {detail.session && (
+              <div className="editorial-card p-8">
+                <h3 className="font-serif font-bold text-xl mb-4 flex items-center gap-2"><MessageCircle size={18} /> General Notes</h3>
+                <CommentList comments={detail.comments.filter(c => c.target === 'general')} />
+
+                {canComment && (
+                  <form onSubmit={handleAddComment} className="mt-6 space-y-3">
+                    {(quote || highlightIndex !== null) && (
+                      <div className="flex items-center justify-between text-xs bg-stone-50 border border-stone-200 px-3 py-2">
+                        <span className="truncate text-stone-600">
+                          {highlightIndex !== null ? `On highlight #${highlightIndex + 1}` : `"${quote}"`}
+                        </span>
+                        <button type="button" onClick={() => { setQuote(''); setHighlightIndex(null); }} className="text-stone-400 hover:text-stone-900 ml-2">Clear</button>
+                      </div>
+                    )}
+                    <div className="flex gap-3">
+                      <input
+                        value={offset}
+                        onChange={(e) => setOffset(e.target.value)}
+                        placeholder="m:ss"
+                        className="w-20 border border-stone-200 px-3 py-2 text-sm focus:outline-none focus:border-stone-900"
+                      />
+                      <textarea
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        placeholder="Leave a note for the learner..."
+                        rows={2}
+                        className="flex-1 border border-stone-200 px-3 py-2 text-sm focus:outline-none focus:border-stone-900 resize-none"
+                      />
+                    </div>
+                    <button type="submit" disabled={isSaving || !body.trim()} className="text-xs font-bold uppercase tracking-widest text-stone-900 border border-stone-200 px-4 py-2 hover:border-stone-900 transition-colors disabled:opacity-50">
+                      {isSaving ? 'Saving...' : 'Add Note'}
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
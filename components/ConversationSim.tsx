@@ -4,6 +4,8 @@ import { GeminiService } from '../services/geminiService';
 import { DocumentUtils } from '../services/documentUtils';
 import { UserContext } from '../UserContext';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { getAssignment } from '../services/api';
 
 const container = {
   hidden: { opacity: 0 },
@@ -15,11 +17,12 @@ const item = {
   show: { y: 0, opacity: 1 }
 };
 
+// Prompts for each scenario live on the backend relay
 const SCENARIOS = [
-  { id: 'intro', title: 'Behavioral Interview', prompt: "You are a hiring manager..." },
-  { id: 'salary', title: 'Salary Negotiation', prompt: "You are an HR representative..." },
-  { id: 'smalltalk', title: 'Casual Small Talk', prompt: "Engage in casual talk..." },
-  { id: 'hard_feedback', title: 'Tough Feedback', prompt: "You are a manager..." }
+  { id: 'intro', title: 'Behavioral Interview' },
+  { id: 'salary', title: 'Salary Negotiation' },
+  { id: 'smalltalk', title: 'Casual Small Talk' },
+  { id: 'hard_feedback', title: 'Tough Feedback' }
 ];
 
 const PERSONAS = [
@@ -36,10 +39,11 @@ export default function ConversationSim() {
   const [isMuted, setIsMuted] = useState(false);
   const [customContext, setCustomContext] = useState<string>('');
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<WebSocket | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const animationRef = useRef<number | null>(null);
@@ -49,11 +53,27 @@ export default function ConversationSim() {
   const scheduledSourcesRef = useRef<AudioBufferSourceNode[]>([]);
 
   const { addXp } = useContext(UserContext);
+  const [searchParams] = useSearchParams();
 
   useEffect(() => {
     return () => cleanupAudio();
   }, []);
 
+  // Preselect the scenario and persona a coach assigned
+  useEffect(() => {
+    const assignmentId = searchParams.get('assignment');
+    if (!assignmentId) return;
+
+    getAssignment(assignmentId)
+      .then((assignment) => {
+        const scenario = SCENARIOS.find(s => s.id === assignment.config?.scenario);
+        const persona = PERSONAS.find(p => p.id === assignment.config?.persona);
+        if (scenario) setActiveScenario(scenario);
+        if (persona) setActivePersona(persona);
+      })
+      .catch(() => {});
+  }, [searchParams]);
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -62,7 +82,9 @@ export default function ConversationSim() {
     }
   };
 
-  const cleanupAudio = () => {
+  // Only an explicit hang-up tells the relay the call is finished; anything else
+  // just drops the connection
+  const cleanupAudio = (hangUp = false) => {
     scheduledSourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
     scheduledSourcesRef.current = [];
     
@@ -71,12 +93,15 @@ export default function ConversationSim() {
         audioContextRef.current = null; 
     }
     if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    if (hangUp) GeminiService.endLive(sessionRef.current);
+    else GeminiService.closeLive(sessionRef.current);
     sessionRef.current = null;
     setIsConnected(false);
     nextStartTimeRef.current = 0;
   };
 
   const startCall = async () => {
+    setSavedSessionId(null);
     try {
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       const ctx = new AudioContextClass({ sampleRate: 16000 }); // 16kHz for Gemini Live
@@ -95,11 +120,13 @@ export default function ConversationSim() {
       analyserRef.current = analyser;
       drawVisualizer();
 
-      let sys = activeScenario.prompt;
-      if (customContext) sys += `\n\nCONTEXT: ${customContext.substring(0, 5000)}`;
-
       sessionRef.current = await GeminiService.connectLive(
-        ctx, sys, activePersona.id,
+        ctx,
+        {
+          scenario: activeScenario.id,
+          persona: activePersona.id,
+          context: customContext ? customContext.substring(0, 5000) : undefined,
+        },
         (buf) => {
              // Audio Queue Logic
              const now = ctx.currentTime;
@@ -124,7 +151,12 @@ export default function ConversationSim() {
             scheduledSourcesRef.current = [];
             nextStartTimeRef.current = ctx.currentTime;
         },
-        () => cleanupAudio()
+        (ended) => {
+            if (ended?.sessionId) setSavedSessionId(ended.sessionId);
+            // The relay saved the call and awarded XP for it
+            if (ended?.xpAwarded) addXp(ended.xpAwarded);
+            cleanupAudio();
+        }
       );
       
       setIsConnected(true);
@@ -159,7 +191,7 @@ export default function ConversationSim() {
 
     } catch (err) { 
         console.error("Call Setup Error", err); 
-        alert("Could not start call. Please check microphone permissions."); 
+        alert(`Could not start call. ${err instanceof Error && err.message ? err.message : "Please check microphone permissions."}`); 
         cleanupAudio(); 
     }
   };
@@ -277,6 +309,9 @@ export default function ConversationSim() {
                           <p className="font-sans text-stone-400 text-xs uppercase tracking-widest mt-2">
                               {isConnected ? "Session Active" : activeScenario.title}
                           </p>
+                          {!isConnected && savedSessionId && (
+                              <p className="font-serif italic text-teal-700 text-sm mt-3">Transcript saved to your sessions.</p>
+                          )}
                       </div>
                   </div>
               </div>
@@ -292,7 +327,7 @@ export default function ConversationSim() {
                       <button onClick={() => setIsMuted(!isMuted)} className={`p-4 border transition-all active:scale-95 ${isMuted ? 'bg-rose-900 text-white border-rose-900' : 'bg-white text-stone-900 border-stone-200 hover:border-stone-900'}`}>
                           {isMuted ? <MicOff size={20} /> : <Mic size={20} />}
                       </button>
-                      <button onClick={() => { cleanupAudio(); addXp(200); }} className="bg-white border border-stone-200 text-rose-600 px-8 md:px-12 py-4 font-bold uppercase tracking-widest text-xs hover:bg-rose-50 hover:border-rose-200 transition-all active:scale-95">
+                      <button onClick={() => cleanupAudio(true)} className="bg-white border border-stone-200 text-rose-600 px-8 md:px-12 py-4 font-bold uppercase tracking-widest text-xs hover:bg-rose-50 hover:border-rose-200 transition-all active:scale-95">
                           Terminate
                       </button>
                   </>
@@ -1,8 +1,9 @@
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { UserContext } from '../UserContext';
-import { ArrowUpRight, PlayCircle, Trophy, Activity } from 'lucide-react';
+import { ArrowUpRight, PlayCircle, Trophy, Activity, Inbox, MessageCircle } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { getAssignments, submitAssignment, Assignment } from '../services/api';
 
 const container = {
   hidden: { opacity: 0 },
@@ -27,6 +28,75 @@ const MetricCard = ({ label, value, sub, dark = false }: { label: string, value:
     </div>
 );
 
+const STATUS_LABELS: Record<Assignment['status'], string> = {
+    assigned: 'To do',
+    submitted: 'Awaiting review',
+    reviewed: 'Reviewed',
+};
+
+const AssignmentInbox = () => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [error, setError] = useState('');
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAssignments()
+      .then(setAssignments)
+      .catch(() => setAssignments([]));
+  }, []);
+
+  const handleSubmit = async (id: string) => {
+    setSubmittingId(id);
+    setError('');
+    try {
+      const updated = await submitAssignment(id);
+      setAssignments(prev => prev.map(a => a.id === id ? { ...a, ...updated } : a));
+    } catch (err: any) {
+      setError(err.message || 'Could not submit assignment');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  if (assignments.length === 0) return null;
+
+  return (
+    <motion.div variants={item} className="editorial-card p-8">
+        <div className="flex items-center gap-3 mb-6">
+            <Inbox size={20} className="text-teal-700" />
+            <h3 className="font-serif font-bold text-xl">Assigned Practice</h3>
+        </div>
+        {error && <p className="text-xs text-rose-600 mb-4">{error}</p>}
+        <div className="space-y-4">
+            {assignments.map(a => (
+                <div key={a.id} className="flex flex-col md:flex-row md:items-center gap-4 border-b border-stone-100 pb-4 last:border-0 last:pb-0">
+                    <div className="flex-1 min-w-0">
+                        <p className="font-bold text-stone-800 text-sm truncate">{a.title}</p>
+                        <p className="text-xs text-stone-500">
+                            {a.coach?.name} • <span className="capitalize">{a.featureType}</span>
+                            {a.dueAt && ` • Due ${new Date(a.dueAt).toLocaleDateString()}`}
+                        </p>
+                        {a.instructions && <p className="text-xs text-stone-600 mt-1 font-serif italic">{a.instructions}</p>}
+                    </div>
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400 shrink-0">{STATUS_LABELS[a.status]}</span>
+                    {a.status === 'assigned' && (
+                        <div className="flex gap-2 shrink-0">
+                            <Link to={`/${a.featureType}?assignment=${a.id}`} className="text-xs font-bold uppercase tracking-widest text-white bg-stone-900 px-4 py-2 hover:bg-teal-800 transition-colors">Start</Link>
+                            <button onClick={() => handleSubmit(a.id)} disabled={submittingId === a.id} className="text-xs font-bold uppercase tracking-widest text-stone-900 border border-stone-200 px-4 py-2 hover:border-stone-900 transition-colors disabled:opacity-50">
+                                {submittingId === a.id ? 'Submitting...' : 'Submit'}
+                            </button>
+                        </div>
+                    )}
+                    {a.status === 'reviewed' && !!a._count?.comments && (
+                        <Link to={`/review?assignment=${a.id}`} className="flex items-center gap-1 text-xs text-teal-700 hover:underline shrink-0"><MessageCircle size={14} /> {a._count.comments} notes</Link>
+                    )}
+                </div>
+            ))}
+        </div>
+    </motion.div>
+  );
+};
+
 const Dashboard = () => {
   const { user } = useContext(UserContext);
 
@@ -65,6 +135,8 @@ const Dashboard = () => {
         </div>
       </motion.div>
 
+      <AssignmentInbox />
+
       <motion.div variants={item} className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="editorial-card p-8">
               <h3 className="font-serif font-bold text-xl mb-4">Recent Activity</h3>
@@ -1,7 +1,8 @@
-import React, { useState, useRef, useContext, useEffect } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Play, Pause, Volume2, ListMusic, Headphones, Disc, BookOpen, Clock, Settings, FastForward } from 'lucide-react';
 import { GeminiService } from '../services/geminiService';
-import { UserContext } from '../UserContext';
+import type { SpeechVoice } from '../services/api';
+import { usePracticeSession } from '../usePracticeSession';
 import { ListeningScenario } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -45,7 +46,7 @@ export default function ListeningLab() {
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const startTimeRef = useRef(0);
   const pauseTimeRef = useRef(0);
-  const { addXp } = useContext(UserContext);
+  const practice = usePracticeSession('listening', 'Listening Lab');
 
   useEffect(() => {
     return () => {
@@ -79,7 +80,7 @@ export default function ListeningLab() {
       const content = await GeminiService.generateListeningScenario(topic, 'Intermediate');
       setScenario(content as EnhancedScenario);
       
-      const voices = ['Kore', 'Fenrir', 'Puck', 'Zephyr', 'Charon'];
+      const voices: SpeechVoice[] = ['Kore', 'Fenrir', 'Puck', 'Zephyr', 'Charon'];
       const audioBase64 = await GeminiService.generateSpeech(content.transcript, voices[Math.floor(Math.random() * voices.length)]);
       
       if (audioBase64) {
@@ -202,7 +203,8 @@ export default function ListeningLab() {
   const checkAnswers = () => {
     if (!scenario) return;
     setShowResults(true);
-    addXp(100);
+    const correct = scenario.questions.filter(q => answers[q.id] === q.correctAnswer).length;
+    practice.finish({ score: Math.round((correct / scenario.questions.length) * 100) });
   };
 
   return (
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { History, Search, CheckCircle2, XCircle, Circle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { getUserSessions, SessionSummary } from '../services/api';
+import type { ListSessionsQuery } from '../services/api.generated';
+
+const container = {
+  hidden: { opacity: 0 },
+  show: { opacity: 1, transition: { staggerChildren: 0.1 } }
+};
+
+const item = {
+  hidden: { y: 20, opacity: 0 },
+  show: { y: 0, opacity: 1 }
+};
+
+const PAGE_SIZE = 20;
+
+const FEATURES = ['conversation', 'writing', 'accent', 'listening', 'video'] as const;
+const METRICS = ['score', 'clarity', 'pace', 'confidence', 'tone'] as const;
+
+interface Filters {
+  q: string;
+  featureType: string;
+  state: string;
+  from: string; // yyyy-mm-dd from the date inputs
+  to: string;
+  metric: NonNullable<ListSessionsQuery['metric']>;
+  min: string;
+  max: string;
+  sort: NonNullable<ListSessionsQuery['sort']>;
+}
+
+const EMPTY_FILTERS: Filters = {
+  q: '',
+  featureType: '',
+  state: '',
+  from: '',
+  to: '',
+  metric: 'score',
+  min: '',
+  max: '',
+  sort: 'newest',
+};
+
+// Date inputs are whole days in the learner's time zone
+const toQuery = (filters: Filters): ListSessionsQuery => ({
+  limit: PAGE_SIZE,
+  q: filters.q.trim() || undefined,
+  featureType: (filters.featureType || undefined) as ListSessionsQuery['featureType'],
+  state: (filters.state || undefined) as ListSessionsQuery['state'],
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  metric: filters.metric,
+  min: filters.min ? Number(filters.min) : undefined,
+  max: filters.max ? Number(filters.max) : undefined,
+  sort: filters.sort,
+});
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+
+const StateBadge = ({ session }: { session: SessionSummary }) => {
+  if (session.completed) return <span className="flex items-center gap-1 text-teal-700"><CheckCircle2 size={12} /> Completed</span>;
+  if (session.abandonedAt) return <span className="flex items-center gap-1 text-stone-400"><XCircle size={12} /> Abandoned</span>;
+  return <span className="flex items-center gap-1 text-amber-600"><Circle size={12} /> In progress</span>;
+};
+
+const fieldClass = 'w-full bg-transparent border-b border-stone-300 text-sm text-stone-900 py-2 focus:border-stone-900 outline-none';
+
+export default function SessionHistory() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError('');
+    getUserSessions(toQuery(filters))
+      .then(page => {
+        setSessions(page.sessions);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => setError(err.message || 'Could not load your sessions'))
+      .finally(() => setIsLoading(false));
+  }, [filters]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoading(true);
+    try {
+      const page = await getUserSessions({ ...toQuery(filters), cursor: nextCursor });
+      setSessions(prev => [...prev, ...page.sessions]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.message || 'Could not load more sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<Filters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  return (
+    <motion.div
+      variants={container}
+      initial="hidden"
+      animate="show"
+      className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-6"
+    >
+      <motion.form variants={item} onSubmit={handleSearch} className="lg:col-span-4 editorial-card p-6 bg-stone-50 space-y-5 self-start">
+        <div className="flex items-center gap-3">
+          <History size={20} className="text-teal-700" />
+          <h3 className="font-serif font-bold text-xl">Practice History</h3>
+        </div>
+
+        <div className="flex items-center gap-2 border-b border-stone-300 focus-within:border-stone-900">
+          <Search size={14} className="text-stone-400" />
+          <input
+            type="text"
+            value={draft.q}
+            onChange={(e) => update({ q: e.target.value })}
+            placeholder="Search titles and transcripts..."
+            className="flex-1 bg-transparent text-sm text-stone-900 py-2 outline-none"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            Feature
+            <select value={draft.featureType} onChange={(e) => update({ featureType: e.target.value })} className={`${fieldClass} capitalize`}>
+              <option value="">All</option>
+              {FEATURES.map(feature => <option key={feature} value={feature}>{feature}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            Status
+            <select value={draft.state} onChange={(e) => update({ state: e.target.value })} className={fieldClass}>
+              <option value="">All</option>
+              <option value="completed">Completed</option>
+              <option value="abandoned">Abandoned</option>
+              <option value="active">In progress</option>
+            </select>
+          </label>
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            From
+            <input type="date" value={draft.from} onChange={(e) => update({ from: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            To
+            <input type="date" value={draft.to} onChange={(e) => update({ to: e.target.value })} className={fieldClass} />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            Metric
+            <select value={draft.metric} onChange={(e) => update({ metric: e.target.value as Filters['metric'] })} className={`${fieldClass} capitalize`}>
+              {METRICS.map(metric => <option key={metric} value={metric}>{metric}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            Min
+            <input type="number" min={0} max={100} value={draft.min} onChange={(e) => update({ min: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="text-[10px] uppercase tracking-widest text-stone-400">
+            Max
+            <input type="number" min={0} max={100} value={draft.max} onChange={(e) => update({ max: e.target.value })} className={fieldClass} />
+          </label>
+        </div>
+
+        <label className="block text-[10px] uppercase tracking-widest text-stone-400">
+          Sort
+          <select value={draft.sort} onChange={(e) => update({ sort: e.target.value as Filters['sort'] })} className={fieldClass}>
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="highest">Highest {draft.metric} first</option>
+            <option value="lowest">Lowest {draft.metric} first</option>
+          </select>
+        </label>
+
+        <div className="flex gap-3">
+          <button type="submit" className="flex-1 text-xs font-bold uppercase tracking-widest text-white bg-stone-900 px-4 py-3 hover:bg-teal-800 transition-colors">
+            Search
+          </button>
+          <button type="button" onClick={handleReset} className="text-xs font-bold uppercase tracking-widest text-stone-900 border border-stone-200 px-4 py-3 hover:border-stone-900 transition-colors">
+            Reset
+          </button>
+        </div>
+      </motion.form>
+
+      <motion.div variants={item} className="lg:col-span-8 space-y-4">
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <p className="text-xs uppercase tracking-widest text-stone-400">{total} session{total === 1 ? '' : 's'}</p>
+
+        {!isLoading && sessions.length === 0 && (
+          <div className="editorial-card p-12 text-center text-stone-400 font-serif italic">No sessions match these filters.</div>
+        )}
+
+        {sessions.map(session => (
+          <div key={session.id} className="editorial-card p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h4 className="font-serif font-bold text-lg text-stone-900 truncate">{session.title || 'Untitled session'}</h4>
+                <p className="text-xs text-stone-500 mt-1">
+                  <span className="capitalize">{session.featureType}</span> • {new Date(session.createdAt).toLocaleDateString()} • {formatDuration(session.durationSeconds)}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-2xl font-serif font-bold text-stone-900">{Math.round(Number(session.score))}</p>
+                <div className="text-[10px] uppercase tracking-widest mt-1"><StateBadge session={session} /></div>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-4 text-xs text-stone-500">
+              {METRICS.filter(metric => metric !== 'score' && session[metric] !== null).map(metric => (
+                <span key={metric} className={metric === filters.metric ? 'font-bold text-stone-900' : ''}>
+                  <span className="capitalize">{metric}</span> {Math.round(Number(session[metric]))}
+                </span>
+              ))}
+            </div>
+            {session.snippet && <p className="text-sm text-stone-600 font-serif italic mt-4 border-l-2 border-teal-700 pl-3">{session.snippet}</p>}
+          </div>
+        ))}
+
+        {nextCursor && (
+          <button onClick={loadMore} disabled={isLoading} className="w-full text-xs font-bold uppercase tracking-widest text-stone-900 border border-stone-200 px-4 py-3 hover:border-stone-900 transition-colors disabled:opacity-50">
+            {isLoading ? 'Loading...' : 'Load More'}
+          </button>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
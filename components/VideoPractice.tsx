@@ -1,7 +1,7 @@
-import React, { useRef, useState, useEffect, useContext } from 'react';
+import React, { useRef, useState, useEffect } from 'react';
 import { Camera, StopCircle, RotateCcw, Activity, Clapperboard, Film } from 'lucide-react';
 import { GeminiService } from '../services/geminiService';
-import { UserContext } from '../UserContext';
+import { usePracticeSession } from '../usePracticeSession';
 import { motion } from 'framer-motion';
 
 export default function VideoPractice() {
@@ -21,7 +21,7 @@ export default function VideoPractice() {
   const [analysis, setAnalysis] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   
-  const { addXp } = useContext(UserContext);
+  const practice = usePracticeSession('video', 'Video Practice');
 
   useEffect(() => {
     return () => {
@@ -121,7 +121,7 @@ export default function VideoPractice() {
       try {
           const result = await GeminiService.analyzeVideoSession(framesRef.current, transcript, "Tell me about yourself.");
           setAnalysis(result);
-          addXp(200);
+          practice.finish({ transcript });
       } catch (e) { 
           setAnalysis({ error: "Processing failed." }); 
       } finally { 
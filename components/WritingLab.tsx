@@ -1,8 +1,8 @@
-import React, { useState, useContext, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Send, RefreshCw, Copy, Search, Upload, Globe, Layers, AlertCircle, MonitorPlay, Lightbulb, Check, FileText } from 'lucide-react';
 import { GeminiService } from '../services/geminiService';
 import { DocumentUtils } from '../services/documentUtils';
-import { UserContext } from '../UserContext';
+import { usePracticeSession } from '../usePracticeSession';
 import { motion } from 'framer-motion';
 import { useLocation } from 'react-router-dom';
 
@@ -63,7 +63,7 @@ export default function WritingLab() {
   const [platform, setPlatform] = useState('LinkedIn');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { addXp } = useContext(UserContext);
+  const practice = usePracticeSession('writing', 'Writing Lab');
   const location = useLocation();
 
   useEffect(() => {
@@ -107,28 +107,23 @@ export default function WritingLab() {
       if (mode === 'optimizer') {
         const result = await GeminiService.optimizeResumeJSON(input, contextInput || "General Role", intensity);
         setOptimizedResume(result);
-        addXp(100);
       } else if (mode === 'ats') {
         const result = await GeminiService.analyzeATS(input, contextInput);
         setAtsResult(result);
-        addXp(50);
       } else if (mode === 'bio') {
         const result = await GeminiService.generateBio(input, platform);
         setOutput(result);
-        addXp(25);
       } else if (mode === 'cultural') {
         const result = await GeminiService.culturalTranslate(input);
         setCulturalResult(result);
-        addXp(40);
       } else if (mode === 'gap') {
         const result = await GeminiService.gapAnalysis(input, contextInput);
         setGapResult(result);
-        addXp(75);
       } else if (mode === 'presentation') {
         const result = await GeminiService.analyzePresentation(input);
         setPresentationResult(result);
-        addXp(60);
       }
+      practice.finish();
     } catch (err) {
       console.error(err);
       setOutput("An error occurred. Please try again.");
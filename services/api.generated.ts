@@ -0,0 +1,510 @@
+// Generated from the API's OpenAPI document by `npm run generate:api-types` in backend/. Do not edit.
+
+/** Register - Create new account - POST /api/auth/register */
+export type RegisterBody = {
+  email: string;
+  name: string;
+  role: string;
+  password: string;
+};
+
+/** Login - Authenticate user - POST /api/auth/login */
+export type LoginBody = {
+  email: string;
+  password: string;
+};
+
+/** Google sign-in - Verify ID token and link or create user - POST /api/auth/google */
+export type GoogleLoginBody = {
+  credential: string;
+};
+
+/** Login second step - Verify a TOTP or recovery code against a challenge token - POST /api/auth/login/2fa */
+export type TwoFactorLoginBody = {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+};
+
+/** Refresh access token - rotates the refresh token on every call - POST /api/auth/refresh */
+export type RefreshTokenBody = {
+  refreshToken?: string;
+};
+
+/** Confirm 2FA enrollment - returns one-time recovery codes - POST /api/auth/2fa/confirm */
+export type ConfirmTwoFactorBody = {
+  code: string;
+};
+
+/** Disable 2FA - requires password and a current code or recovery code - POST /api/auth/2fa/disable */
+export type DisableTwoFactorBody = {
+  password?: string;
+  code?: string;
+  recoveryCode?: string;
+};
+
+/** Forgot password - email a reset link - POST /api/auth/forgot-password */
+export type ForgotPasswordBody = {
+  email: string;
+};
+
+/** Reset password with a single-use token - POST /api/auth/reset-password */
+export type ResetPasswordBody = {
+  token: string;
+  password: string;
+};
+
+/** Verify email address with a single-use token - POST /api/auth/verify-email */
+export type VerifyEmailBody = {
+  token: string;
+};
+
+/** Logout - revokes this device's refresh token - POST /api/auth/logout */
+export type LogoutBody = {
+  refreshToken?: string;
+};
+
+/** Process user prompt with Gemini - POST /api/gemini/process */
+export type ProcessPromptBody = {
+  prompt: string;
+  featureType?: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  conversationHistory?: {
+    /** 'user', anything else is the model */
+    role: string;
+    content: string;
+  }[];
+};
+
+/** Stream a reply to a prompt as Server-Sent Events: `delta` events carry text, a final `done` event carries token usage - POST /api/gemini/process/stream */
+export type StreamPromptBody = {
+  prompt: string;
+  featureType?: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  conversationHistory?: {
+    /** 'user', anything else is the model */
+    role: string;
+    content: string;
+  }[];
+};
+
+/** Generate session feedback - POST /api/gemini/generate-feedback */
+export type GenerateFeedbackBody = {
+  sessionId: string;
+};
+
+/** Find remote-friendly job listings with live search results - POST /api/gemini/jobs/search */
+export type SearchJobsBody = {
+  query: string;
+  userRole: string;
+};
+
+/** Score a recording of a reference phrase - POST /api/gemini/accent/analyze */
+export type AnalyzeAccentBody = {
+  /** Base64 recording, at most 3 MB */
+  audio: string;
+  mimeType?: string;
+  referenceText: string;
+};
+
+/** Analyze body language across JPEG frames from a video answer - POST /api/gemini/video/analyze */
+export type AnalyzeVideoBody = {
+  frames: string[];
+  transcript?: string;
+  question: string;
+};
+
+/** Explain how a phrase is received in US corporate culture - POST /api/gemini/cultural-translate */
+export type CulturalTranslateBody = {
+  phrase: string;
+};
+
+/** Compare a resume with a job description - POST /api/gemini/resume/gap-analysis */
+export type AnalyzeResumeGapBody = {
+  resumeText: string;
+  jobDescription: string;
+};
+
+/** Check a resume against an applicant tracking system - POST /api/gemini/resume/ats */
+export type AnalyzeResumeAtsBody = {
+  resumeText: string;
+  jobDescription: string;
+};
+
+/** Rewrite a resume for a job, strictly or creatively - POST /api/gemini/resume/optimize */
+export type OptimizeResumeBody = {
+  resumeText: string;
+  jobDescription: string;
+  intensity?: 'strict' | 'creative';
+};
+
+/** Summarize a presentation and prepare for audience questions - POST /api/gemini/presentation/analyze */
+export type AnalyzePresentationBody = {
+  text: string;
+};
+
+/** Write a professional bio - POST /api/gemini/bio */
+export type GenerateBioBody = {
+  context: string;
+  platform: string;
+};
+
+/** Create a listening exercise - POST /api/gemini/listening/scenario */
+export type GenerateListeningScenarioBody = {
+  topic: string;
+  difficulty?: string;
+};
+
+/** Read text aloud - returns base64 16-bit PCM at 24 kHz - POST /api/gemini/speech */
+export type GenerateSpeechBody = {
+  text: string;
+  voiceName?: 'Kore' | 'Fenrir' | 'Puck' | 'Zephyr' | 'Charon';
+};
+
+/** Get user sessions - search, filter and sort history, a page at a time - GET /api/sessions */
+export type ListSessionsQuery = {
+  limit?: number;
+  offset?: number;
+  /** nextCursor of the previous page; replaces offset */
+  cursor?: string;
+  /** Words to find in titles and transcripts */
+  q?: string;
+  featureType?: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  state?: 'active' | 'completed' | 'abandoned';
+  /** Sessions created at or after */
+  from?: string;
+  /** Sessions created at or before */
+  to?: string;
+  /** What min, max and the highest and lowest sorts apply to */
+  metric?: 'score' | 'clarity' | 'pace' | 'confidence' | 'tone';
+  min?: number;
+  max?: number;
+  sort?: 'newest' | 'oldest' | 'highest' | 'lowest';
+};
+
+/** Get user sessions - search, filter and sort history, a page at a time - GET /api/sessions */
+export type ListSessionsResponse = {
+  sessions: Array<{
+    id: string;
+    featureType: string;
+    title: string | null;
+    description: string | null;
+    /** Measured from heartbeats */
+    durationSeconds: number;
+    score: string;
+    completed: boolean;
+    completedAt: string | null;
+    abandonedAt: string | null;
+    transcript: string | null;
+    clarity: string | null;
+    pace: string | null;
+    confidence: string | null;
+    tone: string | null;
+    createdAt: string;
+    /** Transcript around the search words, when searching */
+    snippet?: string | null;
+  }>;
+  total: number;
+  limit: number;
+  offset: number;
+  /** Pass as cursor for the next page; null on the last one */
+  nextCursor: string | null;
+};
+
+/** Create session - POST /api/sessions */
+export type CreateSessionBody = {
+  featureType: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  title?: string;
+  description?: string;
+};
+
+/** Create session - POST /api/sessions */
+export type CreateSessionResponse = {
+  id: string;
+  featureType: string;
+  title: string | null;
+  description: string | null;
+  /** Measured from heartbeats */
+  durationSeconds: number;
+  score: string;
+  completed: boolean;
+  completedAt: string | null;
+  abandonedAt: string | null;
+  transcript: string | null;
+  clarity: string | null;
+  pace: string | null;
+  confidence: string | null;
+  tone: string | null;
+  createdAt: string;
+  /** How often to send heartbeats while the session is open */
+  heartbeatIntervalSeconds: number;
+};
+
+/** Get session details - GET /api/sessions/{id} */
+export type GetSessionResponse = {
+  id: string;
+  featureType: string;
+  title: string | null;
+  description: string | null;
+  /** Measured from heartbeats */
+  durationSeconds: number;
+  score: string;
+  completed: boolean;
+  completedAt: string | null;
+  abandonedAt: string | null;
+  transcript: string | null;
+  clarity: string | null;
+  pace: string | null;
+  confidence: string | null;
+  tone: string | null;
+  createdAt: string;
+};
+
+/** Update session - only while it is active - PATCH /api/sessions/{id} */
+export type UpdateSessionBody = {
+  score?: number;
+  transcript?: string;
+  feedbackJson?: Record<string, unknown>;
+  clarity?: number;
+  pace?: number;
+  confidence?: number;
+  tone?: number;
+};
+
+/** Update session - only while it is active - PATCH /api/sessions/{id} */
+export type UpdateSessionResponse = {
+  id: string;
+  featureType: string;
+  title: string | null;
+  description: string | null;
+  /** Measured from heartbeats */
+  durationSeconds: number;
+  score: string;
+  completed: boolean;
+  completedAt: string | null;
+  abandonedAt: string | null;
+  transcript: string | null;
+  clarity: string | null;
+  pace: string | null;
+  confidence: string | null;
+  tone: string | null;
+  createdAt: string;
+};
+
+/** Heartbeat - counts the time since the last one towards the session - POST /api/sessions/{id}/heartbeat */
+export type HeartbeatSessionResponse = {
+  id: string;
+  durationSeconds: number;
+  /** How often to send heartbeats while the session is open */
+  heartbeatIntervalSeconds: number;
+};
+
+/** Complete a session and award XP for it - POST /api/sessions/{id}/complete */
+export type CompleteSessionResponse = {
+  id: string;
+  featureType: string;
+  title: string | null;
+  description: string | null;
+  /** Measured from heartbeats */
+  durationSeconds: number;
+  score: string;
+  completed: boolean;
+  completedAt: string | null;
+  abandonedAt: string | null;
+  transcript: string | null;
+  clarity: string | null;
+  pace: string | null;
+  confidence: string | null;
+  tone: string | null;
+  createdAt: string;
+  /** Nothing for sessions shorter than a minute */
+  xpAwarded: number;
+};
+
+/** Abandon a session - it earns no XP and is left out of averages - POST /api/sessions/{id}/abandon */
+export type AbandonSessionResponse = {
+  id: string;
+  featureType: string;
+  title: string | null;
+  description: string | null;
+  /** Measured from heartbeats */
+  durationSeconds: number;
+  score: string;
+  completed: boolean;
+  completedAt: string | null;
+  abandonedAt: string | null;
+  transcript: string | null;
+  clarity: string | null;
+  pace: string | null;
+  confidence: string | null;
+  tone: string | null;
+  createdAt: string;
+};
+
+/** Track event - POST /api/analytics/events */
+export type TrackEventBody = {
+  eventType: string;
+  metadata?: Record<string, unknown>;
+};
+
+/** Request account deletion - requires re-authentication, purged after the grace period - DELETE /api/account */
+export type DeleteAccountBody = {
+  password?: string;
+  code?: string;
+  recoveryCode?: string;
+  credential?: string;
+};
+
+/** List users - GET /api/admin/users */
+export type ListUsersQuery = {
+  limit?: number;
+  offset?: number;
+  search?: string;
+  permissionRole?: 'learner' | 'coach' | 'admin';
+};
+
+/** Change a user's permission role - PATCH /api/admin/users/{id}/role */
+export type SetUserRoleBody = {
+  permissionRole: 'learner' | 'coach' | 'admin';
+};
+
+/** Put a user on a plan, or back on their organization's (or the free) plan with null - PATCH /api/admin/users/{id}/plan */
+export type SetUserPlanBody = {
+  plan: 'free' | 'pro' | 'enterprise' | null;
+};
+
+/** Set one of a user's quota limits, or clear the override with a null limit - PATCH /api/admin/users/{id}/quota */
+export type SetUserQuotaBody = {
+  featureType?: '*' | 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  metric: 'tokens' | 'voice_minutes' | 'video_analyses' | 'tts_characters';
+  period?: 'daily' | 'monthly';
+  limit: number | null;
+};
+
+/** Disable an account and sign it out everywhere - POST /api/admin/users/{id}/disable */
+export type DisableUserBody = {
+  reason?: string;
+};
+
+/** Replace every limit of a plan - PUT /api/admin/plans/{key}/limits */
+export type SetPlanLimitsBody = {
+  limits: Array<{
+    featureType?: '*' | 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+    metric: 'tokens' | 'voice_minutes' | 'video_analyses' | 'tts_characters';
+    period?: 'daily' | 'monthly';
+    limit: number;
+  }>;
+};
+
+/** Put an organization's members on a plan, or clear it with null - PATCH /api/admin/organizations/{id}/plan */
+export type SetOrganizationPlanBody = {
+  plan: 'free' | 'pro' | 'enterprise' | null;
+};
+
+/** Set one quota limit for every member of an organization, or clear it with a null limit - PATCH /api/admin/organizations/{id}/quota */
+export type SetOrganizationQuotaBody = {
+  featureType?: '*' | 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  metric: 'tokens' | 'voice_minutes' | 'video_analyses' | 'tts_characters';
+  period?: 'daily' | 'monthly';
+  limit: number | null;
+};
+
+/** Pin a prompt template to one of its versions, or back to the newest with null - PATCH /api/admin/prompts/{id}/pin */
+export type PinPromptBody = {
+  version: number | null;
+};
+
+/** Create an organization (platform admins only) - POST /api/organizations */
+export type CreateOrganizationBody = {
+  name: string;
+  seatLimit: number;
+  adminUserId?: string;
+};
+
+/** Accept an invitation link - POST /api/organizations/invitations/accept */
+export type AcceptInvitationBody = {
+  token: string;
+};
+
+/** Rename or resize an organization (platform admins only) - PATCH /api/organizations/{orgId} */
+export type UpdateOrganizationBody = {
+  name?: string;
+  seatLimit?: number;
+};
+
+/** Create a cohort - POST /api/organizations/{orgId}/cohorts */
+export type CreateCohortBody = {
+  name: string;
+  startsAt?: string | null;
+  endsAt?: string | null;
+};
+
+/** Create an invitation link - POST /api/organizations/{orgId}/invitations */
+export type CreateInvitationBody = {
+  cohortId?: string | null;
+  email?: string | null;
+  orgRole?: 'member' | 'org_admin';
+  maxUses?: number | null;
+  expiresInDays?: number;
+};
+
+/** List members - GET /api/organizations/{orgId}/members */
+export type ListMembersQuery = {
+  cohortId?: string;
+};
+
+/** Change a member's cohort or org role - PATCH /api/organizations/{orgId}/members/{userId} */
+export type UpdateMemberBody = {
+  cohortId?: string | null;
+  orgRole?: 'member' | 'org_admin';
+};
+
+/** Opt in or out of sharing transcripts with org admins - PATCH /api/organizations/{orgId}/membership */
+export type UpdateMembershipBody = {
+  shareTranscripts: boolean;
+};
+
+/** Average score, clarity and pace per cohort and feature - GET /api/organizations/{orgId}/analytics */
+export type GetOrganizationAnalyticsQuery = {
+  cohortId?: string;
+  from?: string;
+  to?: string;
+};
+
+/** List assignments - the learner inbox by default, or ?as=coach for assignments you set - GET /api/assignments */
+export type ListAssignmentsQuery = {
+  as?: 'learner' | 'coach';
+  status?: 'assigned' | 'submitted' | 'reviewed';
+  learnerId?: string;
+};
+
+/** Assign practice to a learner - POST /api/assignments */
+export type CreateAssignmentBody = {
+  learnerId: string;
+  featureType: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  title: string;
+  instructions?: string | null;
+  /** Feature settings, e.g. scenario and persona */
+  config?: Record<string, unknown> | null;
+  dueAt?: string | null;
+};
+
+/** Edit an assignment - PATCH /api/assignments/{id} */
+export type UpdateAssignmentBody = {
+  title?: string;
+  instructions?: string | null;
+  config?: Record<string, unknown>;
+  dueAt?: string | null;
+};
+
+/** Submit a session for review - POST /api/assignments/{id}/submit */
+export type SubmitAssignmentBody = {
+  sessionId?: string;
+};
+
+/** Leave a review comment on the submitted session - POST /api/assignments/{id}/comments */
+export type AddReviewCommentBody = {
+  target?: 'transcript' | 'highlight' | 'general';
+  offsetSeconds?: number | null;
+  highlightIndex?: number | null;
+  quote?: string | null;
+  body: string;
+};
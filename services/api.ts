@@ -1,4 +1,47 @@
 import { ChatMessage } from '../types';
+import type {
+  RegisterBody,
+  LoginBody,
+  GoogleLoginBody,
+  TwoFactorLoginBody,
+  ConfirmTwoFactorBody,
+  DisableTwoFactorBody,
+  ForgotPasswordBody,
+  ResetPasswordBody,
+  VerifyEmailBody,
+  ProcessPromptBody,
+  GenerateFeedbackBody,
+  SearchJobsBody,
+  AnalyzeAccentBody,
+  AnalyzeVideoBody,
+  CulturalTranslateBody,
+  AnalyzeResumeGapBody,
+  AnalyzeResumeAtsBody,
+  OptimizeResumeBody,
+  AnalyzePresentationBody,
+  GenerateBioBody,
+  GenerateListeningScenarioBody,
+  GenerateSpeechBody,
+  CreateSessionBody,
+  CreateSessionResponse,
+  UpdateSessionBody,
+  UpdateSessionResponse,
+  ListSessionsQuery,
+  ListSessionsResponse,
+  GetSessionResponse,
+  HeartbeatSessionResponse,
+  CompleteSessionResponse,
+  AbandonSessionResponse,
+  TrackEventBody,
+  DeleteAccountBody,
+  AcceptInvitationBody,
+  UpdateMembershipBody,
+  GetOrganizationAnalyticsQuery,
+  ListAssignmentsQuery,
+  CreateAssignmentBody,
+  SubmitAssignmentBody,
+  AddReviewCommentBody,
+} from './api.generated';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -44,17 +87,15 @@ export const clearAuth = () => {
 };
 
 // Refresh access token using refresh token
+// The backend rotates the HTTP-only refresh cookie on every call
 export const refreshAccessTokenFn = async (): Promise<boolean> => {
   try {
     const refreshTok = getRefreshToken();
-    if (!refreshTok) {
-      return false;
-    }
 
     const response = await fetch(`${API_URL}/auth/refresh`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ refreshToken: refreshTok }),
+      body: JSON.stringify(refreshTok ? { refreshToken: refreshTok } : {}),
       credentials: 'include',
     });
 
@@ -150,23 +191,83 @@ export const registerUser = async (
 ) => {
   const data = await apiRequest('/auth/register', {
     method: 'POST',
-    body: JSON.stringify({ email, name, role, password }),
+    body: JSON.stringify({ email, name, role, password } satisfies RegisterBody),
   });
 
   setAuthTokens(data.accessToken, data.refreshToken || '', data.expiresIn);
   return data.user;
 };
 
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+// Accounts with 2FA enabled get a challenge instead of tokens
+export const isTwoFactorChallenge = (result: any): result is TwoFactorChallenge => {
+  return !!result?.twoFactorRequired;
+};
+
 export const loginUser = async (email: string, password: string) => {
   const data = await apiRequest('/auth/login', {
     method: 'POST',
-    body: JSON.stringify({ email, password }),
+    body: JSON.stringify({ email, password } satisfies LoginBody),
   });
 
+  if (isTwoFactorChallenge(data)) return data;
+
   setAuthTokens(data.accessToken, data.refreshToken || '', data.expiresIn);
   return data.user;
 };
 
+export const loginWithGoogle = async (credential: string) => {
+  const data = await apiRequest('/auth/google', {
+    method: 'POST',
+    body: JSON.stringify({ credential } satisfies GoogleLoginBody),
+  });
+
+  if (isTwoFactorChallenge(data)) return data;
+
+  setAuthTokens(data.accessToken, data.refreshToken || '', data.expiresIn);
+  return data.user;
+};
+
+type SecondFactor = Pick<TwoFactorLoginBody, 'code' | 'recoveryCode'>;
+
+export const completeTwoFactorLogin = async (
+  challengeToken: string,
+  factor: SecondFactor
+) => {
+  const data = await apiRequest('/auth/login/2fa', {
+    method: 'POST',
+    body: JSON.stringify({ challengeToken, ...factor } satisfies TwoFactorLoginBody),
+  });
+
+  setAuthTokens(data.accessToken, data.refreshToken || '', data.expiresIn);
+  return data.user;
+};
+
+export const setupTwoFactor = async (): Promise<{ secret: string; otpauthUrl: string }> => {
+  return apiRequest('/auth/2fa/setup', { method: 'POST' });
+};
+
+export const confirmTwoFactor = async (code: string): Promise<{ enabled: boolean; recoveryCodes: string[] }> => {
+  return apiRequest('/auth/2fa/confirm', {
+    method: 'POST',
+    body: JSON.stringify({ code } satisfies ConfirmTwoFactorBody),
+  });
+};
+
+export const disableTwoFactor = async (
+  password: string,
+  factor: SecondFactor
+) => {
+  return apiRequest('/auth/2fa/disable', {
+    method: 'POST',
+    body: JSON.stringify({ password, ...factor } satisfies DisableTwoFactorBody),
+  });
+};
+
 export const verifyToken = async () => {
   return apiRequest('/auth/verify');
 };
@@ -179,14 +280,55 @@ export const logoutUser = async () => {
   }
 };
 
-// ============ GEMINI API ============
+export const requestPasswordReset = async (email: string) => {
+  return apiRequest('/auth/forgot-password', {
+    method: 'POST',
+    body: JSON.stringify({ email } satisfies ForgotPasswordBody),
+  });
+};
 
-export interface ProcessPromptRequest {
-  prompt: string;
-  featureType?: string;
-  conversationHistory?: Array<{ role: string; content: string }>;
+export const resetPassword = async (token: string, password: string) => {
+  return apiRequest('/auth/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ token, password } satisfies ResetPasswordBody),
+  });
+};
+
+export const verifyEmail = async (token: string) => {
+  return apiRequest('/auth/verify-email', {
+    method: 'POST',
+    body: JSON.stringify({ token } satisfies VerifyEmailBody),
+  });
+};
+
+export const resendVerificationEmail = async () => {
+  return apiRequest('/auth/verify-email/resend', { method: 'POST' });
+};
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  current: boolean;
 }
 
+export const getDeviceSessions = async (): Promise<{ sessions: DeviceSession[] }> => {
+  return apiRequest('/auth/sessions');
+};
+
+export const signOutDevice = async (sessionId: string) => {
+  return apiRequest(`/auth/sessions/${sessionId}`, { method: 'DELETE' });
+};
+
+export const signOutOtherDevices = async (): Promise<{ revoked: number }> => {
+  return apiRequest('/auth/sessions', { method: 'DELETE' });
+};
+
+// ============ GEMINI API ============
+
+export type ProcessPromptRequest = ProcessPromptBody;
+
 export interface ProcessPromptResponse {
   response: string;
   tokensUsed: number;
@@ -202,26 +344,310 @@ export const processPrompt = async (
   });
 };
 
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; tokensUsed: number; remainingQuota: number; model: string };
+
+// Open a streaming POST, refreshing the access token the same way apiRequest does
+const openStream = async (endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  if (isTokenExpiringSoon() && !(await refreshAccessTokenFn())) {
+    throw new Error('Session expired. Please log in again.');
+  }
+
+  const send = () => fetch(`${API_URL}${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(getAccessToken() && { Authorization: `Bearer ${getAccessToken()}` }),
+    },
+    body: JSON.stringify(body),
+    credentials: 'include',
+    signal,
+  });
+
+  let response = await send();
+  if (response.status === 401) {
+    if (!(await refreshAccessTokenFn())) {
+      clearAuth();
+      throw new Error('Session expired. Please log in again.');
+    }
+    response = await send();
+  }
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'API request failed');
+  }
+
+  return response;
+};
+
+/**
+ * Stream a reply as it is generated:
+ *
+ *   for await (const event of streamPrompt({ prompt })) {
+ *     if (event.type === 'delta') setText(t => t + event.text);
+ *   }
+ *
+ * Aborting the signal (or breaking out of the loop) cancels generation on the server.
+ */
+export async function* streamPrompt(
+  req: ProcessPromptRequest,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  const response = await openStream('/gemini/process/stream', req, signal);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      // Events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'error') throw new Error(payload.error || 'Streaming failed');
+        if (event === 'delta') yield { type: 'delta', text: payload.text };
+        if (event === 'done') yield { type: 'done', ...payload };
+      }
+    }
+  } finally {
+    // Closing the stream early disconnects, which stops generation server-side
+    await reader.cancel().catch(() => {});
+  }
+}
+
 export const generateFeedback = async (sessionId: string) => {
   return apiRequest('/gemini/generate-feedback', {
     method: 'POST',
-    body: JSON.stringify({ sessionId }),
+    body: JSON.stringify({ sessionId } satisfies GenerateFeedbackBody),
   });
 };
 
-export const getQuotaStatus = async () => {
+export interface TokenUsage {
+  tokensUsed: number;
+  inputTokens: number;
+  outputTokens: number;
+  mediaTokens: number;
+}
+
+export interface QuotaLimitStatus {
+  featureType: string; // '*' for all features combined
+  metric: 'tokens' | 'voice_minutes' | 'video_analyses' | 'tts_characters';
+  period: 'daily' | 'monthly';
+  limit: number;
+  source: 'plan' | 'organization' | 'user';
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface QuotaStatus extends TokenUsage {
+  estimatedCostUsd: number;
+  byModel: (TokenUsage & { model: string | null; estimatedCostUsd: number | null })[];
+  cache: { hits: number; tokensSaved: number };
+  plan: { key: string; name: string };
+  limits: QuotaLimitStatus[];
+  quota: number | null;
+  remaining: number | null;
+  resetAt: string;
+}
+
+export const getQuotaStatus = async (): Promise<QuotaStatus> => {
   return apiRequest('/gemini/quota');
 };
 
-// ============ SESSIONS API ============
+// ============ AI CAPABILITIES API ============
 
-export interface SessionData {
-  featureType: string;
-  title?: string;
-  description?: string;
+export interface JobSearchResult {
+  title: string;
+  company: string;
+  location: string;
+  description: string;
+  url?: string;
+}
+
+export interface AccentAnalysis {
+  score: number;
+  feedback: string[];
 }
 
-export const createSession = async (data: SessionData) => {
+export interface VideoAnalysis {
+  confidence: string;
+  nonVerbal: string[];
+  consistency: string;
+}
+
+export interface CulturalTranslation {
+  perception: string;
+  hiddenMeaning: string;
+  alternatives: string[];
+}
+
+export interface GapAnalysis {
+  missingHardSkills: string[];
+  missingSoftSkills: string[];
+  experienceGaps: string[];
+  score: number;
+}
+
+export interface PresentationAnalysis {
+  summary: string;
+  qa: { question: string; answer: string }[];
+  improvements: string[];
+}
+
+export interface GeneratedListeningScenario {
+  title: string;
+  context: string;
+  transcript: string;
+  vocabulary: { term: string; definition: string }[];
+  questions: { id: number; question: string; options: string[]; correctAnswer: number }[];
+}
+
+export interface AtsAnalysis {
+  score: number;
+  missingKeywords: string[];
+  formattingIssues: string[];
+  improvementTips: string[];
+}
+
+export interface OptimizedResume {
+  fullName: string;
+  contactInfo: string;
+  summary: string;
+  experience: { company: string; role: string; dates: string; bullets: string[] }[];
+  education: { school: string; degree: string; year: string }[];
+  skills: { technical: string[]; soft: string[]; tools: string[] };
+}
+
+const postCapability = <T>(endpoint: string, body: unknown): Promise<T> => {
+  return apiRequest(`/gemini${endpoint}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+};
+
+export const searchJobs = async (query: string, userRole: string): Promise<JobSearchResult[]> => {
+  const { jobs } = await postCapability<{ jobs: JobSearchResult[] }>('/jobs/search', { query, userRole } satisfies SearchJobsBody);
+  return jobs;
+};
+
+export const analyzeAccent = async (
+  audio: string,
+  referenceText: string,
+  mimeType: string = 'audio/webm'
+): Promise<AccentAnalysis> => {
+  return postCapability('/accent/analyze', { audio, mimeType, referenceText } satisfies AnalyzeAccentBody);
+};
+
+export const analyzeVideoSession = async (
+  frames: string[],
+  transcript: string,
+  question: string
+): Promise<VideoAnalysis> => {
+  return postCapability('/video/analyze', { frames, transcript, question } satisfies AnalyzeVideoBody);
+};
+
+export const culturalTranslate = async (phrase: string): Promise<CulturalTranslation> => {
+  return postCapability('/cultural-translate', { phrase } satisfies CulturalTranslateBody);
+};
+
+export const gapAnalysis = async (resumeText: string, jobDescription: string): Promise<GapAnalysis> => {
+  return postCapability('/resume/gap-analysis', { resumeText, jobDescription } satisfies AnalyzeResumeGapBody);
+};
+
+export const analyzeATS = async (resumeText: string, jobDescription: string): Promise<AtsAnalysis> => {
+  return postCapability('/resume/ats', { resumeText, jobDescription } satisfies AnalyzeResumeAtsBody);
+};
+
+export const optimizeResume = async (
+  resumeText: string,
+  jobDescription: string,
+  intensity: OptimizeResumeBody['intensity'] = 'strict'
+): Promise<OptimizedResume> => {
+  return postCapability('/resume/optimize', { resumeText, jobDescription, intensity } satisfies OptimizeResumeBody);
+};
+
+export const analyzePresentation = async (text: string): Promise<PresentationAnalysis> => {
+  return postCapability('/presentation/analyze', { text } satisfies AnalyzePresentationBody);
+};
+
+export const generateBio = async (context: string, platform: string): Promise<string> => {
+  const { bio } = await postCapability<{ bio: string }>('/bio', { context, platform } satisfies GenerateBioBody);
+  return bio;
+};
+
+export const generateListeningScenario = async (
+  topic: string,
+  difficulty: string
+): Promise<GeneratedListeningScenario> => {
+  return postCapability('/listening/scenario', { topic, difficulty } satisfies GenerateListeningScenarioBody);
+};
+
+export type SpeechVoice = NonNullable<GenerateSpeechBody['voiceName']>;
+
+// Returns base64 16-bit PCM at 24 kHz
+export const generateSpeech = async (text: string, voiceName: SpeechVoice = 'Kore'): Promise<string> => {
+  const { audio } = await postCapability<{ audio: string }>('/speech', { text, voiceName } satisfies GenerateSpeechBody);
+  return audio;
+};
+
+// ============ LIVE API ============
+
+export interface LiveCallOptions {
+  scenario: string;
+  persona: string;
+  context?: string;
+}
+
+export type LiveServerEvent =
+  | { type: 'ready'; tokensPerMinute: number }
+  | { type: 'transcript'; role: 'user' | 'model'; text: string }
+  | { type: 'interrupted' }
+  | { type: 'ended'; sessionId: string | null; durationSeconds: number; reason: string; xpAwarded: number }
+  | { type: 'error'; error: string };
+
+// Open a realtime voice call through the backend relay. Resolves once the
+// relay has authenticated us and connected upstream; binary frames are 24 kHz PCM.
+export const openLiveCall = async (options: LiveCallOptions): Promise<WebSocket> => {
+  if (isTokenExpiringSoon() && !(await refreshAccessTokenFn())) {
+    throw new Error('Session expired. Please log in again.');
+  }
+
+  const socket = new WebSocket(`${API_URL.replace(/^http/, 'ws')}/gemini/live`);
+  socket.binaryType = 'arraybuffer';
+
+  return new Promise((resolve, reject) => {
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'start', token: getAccessToken(), ...options }));
+    };
+    socket.onmessage = (e) => {
+      if (typeof e.data !== 'string') return;
+      const event: LiveServerEvent = JSON.parse(e.data);
+      if (event.type === 'ready') resolve(socket);
+      if (event.type === 'error') reject(new Error(event.error));
+    };
+    socket.onclose = () => reject(new Error('Could not connect to the live relay'));
+  });
+};
+
+// ============ SESSIONS API ============
+
+export type SessionData = CreateSessionBody;
+
+export const createSession = async (data: SessionData): Promise<CreateSessionResponse> => {
   return apiRequest('/sessions', {
     method: 'POST',
     body: JSON.stringify(data),
@@ -230,46 +656,57 @@ export const createSession = async (data: SessionData) => {
 
 export const updateSession = async (
   sessionId: string,
-  updates: Partial<{
-    durationSeconds: number;
-    score: number;
-    transcript: string;
-    feedbackJson: any;
-    clarity: number;
-    pace: number;
-    confidence: number;
-    tone: number;
-  }>
-) => {
+  updates: UpdateSessionBody
+): Promise<UpdateSessionResponse> => {
   return apiRequest(`/sessions/${sessionId}`, {
     method: 'PATCH',
     body: JSON.stringify(updates),
   });
 };
 
-export const getUserSessions = async (
-  featureType?: string,
-  limit = 20,
-  offset = 0
-) => {
-  const params = new URLSearchParams();
-  if (featureType) params.append('featureType', featureType);
-  params.append('limit', limit.toString());
-  params.append('offset', offset.toString());
+export const heartbeatSession = async (sessionId: string): Promise<HeartbeatSessionResponse> => {
+  return apiRequest(`/sessions/${sessionId}/heartbeat`, { method: 'POST' });
+};
+
+// Send heartbeats while a session is open so the server can measure its duration; returns a stop function
+export const startSessionHeartbeat = (sessionId: string, intervalSeconds: number = 30): (() => void) => {
+  const timer = setInterval(() => {
+    heartbeatSession(sessionId).catch(error => console.warn('Session heartbeat failed:', error));
+  }, intervalSeconds * 1000);
+  return () => clearInterval(timer);
+};
 
-  return apiRequest(`/sessions?${params}`);
+// Completing awards XP; only completed sessions count towards averages
+export const completeSession = async (sessionId: string): Promise<CompleteSessionResponse> => {
+  return apiRequest(`/sessions/${sessionId}/complete`, { method: 'POST' });
 };
 
-export const getSession = async (sessionId: string) => {
+export const abandonSession = async (sessionId: string): Promise<AbandonSessionResponse> => {
+  return apiRequest(`/sessions/${sessionId}/abandon`, { method: 'POST' });
+};
+
+// Decimal columns arrive as strings
+export type SessionSummary = ListSessionsResponse['sessions'][number];
+
+export type SessionPage = ListSessionsResponse;
+
+export const getUserSessions = async (filters: ListSessionsQuery = {}): Promise<SessionPage> => {
+  const params = new URLSearchParams(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+  const query = params.toString();
+  return apiRequest(`/sessions${query ? `?${query}` : ''}`);
+};
+
+export const getSession = async (sessionId: string): Promise<GetSessionResponse> => {
   return apiRequest(`/sessions/${sessionId}`);
 };
 
 // ============ ANALYTICS API ============
 
-export interface AnalyticsEvent {
-  eventType: string;
-  metadata?: any;
-}
+export type AnalyticsEvent = TrackEventBody;
 
 export const trackEvent = async (event: AnalyticsEvent) => {
   return apiRequest('/analytics/events', {
@@ -285,3 +722,162 @@ export const getUserStats = async () => {
 export const getFeatureAdoption = async () => {
   return apiRequest('/analytics/adoption');
 };
+
+// ============ ACCOUNT API ============
+
+export const exportAccountData = async () => {
+  return apiRequest('/account/export');
+};
+
+export const deleteAccount = async (reauth: DeleteAccountBody): Promise<{ message: string; scheduledFor: string }> => {
+  return apiRequest('/account', {
+    method: 'DELETE',
+    body: JSON.stringify(reauth),
+  });
+};
+
+export const cancelAccountDeletion = async () => {
+  return apiRequest('/account/restore', { method: 'POST' });
+};
+
+// ============ ORGANIZATIONS API ============
+
+export interface Membership {
+  id: string;
+  name: string;
+  cohort: { id: string; name: string } | null;
+  orgRole: 'member' | 'org_admin';
+  shareTranscripts: boolean;
+  joinedAt: string;
+}
+
+export interface FeatureMetrics {
+  featureType: string;
+  sessions: number;
+  averageScore: number;
+  averageClarity: number | null;
+  averagePace: number | null;
+}
+
+export interface CohortAnalytics {
+  cohortId: string | null;
+  cohortName: string | null;
+  members: number;
+  totalSessions: number;
+  completedSessions: number;
+  averageScore: number;
+  features: FeatureMetrics[];
+}
+
+export const getMyOrganizations = async (): Promise<Membership[]> => {
+  return apiRequest('/organizations');
+};
+
+export const acceptInvitation = async (token: string) => {
+  return apiRequest('/organizations/invitations/accept', {
+    method: 'POST',
+    body: JSON.stringify({ token } satisfies AcceptInvitationBody),
+  });
+};
+
+export const setTranscriptSharing = async (orgId: string, shareTranscripts: boolean) => {
+  return apiRequest(`/organizations/${orgId}/membership`, {
+    method: 'PATCH',
+    body: JSON.stringify({ shareTranscripts } satisfies UpdateMembershipBody),
+  });
+};
+
+export const getOrganizationAnalytics = async (
+  orgId: string,
+  filters: GetOrganizationAnalyticsQuery = {}
+): Promise<{ cohorts: CohortAnalytics[] }> => {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value) as [string, string][]
+  );
+  const query = params.toString();
+  return apiRequest(`/organizations/${orgId}/analytics${query ? `?${query}` : ''}`);
+};
+
+export const getMemberProgress = async (orgId: string, userId: string) => {
+  return apiRequest(`/organizations/${orgId}/members/${userId}/progress`);
+};
+
+// ============ ASSIGNMENTS API ============
+
+export interface Assignment {
+  id: string;
+  coachId: string;
+  learnerId: string;
+  featureType: 'conversation' | 'writing' | 'accent' | 'listening' | 'video';
+  title: string;
+  instructions: string | null;
+  config: { scenario?: string; persona?: string; phrases?: string[] } | null;
+  dueAt: string | null;
+  status: 'assigned' | 'submitted' | 'reviewed';
+  sessionId: string | null;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  coach?: { id: string; name: string };
+  learner?: { id: string; name: string };
+  _count?: { comments: number };
+}
+
+export interface ReviewComment {
+  id: string;
+  target: 'transcript' | 'highlight' | 'general';
+  offsetSeconds: number | null;
+  highlightIndex: number | null;
+  quote: string | null;
+  body: string;
+  createdAt: string;
+  author: { id: string; name: string };
+}
+
+export interface AssignmentDetail extends Assignment {
+  session: { id: string; transcript: string | null; durationSeconds: number; score: string; createdAt: string } | null;
+  feedback: { score: string; highlights: { timestamp?: number | string; text: string; type?: string }[] } | null;
+  comments: ReviewComment[];
+}
+
+export const getAssignments = async (
+  filters: ListAssignmentsQuery = {}
+): Promise<Assignment[]> => {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => value) as [string, string][]
+  );
+  const query = params.toString();
+  return apiRequest(`/assignments${query ? `?${query}` : ''}`);
+};
+
+export const getAssignment = async (id: string): Promise<AssignmentDetail> => {
+  return apiRequest(`/assignments/${id}`);
+};
+
+export const createAssignment = async (data: CreateAssignmentBody): Promise<Assignment> => {
+  return apiRequest('/assignments', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+};
+
+export const submitAssignment = async (id: string, sessionId?: string): Promise<Assignment> => {
+  return apiRequest(`/assignments/${id}/submit`, {
+    method: 'POST',
+    body: JSON.stringify({ sessionId } satisfies SubmitAssignmentBody),
+  });
+};
+
+export const addReviewComment = async (
+  id: string,
+  comment: AddReviewCommentBody
+): Promise<ReviewComment> => {
+  return apiRequest(`/assignments/${id}/comments`, {
+    method: 'POST',
+    body: JSON.stringify(comment),
+  });
+};
+
+export const completeReview = async (id: string): Promise<Assignment> => {
+  return apiRequest(`/assignments/${id}/review`, { method: 'POST' });
+};
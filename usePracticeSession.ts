@@ -0,0 +1,83 @@
+import { useContext, useEffect, useRef } from 'react';
+import { UserContext } from './UserContext';
+import {
+  createSession,
+  updateSession,
+  completeSession,
+  abandonSession,
+  startSessionHeartbeat,
+  SessionData,
+} from './services/api';
+import type { UpdateSessionBody } from './services/api.generated';
+
+interface OpenSession {
+  id: string;
+  stopHeartbeat: () => void;
+}
+
+/**
+ * Keep a practice panel's time on a server session: one is opened while the
+ * panel is shown and kept alive with heartbeats, so the server measures how
+ * long was spent. finish() records the results, completes it, credits the XP
+ * the server awarded and opens the next one; leaving the panel abandons it.
+ */
+export const usePracticeSession = (featureType: SessionData['featureType'], title: string) => {
+  const { addXp } = useContext(UserContext);
+  const openRef = useRef<Promise<OpenSession | null> | null>(null);
+  const closedRef = useRef(false);
+
+  const open = () => {
+    openRef.current = createSession({ featureType, title })
+      .then(session => {
+        const opened = { id: session.id, stopHeartbeat: startSessionHeartbeat(session.id, session.heartbeatIntervalSeconds) };
+        // Left before the server answered
+        if (closedRef.current) {
+          abandon(opened);
+          return null;
+        }
+        return opened;
+      })
+      .catch(error => {
+        console.warn('Could not start a practice session:', error);
+        return null;
+      });
+  };
+
+  const abandon = (session: OpenSession) => {
+    session.stopHeartbeat();
+    abandonSession(session.id).catch(error => console.warn('Could not abandon the practice session:', error));
+  };
+
+  useEffect(() => {
+    closedRef.current = false;
+    open();
+    return () => {
+      closedRef.current = true;
+      openRef.current?.then(session => session && abandon(session));
+      openRef.current = null;
+    };
+  }, []);
+
+  // Resolves to the XP awarded, nothing when the session couldn't be saved
+  const finish = async (results?: UpdateSessionBody): Promise<number> => {
+    const pending = openRef.current;
+    if (closedRef.current) return 0;
+    open();
+
+    const session = await pending;
+    if (!session) return 0;
+    session.stopHeartbeat();
+
+    try {
+      if (results) await updateSession(session.id, results);
+      const { xpAwarded } = await completeSession(session.id);
+      if (xpAwarded > 0) addXp(xpAwarded);
+      return xpAwarded;
+    } catch (error) {
+      console.warn('Could not complete the practice session:', error);
+      return 0;
+    }
+  };
+
+  return { finish };
+};